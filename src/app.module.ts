@@ -2,7 +2,9 @@ import { Module } from '@nestjs/common';
 import { MongooseModule } from '@nestjs/mongoose';
 import { ConfigModule, ConfigService } from '@nestjs/config';
 import { UsersModule } from './users/users.module';
+import { AuthModule } from './auth/auth.module';
 import { ChessModule } from './chess/chess.module';
+import { PlayModule } from './play/play.module';
 
 @Module({
   imports: [
@@ -24,7 +26,9 @@ import { ChessModule } from './chess/chess.module';
       inject: [ConfigService],
     }),
     UsersModule,
+    AuthModule,
     ChessModule,
+    PlayModule,
   ],
   controllers: [],
   providers: [],
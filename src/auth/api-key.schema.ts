@@ -0,0 +1,33 @@
+import { Schema, Prop, SchemaFactory } from '@nestjs/mongoose';
+import { HydratedDocument, Schema as MongooseSchema, Types } from 'mongoose';
+
+export type ApiKeyDocument = HydratedDocument<ApiKey>;
+
+/**
+ * Clave de API de un usuario para clientes automáticos (cabecera X-API-Key).
+ * La clave solo se muestra al crearla; aquí queda su SHA-256.
+ */
+@Schema({ timestamps: true })
+export class ApiKey {
+  @Prop({
+    type: MongooseSchema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+    index: true,
+  })
+  user: Types.ObjectId;
+
+  @Prop({ required: true })
+  name: string;
+
+  @Prop({ required: true, unique: true })
+  keyHash: string;
+
+  @Prop({ required: true })
+  prefix: string;
+
+  @Prop({ type: Date, default: null })
+  lastUsedAt: Date | null;
+}
+
+export const ApiKeySchema = SchemaFactory.createForClass(ApiKey);
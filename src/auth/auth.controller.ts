@@ -0,0 +1,78 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  Param,
+  Post,
+} from '@nestjs/common';
+import { AuthService } from './auth.service';
+import { Auth, CurrentUser } from './auth.decorators';
+import { UsersService } from '../users/users.service';
+import { AuthenticatedUser } from '../interfaces/auth.interfaces';
+
+@Controller('auth')
+export class AuthController {
+  constructor(
+    private readonly authService: AuthService,
+    private readonly usersService: UsersService,
+  ) {}
+
+  @Post('register')
+  async register(@Body() body: { username?: string; password?: string }) {
+    return await this.authService.register(body);
+  }
+
+  @Post('login')
+  @HttpCode(200)
+  async login(@Body() body: { username?: string; password?: string }) {
+    return await this.authService.login(body);
+  }
+
+  @Post('refresh')
+  @HttpCode(200)
+  async refresh(@Body() body: { refreshToken: string }) {
+    return await this.authService.refresh(body?.refreshToken);
+  }
+
+  @Post('logout')
+  @HttpCode(204)
+  async logout(@Body() body: { refreshToken: string }) {
+    await this.authService.logout(body?.refreshToken);
+  }
+
+  @Get('me')
+  @Auth()
+  async me(@CurrentUser() user: AuthenticatedUser) {
+    return await this.usersService.findOne(user.id);
+  }
+
+  /**
+   * Body: { name }. La clave solo aparece en esta respuesta
+   */
+  @Post('api-keys')
+  @Auth()
+  async createApiKey(
+    @CurrentUser() user: AuthenticatedUser,
+    @Body() body: { name: string },
+  ) {
+    return await this.authService.createApiKey(user.id, body?.name);
+  }
+
+  @Get('api-keys')
+  @Auth()
+  async listApiKeys(@CurrentUser() user: AuthenticatedUser) {
+    return await this.authService.listApiKeys(user.id);
+  }
+
+  @Delete('api-keys/:id')
+  @Auth()
+  @HttpCode(204)
+  async revokeApiKey(
+    @CurrentUser() user: AuthenticatedUser,
+    @Param('id') id: string,
+  ) {
+    await this.authService.revokeApiKey(user.id, id);
+  }
+}
@@ -0,0 +1,32 @@
+import {
+  applyDecorators,
+  createParamDecorator,
+  ExecutionContext,
+  SetMetadata,
+  UseGuards,
+} from '@nestjs/common';
+import { AuthGuard, OPTIONAL_AUTH_KEY } from './auth.guard';
+import { ROLES_KEY, RolesGuard } from './roles.guard';
+import { AuthenticatedUser } from '../interfaces/auth.interfaces';
+
+/**
+ * Basta con tener uno de los roles
+ */
+export const Roles = (...roles: string[]) => SetMetadata(ROLES_KEY, roles);
+
+/**
+ * Sin credenciales la petición pasa igual (request.user queda vacío); unas
+ * credenciales inválidas siguen dando 401
+ */
+export const OptionalAuth = () => SetMetadata(OPTIONAL_AUTH_KEY, true);
+
+/**
+ * Requiere JWT o clave de API y, si se indican, alguno de los roles
+ */
+export const Auth = (...roles: string[]) =>
+  applyDecorators(Roles(...roles), UseGuards(AuthGuard, RolesGuard));
+
+export const CurrentUser = createParamDecorator(
+  (_data: unknown, context: ExecutionContext): AuthenticatedUser | undefined =>
+    context.switchToHttp().getRequest().user,
+);
@@ -0,0 +1,124 @@
+import {
+  ExecutionContext,
+  ForbiddenException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { AuthGuard, OPTIONAL_AUTH_KEY } from './auth.guard';
+import { ROLES_KEY, RolesGuard } from './roles.guard';
+import { SelfOrAdminGuard } from './self-or-admin.guard';
+import { AuthService } from './auth.service';
+import { AuthenticatedUser } from '../interfaces/auth.interfaces';
+
+const user = (id: string, roles: string[]): AuthenticatedUser => ({
+  id,
+  username: id,
+  roles,
+  via: 'jwt',
+});
+
+/**
+ * Contexto de una petición HTTP con la metadata dada en el handler
+ */
+const context = (
+  request: Record<string, any>,
+  metadata: Record<string, unknown> = {},
+) => {
+  const handler = () => undefined;
+  Object.entries(metadata).forEach(([key, value]) =>
+    Reflect.defineMetadata(key, value, handler),
+  );
+  return {
+    switchToHttp: () => ({ getRequest: () => request }),
+    getHandler: () => handler,
+    getClass: () => class {},
+  } as unknown as ExecutionContext;
+};
+
+describe('Auth guards', () => {
+  const reflector = new Reflector();
+  let authService: {
+    verifyAccessToken: jest.Mock;
+    authenticateApiKey: jest.Mock;
+  };
+  let authGuard: AuthGuard;
+
+  beforeEach(() => {
+    authService = {
+      verifyAccessToken: jest.fn().mockResolvedValue(user('ana', ['user'])),
+      authenticateApiKey: jest.fn().mockResolvedValue(user('bot', ['user'])),
+    };
+    authGuard = new AuthGuard(authService as unknown as AuthService, reflector);
+  });
+
+  it('reads a bearer token or an API key into request.user', async () => {
+    const withToken = { headers: { authorization: 'Bearer abc' } };
+    expect(await authGuard.canActivate(context(withToken))).toBe(true);
+    expect(authService.verifyAccessToken).toHaveBeenCalledWith('abc');
+    expect(withToken).toHaveProperty('user.id', 'ana');
+
+    const withKey = { headers: { 'x-api-key': 'cm360_key' } };
+    await authGuard.canActivate(context(withKey));
+    expect(authService.authenticateApiKey).toHaveBeenCalledWith('cm360_key');
+    expect(withKey).toHaveProperty('user.id', 'bot');
+  });
+
+  it('requires credentials unless the route is optional', async () => {
+    await expect(
+      authGuard.canActivate(context({ headers: {} })),
+    ).rejects.toThrow(UnauthorizedException);
+
+    const anonymous: Record<string, any> = { headers: {} };
+    expect(
+      await authGuard.canActivate(
+        context(anonymous, { [OPTIONAL_AUTH_KEY]: true }),
+      ),
+    ).toBe(true);
+    expect(anonymous.user).toBeUndefined();
+
+    // Credenciales inválidas fallan aunque la ruta sea opcional
+    authService.verifyAccessToken.mockRejectedValue(
+      new UnauthorizedException(),
+    );
+    await expect(
+      authGuard.canActivate(
+        context(
+          { headers: { authorization: 'Bearer bad' } },
+          { [OPTIONAL_AUTH_KEY]: true },
+        ),
+      ),
+    ).rejects.toThrow(UnauthorizedException);
+  });
+
+  it('checks the roles field', () => {
+    const rolesGuard = new RolesGuard(reflector);
+    const admins = { [ROLES_KEY]: ['admin'] };
+
+    expect(
+      rolesGuard.canActivate(context({ user: user('ana', ['user']) })),
+    ).toBe(true);
+    expect(() =>
+      rolesGuard.canActivate(context({ user: user('ana', ['user']) }, admins)),
+    ).toThrow(ForbiddenException);
+    expect(
+      rolesGuard.canActivate(
+        context({ user: user('root', ['user', 'admin']) }, admins),
+      ),
+    ).toBe(true);
+  });
+
+  it('lets users reach only their own /users/:id routes', () => {
+    const guard = new SelfOrAdminGuard();
+    const params = { id: 'ana' };
+
+    expect(
+      guard.canActivate(context({ params, user: user('ana', ['user']) })),
+    ).toBe(true);
+    expect(() =>
+      guard.canActivate(context({ params, user: user('eve', ['user']) })),
+    ).toThrow(ForbiddenException);
+    expect(
+      guard.canActivate(context({ params, user: user('root', ['admin']) })),
+    ).toBe(true);
+  });
+});
@@ -0,0 +1,48 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  Injectable,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { Request } from 'express';
+import { AuthService } from './auth.service';
+import { AuthenticatedUser } from '../interfaces/auth.interfaces';
+
+export const OPTIONAL_AUTH_KEY = 'optionalAuth';
+
+export type AuthenticatedRequest = Request & { user?: AuthenticatedUser };
+
+/**
+ * Autentica con "Authorization: Bearer <jwt>" o con "X-API-Key: <clave>" y deja
+ * el usuario en request.user.
+ */
+@Injectable()
+export class AuthGuard implements CanActivate {
+  constructor(
+    private readonly authService: AuthService,
+    private readonly reflector: Reflector,
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const request = context.switchToHttp().getRequest<AuthenticatedRequest>();
+    const apiKey = request.headers['x-api-key'];
+    const [scheme, token] = (request.headers.authorization ?? '').split(' ');
+
+    if (typeof apiKey === 'string' && apiKey) {
+      request.user = await this.authService.authenticateApiKey(apiKey);
+    } else if (scheme?.toLowerCase() === 'bearer' && token) {
+      request.user = await this.authService.verifyAccessToken(token);
+    } else if (
+      !this.reflector.getAllAndOverride<boolean>(OPTIONAL_AUTH_KEY, [
+        context.getHandler(),
+        context.getClass(),
+      ])
+    ) {
+      throw new UnauthorizedException(
+        'Inicia sesión o envía una clave de API.',
+      );
+    }
+    return true;
+  }
+}
@@ -0,0 +1,26 @@
+import { Global, Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { JwtModule } from '@nestjs/jwt';
+import { UsersModule } from '../users/users.module';
+import { RefreshToken, RefreshTokenSchema } from './refresh-token.schema';
+import { ApiKey, ApiKeySchema } from './api-key.schema';
+import { AuthService } from './auth.service';
+import { AuthController } from './auth.controller';
+
+// Global: los guards de cualquier módulo necesitan AuthService
+@Global()
+@Module({
+  imports: [
+    UsersModule,
+    // El secreto y la caducidad los pone AuthService al firmar
+    JwtModule.register({}),
+    MongooseModule.forFeature([
+      { name: RefreshToken.name, schema: RefreshTokenSchema },
+      { name: ApiKey.name, schema: ApiKeySchema },
+    ]),
+  ],
+  controllers: [AuthController],
+  providers: [AuthService],
+  exports: [AuthService],
+})
+export class AuthModule {}
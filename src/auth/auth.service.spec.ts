@@ -0,0 +1,196 @@
+import { UnauthorizedException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { JwtService } from '@nestjs/jwt';
+import { getModelToken } from '@nestjs/mongoose';
+import { Test, TestingModule } from '@nestjs/testing';
+import { createHash } from 'crypto';
+import { Types } from 'mongoose';
+import { AuthService } from './auth.service';
+import { RefreshToken } from './refresh-token.schema';
+import { ApiKey } from './api-key.schema';
+import { PasswordUtils } from './password.util';
+import { UsersService } from '../users/users.service';
+
+const exec = <T>(value: T) => ({ exec: jest.fn().mockResolvedValue(value) });
+const sha256 = (value: string) =>
+  createHash('sha256').update(value).digest('hex');
+
+describe('AuthService', () => {
+  let service: AuthService;
+  let usersService: Record<string, jest.Mock>;
+  let refreshTokenModel: Record<string, jest.Mock>;
+  let apiKeyModel: Record<string, jest.Mock>;
+  const user = {
+    _id: new Types.ObjectId(),
+    username: 'ana',
+    roles: ['user'],
+    password: '',
+  };
+
+  beforeEach(async () => {
+    usersService = {
+      create: jest.fn(async (data) => ({ ...user, ...data })),
+      findWithPassword: jest.fn().mockResolvedValue(user),
+      findOne: jest.fn().mockResolvedValue(user),
+      grantRole: jest.fn().mockResolvedValue(['Root']),
+    };
+    refreshTokenModel = {
+      create: jest.fn().mockResolvedValue({}),
+      findOneAndDelete: jest.fn(() => exec(null)),
+      deleteOne: jest.fn(() => exec({ deletedCount: 1 })),
+    };
+    apiKeyModel = {
+      create: jest.fn(async (data) => ({
+        _id: new Types.ObjectId(),
+        ...data,
+        lastUsedAt: null,
+        get: () => new Date('2024-03-05T10:00:00Z'),
+      })),
+      findOne: jest.fn(() => exec(null)),
+      updateOne: jest.fn(() => exec({})),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AuthService,
+        JwtService,
+        { provide: UsersService, useValue: usersService },
+        {
+          provide: getModelToken(RefreshToken.name),
+          useValue: refreshTokenModel,
+        },
+        { provide: getModelToken(ApiKey.name), useValue: apiKeyModel },
+        {
+          provide: ConfigService,
+          useValue: new ConfigService({
+            JWT_SECRET: 'test-secret',
+            JWT_EXPIRES_IN: '600',
+            ADMIN_USERNAMES: 'Root, boss',
+          }),
+        },
+      ],
+    }).compile();
+
+    service = module.get<AuthService>(AuthService);
+  });
+
+  it('registers plain users, even with a name from ADMIN_USERNAMES', async () => {
+    const {
+      user: created,
+      accessToken,
+      expiresIn,
+    } = await service.register({
+      username: 'Root',
+      password: 'long enough',
+    });
+
+    expect(usersService.create).toHaveBeenCalledWith({
+      username: 'Root',
+      password: 'long enough',
+      roles: ['user'],
+    });
+    expect(created.roles).toEqual(['user']);
+    expect(expiresIn).toBe(600);
+    expect(await service.verifyAccessToken(accessToken)).toEqual({
+      id: user._id.toString(),
+      username: 'Root',
+      roles: ['user'],
+      via: 'jwt',
+    });
+  });
+
+  it('grants admin at startup to existing users named exactly in ADMIN_USERNAMES', async () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation();
+
+    await service.onModuleInit();
+
+    expect(usersService.grantRole).toHaveBeenCalledWith(
+      ['Root', 'boss'],
+      'admin',
+    );
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('boss'));
+    warn.mockRestore();
+  });
+
+  it('logs in only with the right password', async () => {
+    user.password = await PasswordUtils.hash('long enough');
+
+    const tokens = await service.login({
+      username: 'ana',
+      password: 'long enough',
+    });
+    expect(tokens.tokenType).toBe('Bearer');
+
+    await expect(
+      service.login({ username: 'ana', password: 'wrong password' }),
+    ).rejects.toThrow(UnauthorizedException);
+    usersService.findWithPassword.mockResolvedValue(null);
+    await expect(
+      service.login({ username: 'nobody', password: 'long enough' }),
+    ).rejects.toThrow('Usuario o contraseña incorrectos.');
+  });
+
+  it('stores only refresh token hashes and rotates them on use', async () => {
+    const { refreshToken } = await service.register({
+      username: 'ana',
+      password: 'long enough',
+    });
+    const [stored] = refreshTokenModel.create.mock.calls[0];
+    expect(stored.tokenHash).toBe(sha256(refreshToken));
+    expect(stored.expiresAt.getTime()).toBeGreaterThan(
+      Date.now() + 29 * 24 * 60 * 60 * 1000,
+    );
+
+    refreshTokenModel.findOneAndDelete.mockReturnValueOnce(
+      exec({ user: user._id }),
+    );
+    const rotated = await service.refresh(refreshToken);
+    expect(refreshTokenModel.findOneAndDelete).toHaveBeenCalledWith({
+      tokenHash: sha256(refreshToken),
+      expiresAt: { $gt: expect.any(Date) },
+    });
+    expect(rotated.refreshToken).not.toBe(refreshToken);
+
+    // Ya usado: findOneAndDelete no lo encuentra
+    await expect(service.refresh(refreshToken)).rejects.toThrow(
+      UnauthorizedException,
+    );
+  });
+
+  it('rejects access tokens signed with another secret', async () => {
+    const forged = await new JwtService().signAsync(
+      { sub: 'x', username: 'root', roles: ['admin'] },
+      { secret: 'other-secret' },
+    );
+    await expect(service.verifyAccessToken(forged)).rejects.toThrow(
+      UnauthorizedException,
+    );
+  });
+
+  it('authenticates API keys with the current roles of their user', async () => {
+    const { key, prefix } = await service.createApiKey(
+      user._id.toString(),
+      ' CI bot ',
+    );
+    const [stored] = apiKeyModel.create.mock.calls[0];
+    expect(key).toMatch(/^cm360_/);
+    expect(key.startsWith(prefix)).toBe(true);
+    expect(stored).toMatchObject({ name: 'CI bot', keyHash: sha256(key) });
+    expect(JSON.stringify(stored)).not.toContain(key);
+
+    apiKeyModel.findOne.mockReturnValue(
+      exec({ _id: new Types.ObjectId(), user: user._id }),
+    );
+    usersService.findOne.mockResolvedValue({ ...user, roles: ['admin'] });
+    expect(await service.authenticateApiKey(key)).toMatchObject({
+      roles: ['admin'],
+      via: 'api-key',
+    });
+    expect(apiKeyModel.findOne).toHaveBeenCalledWith({ keyHash: sha256(key) });
+
+    apiKeyModel.findOne.mockReturnValue(exec(null));
+    await expect(service.authenticateApiKey('cm360_nope')).rejects.toThrow(
+      'Clave de API inválida.',
+    );
+  });
+});
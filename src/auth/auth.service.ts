@@ -0,0 +1,284 @@
+import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+  OnModuleInit,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectModel } from '@nestjs/mongoose';
+import { JwtService } from '@nestjs/jwt';
+import { createHash, randomBytes } from 'crypto';
+import { isValidObjectId, Model } from 'mongoose';
+import { RefreshToken, RefreshTokenDocument } from './refresh-token.schema';
+import { ApiKey, ApiKeyDocument } from './api-key.schema';
+import { PasswordUtils } from './password.util';
+import { UsersService } from '../users/users.service';
+import { User, UserDocument } from '../users/users.schema';
+import {
+  AccessTokenPayload,
+  ApiKeyInfo,
+  AuthenticatedUser,
+  AuthTokens,
+} from '../interfaces/auth.interfaces';
+
+const DEFAULT_ACCESS_TOKEN_SECONDS = 15 * 60;
+const DEFAULT_REFRESH_TOKEN_DAYS = 30;
+const API_KEY_PREFIX = 'cm360_';
+// Caracteres de la clave que se guardan en claro para reconocerla en la lista
+const API_KEY_VISIBLE = API_KEY_PREFIX.length + 6;
+
+const sha256 = (value: string) =>
+  createHash('sha256').update(value).digest('hex');
+
+/**
+ * Registro, login con JWT, refresh tokens con rotación y claves de API.
+ */
+@Injectable()
+export class AuthService implements OnModuleInit {
+  private readonly secret: string;
+  private readonly accessTokenSeconds: number;
+  private readonly refreshTokenDays: number;
+  private readonly adminUsernames: Set<string>;
+
+  constructor(
+    private readonly usersService: UsersService,
+    private readonly jwtService: JwtService,
+    private readonly configService: ConfigService,
+    @InjectModel(RefreshToken.name)
+    private readonly refreshTokenModel: Model<RefreshTokenDocument>,
+    @InjectModel(ApiKey.name)
+    private readonly apiKeyModel: Model<ApiKeyDocument>,
+  ) {
+    const secret = this.configService.get<string>('JWT_SECRET');
+    if (!secret) {
+      console.warn(
+        '⚠️ JWT_SECRET is not set: using a random secret, sessions end on restart',
+      );
+    }
+    this.secret = secret || randomBytes(32).toString('hex');
+
+    const seconds = parseInt(
+      this.configService.get<string>('JWT_EXPIRES_IN') ?? '',
+      10,
+    );
+    this.accessTokenSeconds =
+      Number.isInteger(seconds) && seconds > 0
+        ? seconds
+        : DEFAULT_ACCESS_TOKEN_SECONDS;
+
+    const days = parseInt(
+      this.configService.get<string>('REFRESH_TOKEN_DAYS') ?? '',
+      10,
+    );
+    this.refreshTokenDays =
+      Number.isInteger(days) && days > 0 ? days : DEFAULT_REFRESH_TOKEN_DAYS;
+
+    // Usuarios que reciben el rol admin al arrancar, con el nombre exacto
+    this.adminUsernames = new Set(
+      (this.configService.get<string>('ADMIN_USERNAMES') ?? '')
+        .split(',')
+        .map((username) => username.trim())
+        .filter(Boolean),
+    );
+  }
+
+  /**
+   * ADMIN_USERNAMES solo promueve cuentas que ya existen. Registrarse nunca
+   * da el rol admin: cualquiera podría reclamar un nombre de la lista.
+   */
+  async onModuleInit() {
+    if (this.adminUsernames.size === 0) return;
+    const usernames = [...this.adminUsernames];
+    const found = await this.usersService.grantRole(usernames, 'admin');
+    const missing = usernames.filter((username) => !found.includes(username));
+    if (missing.length > 0) {
+      console.warn(
+        `⚠️ ADMIN_USERNAMES: no user named ${missing.join(', ')}, register them and restart`,
+      );
+    }
+  }
+
+  async register(body: {
+    username?: string;
+    password?: string;
+  }): Promise<AuthTokens & { user: User }> {
+    const user = (await this.usersService.create({
+      username: body?.username,
+      password: body?.password,
+      roles: ['user'],
+    })) as UserDocument;
+    return { user, ...(await this.issueTokens(user)) };
+  }
+
+  /**
+   * Mismo error para usuario inexistente y contraseña incorrecta
+   */
+  async login(body: {
+    username?: string;
+    password?: string;
+  }): Promise<AuthTokens> {
+    const user = await this.usersService.findWithPassword(body?.username);
+    if (
+      !user ||
+      typeof body.password !== 'string' ||
+      !(await PasswordUtils.verify(body.password, user.password))
+    ) {
+      throw new UnauthorizedException('Usuario o contraseña incorrectos.');
+    }
+    return this.issueTokens(user);
+  }
+
+  /**
+   * Cada refresh token vale una vez: se borra y se emite otro par
+   */
+  async refresh(refreshToken: string): Promise<AuthTokens> {
+    const stored =
+      typeof refreshToken === 'string'
+        ? await this.refreshTokenModel
+            .findOneAndDelete({
+              tokenHash: sha256(refreshToken),
+              expiresAt: { $gt: new Date() },
+            })
+            .exec()
+        : null;
+    if (!stored) {
+      throw new UnauthorizedException('Refresh token inválido o caducado.');
+    }
+
+    const user = await this.usersService
+      .findOne(stored.user.toString())
+      .catch(() => null);
+    if (!user) {
+      throw new UnauthorizedException('El usuario ya no existe.');
+    }
+    return this.issueTokens(user);
+  }
+
+  async logout(refreshToken: string): Promise<void> {
+    if (typeof refreshToken !== 'string') return;
+    await this.refreshTokenModel
+      .deleteOne({ tokenHash: sha256(refreshToken) })
+      .exec();
+  }
+
+  async verifyAccessToken(token: string): Promise<AuthenticatedUser> {
+    try {
+      const payload = await this.jwtService.verifyAsync<AccessTokenPayload>(
+        token,
+        { secret: this.secret },
+      );
+      return {
+        id: payload.sub,
+        username: payload.username,
+        roles: payload.roles ?? [],
+        via: 'jwt',
+      };
+    } catch {
+      throw new UnauthorizedException('Token de acceso inválido o caducado.');
+    }
+  }
+
+  /**
+   * Los roles se leen del usuario en cada petición, no de la clave
+   */
+  async authenticateApiKey(key: string): Promise<AuthenticatedUser> {
+    const apiKey = await this.apiKeyModel
+      .findOne({ keyHash: sha256(key) })
+      .exec();
+    const user = apiKey
+      ? await this.usersService
+          .findOne(apiKey.user.toString())
+          .catch(() => null)
+      : null;
+    if (!user) {
+      throw new UnauthorizedException('Clave de API inválida.');
+    }
+
+    void this.apiKeyModel
+      .updateOne({ _id: apiKey._id }, { $set: { lastUsedAt: new Date() } })
+      .exec()
+      .catch(() => undefined);
+    return {
+      id: user._id.toString(),
+      username: user.username,
+      roles: user.roles,
+      via: 'api-key',
+    };
+  }
+
+  /**
+   * La clave completa solo se devuelve aquí
+   */
+  async createApiKey(
+    userId: string,
+    name: string,
+  ): Promise<ApiKeyInfo & { key: string }> {
+    if (typeof name !== 'string' || !name.trim()) {
+      throw new BadRequestException('Ponle un nombre a la clave.');
+    }
+    const key = API_KEY_PREFIX + randomBytes(32).toString('base64url');
+    const apiKey = await this.apiKeyModel.create({
+      user: userId,
+      name: name.trim(),
+      keyHash: sha256(key),
+      prefix: key.slice(0, API_KEY_VISIBLE),
+    });
+    return { ...this.toApiKeyInfo(apiKey), key };
+  }
+
+  async listApiKeys(userId: string): Promise<ApiKeyInfo[]> {
+    const keys = await this.apiKeyModel
+      .find({ user: userId })
+      .sort({ createdAt: -1 })
+      .exec();
+    return keys.map((apiKey) => this.toApiKeyInfo(apiKey));
+  }
+
+  async revokeApiKey(userId: string, id: string): Promise<void> {
+    const { deletedCount } = isValidObjectId(id)
+      ? await this.apiKeyModel.deleteOne({ _id: id, user: userId }).exec()
+      : { deletedCount: 0 };
+    if (deletedCount === 0) {
+      throw new NotFoundException('No existe la clave de API.');
+    }
+  }
+
+  private async issueTokens(user: UserDocument): Promise<AuthTokens> {
+    const payload: AccessTokenPayload = {
+      sub: user._id.toString(),
+      username: user.username,
+      roles: user.roles,
+    };
+    const accessToken = await this.jwtService.signAsync(payload, {
+      secret: this.secret,
+      expiresIn: this.accessTokenSeconds,
+    });
+
+    const refreshToken = randomBytes(48).toString('base64url');
+    await this.refreshTokenModel.create({
+      user: user._id,
+      tokenHash: sha256(refreshToken),
+      expiresAt: new Date(
+        Date.now() + this.refreshTokenDays * 24 * 60 * 60 * 1000,
+      ),
+    });
+
+    return {
+      accessToken,
+      refreshToken,
+      tokenType: 'Bearer',
+      expiresIn: this.accessTokenSeconds,
+    };
+  }
+
+  private toApiKeyInfo(apiKey: ApiKeyDocument): ApiKeyInfo {
+    return {
+      id: apiKey._id.toString(),
+      name: apiKey.name,
+      prefix: apiKey.prefix,
+      createdAt: apiKey.get('createdAt'),
+      lastUsedAt: apiKey.lastUsedAt,
+    };
+  }
+}
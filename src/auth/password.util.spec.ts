@@ -0,0 +1,22 @@
+import { PasswordUtils } from './password.util';
+
+describe('PasswordUtils', () => {
+  it('hashes with a random salt and verifies the password', async () => {
+    const hash = await PasswordUtils.hash('correct horse');
+    const again = await PasswordUtils.hash('correct horse');
+
+    expect(hash).toMatch(/^scrypt\$131072\$8\$1\$[^$]+\$[^$]+$/);
+    expect(hash).not.toContain('correct horse');
+    expect(again).not.toBe(hash);
+    expect(await PasswordUtils.verify('correct horse', hash)).toBe(true);
+    expect(await PasswordUtils.verify('correct horsE', hash)).toBe(false);
+  });
+
+  it('rejects plain-text and malformed stored passwords', async () => {
+    expect(await PasswordUtils.verify('secret123', 'secret123')).toBe(false);
+    expect(await PasswordUtils.verify('secret123', 'scrypt$x$y$z$$')).toBe(
+      false,
+    );
+    expect(await PasswordUtils.verify('secret123', undefined)).toBe(false);
+  });
+});
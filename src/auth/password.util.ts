@@ -0,0 +1,76 @@
+import { randomBytes, scrypt, ScryptOptions, timingSafeEqual } from 'crypto';
+
+// Parámetros de scrypt (los recomendados por OWASP); se guardan con cada hash
+// para poder subirlos sin invalidar las contraseñas existentes
+const COST = 2 ** 17;
+const BLOCK_SIZE = 8;
+const PARALLELIZATION = 1;
+const KEY_LENGTH = 64;
+const SALT_LENGTH = 16;
+// N · r · 128 bytes = 128 MiB; el límite por defecto de Node es 32 MiB
+const MAX_MEMORY = 256 * 1024 * 1024;
+
+export const MIN_PASSWORD_LENGTH = 8;
+
+const derive = (
+  password: string,
+  salt: Buffer,
+  keyLength: number,
+  options: ScryptOptions,
+) =>
+  new Promise<Buffer>((resolve, reject) =>
+    scrypt(password, salt, keyLength, options, (error, key) =>
+      error ? reject(error) : resolve(key),
+    ),
+  );
+
+/**
+ * Hash con scrypt de Node: "scrypt$N$r$p$sal$hash" (sal y hash en base64).
+ */
+export class PasswordUtils {
+  static async hash(password: string): Promise<string> {
+    const salt = randomBytes(SALT_LENGTH);
+    const key = await derive(password, salt, KEY_LENGTH, {
+      N: COST,
+      r: BLOCK_SIZE,
+      p: PARALLELIZATION,
+      maxmem: MAX_MEMORY,
+    });
+    return [
+      'scrypt',
+      COST,
+      BLOCK_SIZE,
+      PARALLELIZATION,
+      salt.toString('base64'),
+      key.toString('base64'),
+    ].join('$');
+  }
+
+  /**
+   * false también si el hash guardado no tiene el formato esperado
+   */
+  static async verify(password: string, stored: string): Promise<boolean> {
+    const [algorithm, cost, blockSize, parallelization, salt, hash] = (
+      stored ?? ''
+    ).split('$');
+    if (algorithm !== 'scrypt' || !salt || !hash) return false;
+
+    const expected = Buffer.from(hash, 'base64');
+    try {
+      const key = await derive(
+        password,
+        Buffer.from(salt, 'base64'),
+        expected.length,
+        {
+          N: Number(cost),
+          r: Number(blockSize),
+          p: Number(parallelization),
+          maxmem: MAX_MEMORY,
+        },
+      );
+      return timingSafeEqual(key, expected);
+    } catch {
+      return false;
+    }
+  }
+}
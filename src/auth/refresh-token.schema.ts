@@ -0,0 +1,28 @@
+import { Schema, Prop, SchemaFactory } from '@nestjs/mongoose';
+import { HydratedDocument, Schema as MongooseSchema, Types } from 'mongoose';
+
+export type RefreshTokenDocument = HydratedDocument<RefreshToken>;
+
+/**
+ * Refresh token emitido en un login. Solo se guarda su SHA-256; cada uso lo
+ * borra y emite otro (rotación).
+ */
+@Schema({ timestamps: true })
+export class RefreshToken {
+  @Prop({
+    type: MongooseSchema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+    index: true,
+  })
+  user: Types.ObjectId;
+
+  @Prop({ required: true, unique: true })
+  tokenHash: string;
+
+  // MongoDB borra el documento al caducar (índice TTL)
+  @Prop({ type: Date, required: true, expires: 0 })
+  expiresAt: Date;
+}
+
+export const RefreshTokenSchema = SchemaFactory.createForClass(RefreshToken);
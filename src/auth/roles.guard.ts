@@ -0,0 +1,38 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { AuthenticatedRequest } from './auth.guard';
+
+export const ROLES_KEY = 'roles';
+
+/**
+ * Comprueba el campo roles del usuario; va después de AuthGuard.
+ */
+@Injectable()
+export class RolesGuard implements CanActivate {
+  constructor(private readonly reflector: Reflector) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    const roles = this.reflector.getAllAndOverride<string[]>(ROLES_KEY, [
+      context.getHandler(),
+      context.getClass(),
+    ]);
+    if (!roles?.length) return true;
+
+    const { user } = context.switchToHttp().getRequest<AuthenticatedRequest>();
+    if (!user) {
+      throw new UnauthorizedException(
+        'Inicia sesión o envía una clave de API.',
+      );
+    }
+    if (!roles.some((role) => user.roles.includes(role))) {
+      throw new ForbiddenException('No tienes permiso para esta operación.');
+    }
+    return true;
+  }
+}
@@ -0,0 +1,30 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { AuthenticatedRequest } from './auth.guard';
+
+/**
+ * Rutas /users/:id/...: solo el propio usuario o un admin. Va después de
+ * AuthGuard.
+ */
+@Injectable()
+export class SelfOrAdminGuard implements CanActivate {
+  canActivate(context: ExecutionContext): boolean {
+    const { user, params } = context
+      .switchToHttp()
+      .getRequest<AuthenticatedRequest>();
+    if (!user) {
+      throw new UnauthorizedException(
+        'Inicia sesión o envía una clave de API.',
+      );
+    }
+    if (user.id !== params.id && !user.roles.includes('admin')) {
+      throw new ForbiddenException('No tienes permiso para esta operación.');
+    }
+    return true;
+  }
+}
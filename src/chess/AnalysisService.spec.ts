@@ -0,0 +1,278 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { Chess } from 'chess.js';
+import { AnalysisService } from './AnalysisService';
+import { ChessService } from './chess.service';
+import { ClassificationService } from './ClassificationService';
+import { GamePhaseService } from './game-phase.service';
+import { OpeningsService } from './openings.service';
+import { TimeManagementService } from './time-management.service';
+import { PerformanceRatingService } from './performance-rating.service';
+import { GameSummaryService } from './game-summary.service';
+import { AnalysisBudgetService } from './analysis-budget.service';
+import { EngineService } from '../engine/engine.service';
+import { PuzzlesService } from '../puzzles/puzzles.service';
+import { EngineLine, SearchLimit } from '../interfaces/engine.interfaces';
+
+const TEST_PGN = readFileSync(join(__dirname, '../../test.pgn'), 'utf8');
+const MIDDLEGAME_PGN = `[White "a"]
+[Black "b"]
+[Result "0-1"]
+
+1. e4 e5 2. Nf3 Nc6 3. Bc4 Nd4 4. Nxe5 Qg5 5. Nxf7 Qxg2 6. Rf1 Qxe4+ 7. Be2 Nf3# 0-1`;
+
+/**
+ * Motor falso: la primera jugada legal y la segunda (o una de `preferred`)
+ * como líneas MultiPV, la primera con ventaja (o el mate de `mates` para esa
+ * FEN), a la profundidad del límite, y un contador de búsquedas.
+ */
+const fakeEngine = () => {
+  const searched: string[] = [];
+  const preferred: string[] = [];
+  const mates = new Map<string, number>();
+  const searchPosition = jest.fn(async (fen: string, limit: SearchLimit) => {
+    searched.push(fen);
+    const chess = new Chess(fen);
+    if (chess.isGameOver()) {
+      return [
+        {
+          id: 1,
+          depth: 0,
+          evaluation: { type: 'mate', value: 0 },
+          moveUCI: '',
+          pv: [],
+          pvSAN: [],
+        },
+      ] as EngineLine[];
+    }
+    const [first, ...rest] = chess.moves({ verbose: true });
+    const second = rest.find((move) => preferred.includes(move.lan)) ?? rest[0];
+    return [first, second].filter(Boolean).map(
+      (move, index): EngineLine => ({
+        id: index + 1,
+        // Alcanza la profundidad pedida; con nodos o tiempo, 12
+        depth: 'depth' in limit ? limit.depth : 12,
+        evaluation:
+          index === 0 && mates.has(fen)
+            ? { type: 'mate', value: mates.get(fen) }
+            : { type: 'cp', value: 40 - index * 30 },
+        moveUCI: move.lan,
+        pv: [move.lan],
+        pvSAN: [move.san],
+        nodes: 1000,
+        time: 1,
+      }),
+    );
+  });
+  return {
+    searched,
+    preferred,
+    mates,
+    searchPosition,
+    engineInfo: { adapter: 'wasm', name: 'Stockfish 16', version: '16' },
+  };
+};
+
+describe('AnalysisService', () => {
+  let service: AnalysisService;
+  let engine: ReturnType<typeof fakeEngine>;
+  let openings: OpeningsService;
+
+  // Construir el árbol de aperturas cuesta ~1 s: una sola vez
+  beforeAll(() => {
+    openings = new OpeningsService();
+    openings.onModuleInit();
+  });
+
+  beforeEach(async () => {
+    jest.spyOn(console, 'log').mockImplementation();
+    engine = fakeEngine();
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AnalysisService,
+        ChessService,
+        ClassificationService,
+        GamePhaseService,
+        TimeManagementService,
+        PerformanceRatingService,
+        GameSummaryService,
+        AnalysisBudgetService,
+        { provide: OpeningsService, useValue: openings },
+        { provide: ConfigService, useValue: new ConfigService({}) },
+        { provide: EngineService, useValue: engine },
+        {
+          provide: PuzzlesService,
+          useValue: { collectFromGame: jest.fn().mockResolvedValue(0) },
+        },
+      ],
+    }).compile();
+
+    service = module.get<AnalysisService>(AnalysisService);
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  /**
+   * Búsquedas con la estrategia anterior: la posición previa de cada jugada
+   * fuera de libro y, si no fue la mejor, otra de la posición resultante.
+   */
+  const twoSearchesPerPly = (
+    positions: { classification: string; search?: { depth: number } }[],
+    bestMoves: boolean[],
+  ) =>
+    positions.reduce(
+      (calls, position, index) =>
+        position.classification === 'book'
+          ? calls
+          : calls + (bestMoves[index] ? 1 : 2),
+      0,
+    );
+
+  // Posición previa de la jugada `index` (la inicial para la primera)
+  const fenBefore = (positions: { fen: string }[], index: number) =>
+    index === 0 ? new Chess().fen() : positions[index - 1].fen;
+
+  it.each([
+    ['test.pgn', TEST_PGN, [6, 7], [7], [1000, 2000], 4],
+    [
+      'a middlegame with a mate',
+      MIDDLEGAME_PGN,
+      [6, 7, 8, 9, 10, 11, 12, 13],
+      [13],
+      // La posición final de mate no gasta nodos
+      [1000, 1000, 1000, 1000, 1000, 1000, 1000, 1000],
+      15,
+    ],
+  ])(
+    'benchmark: needs one engine search per ply on %s',
+    async (
+      _name,
+      pgn,
+      searchedPlies,
+      searchedAfter,
+      plyNodes,
+      withoutReuse,
+    ) => {
+      const report = await service.analyzeGame(pgn, 16);
+
+      const bestMoves = report.positions.map(
+        ({ move, suggestedMove }) => move.uci === suggestedMove.uci,
+      );
+      expect(twoSearchesPerPly(report.positions, bestMoves)).toBe(withoutReuse);
+      // La posición previa de cada jugada fuera de libro y la posición tras la
+      // última, todas con el límite de su jugada y una sola vez cada una
+      expect(
+        engine.searchPosition.mock.calls.map(([fen, limit]) => [fen, limit]),
+      ).toEqual([
+        ...searchedPlies.map((index) => [
+          fenBefore(report.positions, index),
+          { depth: 16 },
+        ]),
+        ...searchedAfter.map((index) => [
+          report.positions[index].fen,
+          { depth: 16 },
+        ]),
+      ]);
+      expect(report.positions.map(({ search }) => search)).toEqual(
+        report.positions.map((_position, index) =>
+          searchedPlies.includes(index)
+            ? {
+                limit: { depth: 16 },
+                depth: 16,
+                nodes: plyNodes[searchedPlies.indexOf(index)],
+                time: plyNodes[searchedPlies.indexOf(index)] / 1000,
+              }
+            : { limit: null, depth: null, nodes: 0, time: 0 },
+        ),
+      );
+      expect(report.search.nodes).toBe(plyNodes.reduce((a, b) => a + b, 0));
+    },
+  );
+
+  it('searches the position after a move again when the next ply has another limit', async () => {
+    // Todas a profundidad 16 salvo 6. Rf1, con un límite de nodos propio
+    jest
+      .spyOn(AnalysisBudgetService.prototype, 'allocate')
+      .mockImplementation((_plan, plies) =>
+        plies.map((_ply, index) =>
+          index === 10 ? { nodes: 5000 } : { depth: 16 },
+        ),
+      );
+    const report = await service.analyzeGame(MIDDLEGAME_PGN, undefined, {
+      profile: 'quick',
+    });
+
+    const calls = engine.searchPosition.mock.calls.map(([fen, limit]) => [
+      fen,
+      limit,
+    ]);
+    // 5... Qxg2 y 6. Rf1 no pueden reutilizar la búsqueda de la jugada
+    // siguiente: la posición tras cada una se busca con su propio límite
+    expect(calls).toHaveLength(11);
+    expect(calls).toEqual(
+      expect.arrayContaining([
+        [fenBefore(report.positions, 10), { nodes: 5000 }],
+        [report.positions[9].fen, { depth: 16 }],
+        [report.positions[10].fen, { nodes: 5000 }],
+        [fenBefore(report.positions, 11), { depth: 16 }],
+      ]),
+    );
+    expect(report.positions[9].search).toEqual({
+      limit: { depth: 16 },
+      depth: 16,
+      nodes: 2000,
+      time: 2,
+    });
+    // Con el límite de nodos el motor falso llega a profundidad 12
+    expect(report.positions[10].search).toEqual({
+      limit: { nodes: 5000 },
+      depth: 12,
+      nodes: 2000,
+      time: 2,
+    });
+  });
+
+  it('takes the score of a move found among the MultiPV lines from the same search', async () => {
+    engine.preferred.push('d8g5');
+    const report = await service.analyzeGame(MIDDLEGAME_PGN, 16);
+
+    // Qg5 es la segunda línea tras 4. Nxe5: 30 cp peor que la primera
+    const qg5 = report.positions[7];
+    expect(qg5.move.san).toBe('Qg5');
+    expect(qg5.playedLine).toMatchObject({ id: 2, moveUCI: 'd8g5' });
+    expect(qg5.cpLoss).toBe(30);
+    expect(qg5.search).toEqual({
+      limit: { depth: 16 },
+      depth: 16,
+      nodes: 1000,
+      time: 1,
+    });
+    // Sin buscar la posición tras Qg5 aparte: ni más ni menos búsquedas
+    expect(engine.searchPosition).toHaveBeenCalledTimes(9);
+  });
+
+  it('counts the move itself in the mate of a played line built from the reply', async () => {
+    // Tras 6... Qxe4+ las blancas reciben mate en 1 (7. Be2 Nf3#)
+    const chess = new Chess();
+    'e4 e5 Nf3 Nc6 Bc4 Nd4 Nxe5 Qg5 Nxf7 Qxg2 Rf1 Qxe4+'
+      .split(' ')
+      .forEach((san) => chess.move(san));
+    engine.mates.set(chess.fen(), -1);
+    const report = await service.analyzeGame(MIDDLEGAME_PGN, 16);
+
+    const qxe4 = report.positions[11];
+    expect(qxe4.move.san).toBe('Qxe4+');
+    expect(qxe4.playedLine).toMatchObject({
+      id: 0,
+      evaluation: { type: 'mate', value: 2 },
+    });
+    // Nf3# deja al rival ya mateado (mate 0): mate en 1 con la jugada
+    const mate = report.positions[13];
+    expect(mate.playedLine).toMatchObject({
+      id: 0,
+      evaluation: { type: 'mate', value: 1 },
+    });
+  });
+});
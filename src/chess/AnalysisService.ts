@@ -1,222 +1,435 @@
 import { BadRequestException, Injectable } from '@nestjs/common';
 import { ChessService } from './chess.service';
 import { EngineService } from '../engine/engine.service';
+import { ClassificationService } from './ClassificationService';
+import { GamePhaseService } from './game-phase.service';
 import { OpeningsService } from './openings.service';
-import { Position, EvaluatedPosition, Report, Classification } from '../interfaces/analysis.interfaces';
+import { TimeManagementService } from './time-management.service';
+import { PerformanceRatingService } from './performance-rating.service';
+import { GameSummaryService } from './game-summary.service';
+import { AnalysisBudgetService, AnalysisPlan } from './analysis-budget.service';
+import { PuzzlesService } from '../puzzles/puzzles.service';
+import { Position, EvaluatedPosition, Report, Classification, SearchReport } from '../interfaces/analysis.interfaces';
 import { Chess } from 'chess.js';
 import { EvaluationUtils } from './evaluation.util';
+import { ExchangeUtils } from './exchange.util';
+import { EngineLine, SearchLimit } from '../interfaces/engine.interfaces';
+
+const STARTING_FEN = 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1';
+// Profundidad de los puzzles cuando la partida se analizó con un perfil sin búsquedas
+const DEFAULT_PUZZLE_DEPTH = 12;
+
+export interface AnalyzeOptions {
+  /** Se llama una vez por jugada, en orden, en cuanto su evaluación está lista */
+  onPosition?: (position: EvaluatedPosition, index: number, total: number) => void;
+  /** Abortar detiene las búsquedas en curso y rechaza con AnalysisCancelledError */
+  signal?: AbortSignal;
+  /** Perfil de presupuesto ("quick", "standard", "deep") en lugar de profundidad fija */
+  profile?: string;
+}
+
+export class AnalysisCancelledError extends Error {
+  constructor() {
+    super('Análisis cancelado');
+    this.name = 'AnalysisCancelledError';
+  }
+}
+
+function sameLimit(a: SearchLimit, b: SearchLimit): boolean {
+  const [key] = Object.keys(a);
+  return a[key] === b[key];
+}
+
+interface PlyResult {
+  evaluatedPosition: EvaluatedPosition;
+  accuracy: number | null;
+  isWhiteTurn: boolean;
+  // Puntuaciones desde el bando que mueve, para decidir 'miss' al conocer la jugada anterior
+  expectedScores?: { best: number; played: number };
+}
 
 @Injectable()
 export class AnalysisService {
   constructor(
     private readonly chessService: ChessService,
     private readonly engineService: EngineService,
+    private readonly classificationService: ClassificationService,
+    private readonly gamePhaseService: GamePhaseService,
     private readonly openingsService: OpeningsService,
+    private readonly timeManagementService: TimeManagementService,
+    private readonly puzzlesService: PuzzlesService,
+    private readonly performanceRatingService: PerformanceRatingService,
+    private readonly gameSummaryService: GameSummaryService,
+    private readonly analysisBudgetService: AnalysisBudgetService,
   ) { }
 
-  async analyzeGame(pgn: string, depth: number): Promise<Report> {
+  async analyzeGame(pgn: string, depth: number, options: AnalyzeOptions = {}): Promise<Report> {
     this.validatePgn(pgn);
-    const positions = this.chessService.parsePgn(pgn);
+    const { positions, metadata } = this.chessService.parsePgn(pgn);
+    const { onPosition, signal } = options;
+    const plan = this.resolvePlan(depth, options.profile);
+    const phases = this.gamePhaseService.detectPhases(positions);
+    const book = positions.map((position, index) => this.classificationService.isBookMove(position.fen, index));
+    const limits = this.analysisBudgetService.allocate(
+      plan,
+      positions.map((position, index) => ({
+        fen: index === 0 ? STARTING_FEN : positions[index - 1].fen,
+        previousSan: positions[index - 1]?.move.san,
+        book: book[index],
+      })),
+    );
+
+    // Una búsqueda por posición: la posición tras la jugada i es la previa de la
+    // jugada i + 1, así que esa búsqueda sirve a las dos con la misma profundidad
+    const searches = new Map<number, Promise<EngineLine[]>>();
+    const searchBefore = (index: number) => {
+      if (!searches.has(index)) {
+        const fen = index === 0 ? STARTING_FEN : positions[index - 1].fen;
+        searches.set(index, this.engineService.searchPosition(fen, limits[index], { signal }));
+      }
+      return searches.get(index);
+    };
 
     const whiteAccuracies: number[] = [];
     const blackAccuracies: number[] = [];
     const evaluatedPositions: EvaluatedPosition[] = [];
 
-    const tempChess = new Chess();
-    let previousFen = 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1';
+    // Las jugadas terminan en cualquier orden; onPosition se emite en orden de jugada
+    const total = positions.length;
+    const finished: PlyResult[] = new Array(total);
+    let emitted = 0;
+    const flush = () => {
+      while (emitted < total && finished[emitted]) {
+        if (emitted > 0) this.applyMiss(finished[emitted], finished[emitted - 1]);
+        onPosition?.(finished[emitted].evaluatedPosition, emitted, total);
+        emitted++;
+      }
+    };
+
+    // Cada jugada solo depende de la posición anterior, así que todas se analizan
+    // en paralelo; el pool del motor limita cuántas búsquedas corren a la vez.
+    const results = await Promise.all(
+      positions.map(async (position, index) => {
+        const previousFen = index === 0 ? STARTING_FEN : positions[index - 1].fen;
+        const previousMove = index === 0 ? undefined : positions[index - 1].move;
+        // Tras la última jugada o antes de una de libro no hay búsqueda que reutilizar;
+        // con presupuesto tampoco si la siguiente usa otro límite, para que las dos
+        // puntuaciones de la jugada salgan de búsquedas con el mismo límite
+        const nextSearched = index + 1 < total && !book[index + 1] && sameLimit(limits[index], limits[index + 1]);
+        const result = await this.analyzePly(index, position, previousFen, previousMove, limits[index], {
+          before: () => searchBefore(index),
+          after: nextSearched ? () => searchBefore(index + 1) : null,
+        }, signal);
+        result.evaluatedPosition.phase = phases[index];
+        const timeTrouble = this.timeManagementService.isTimeTrouble(position);
+        if (timeTrouble !== undefined) result.evaluatedPosition.timeTrouble = timeTrouble;
+        finished[index] = result;
+        if (!signal?.aborted) flush();
+        return result;
+      }),
+    );
+
+    for (const { evaluatedPosition, accuracy, isWhiteTurn } of results) {
+      evaluatedPositions.push(evaluatedPosition);
+      if (accuracy === null) continue;
+      if (isWhiteTurn) whiteAccuracies.push(accuracy);
+      else blackAccuracies.push(accuracy);
+    }
+
+    // 9. Generar Reporte Final
+    const whiteGameAccuracy = this.chessService.calculateGameAccuracy(whiteAccuracies);
+    const blackGameAccuracy = this.chessService.calculateGameAccuracy(blackAccuracies);
+
+    const search = this.buildSearchReport(plan, evaluatedPositions);
 
-    for (const [index, position] of positions.entries()) {
-      tempChess.load(previousFen);
-      const isWhiteTurn = tempChess.turn() === 'w';
+    // Los puzzles se extraen en segundo plano: no retrasan el informe
+    const puzzleDepth = plan.depth ?? (search.averageDepth === null ? DEFAULT_PUZZLE_DEPTH : Math.round(search.averageDepth));
+    void this.puzzlesService.collectFromGame(evaluatedPositions, metadata, puzzleDepth);
 
-      // 1. Detección de Libro (Solo para primeros movimientos en base de datos)
-      const openingName = this.openingsService.getOpeningName(previousFen);
-      if (openingName && index < 20) {
-        evaluatedPositions.push({
+    const moveAccuracies = results.map(({ accuracy }) => accuracy);
+    return this.chessService.formatAnalysisReport(
+      evaluatedPositions,
+      whiteGameAccuracy,
+      blackGameAccuracy,
+      moveAccuracies,
+      this.openingsService.identify(positions.map(({ fen }) => fen)),
+      metadata,
+      this.timeManagementService.buildTimeReport(evaluatedPositions),
+      this.performanceRatingService.buildPerformanceReport(evaluatedPositions, moveAccuracies),
+      this.gameSummaryService.buildSummary(evaluatedPositions),
+      search,
+      this.engineService.engineInfo
+    );
+  }
+
+  /**
+   * Valida depth/profile antes de encolar un análisis (400 si no son válidos)
+   */
+  resolvePlan(depth: number, profile?: string | null): AnalysisPlan {
+    return this.analysisBudgetService.resolve(depth, profile);
+  }
+
+  /**
+   * Totales de lo que el motor gastó en la partida
+   */
+  private buildSearchReport(plan: AnalysisPlan, positions: EvaluatedPosition[]): SearchReport {
+    const searches = positions.map(({ search }) => search).filter(Boolean);
+    const depths = searches.map(({ depth }) => depth).filter((depth) => depth !== null);
+    return {
+      profile: plan.profile,
+      budget: plan.budget,
+      depth: plan.depth,
+      nodes: searches.reduce((total, { nodes }) => total + nodes, 0),
+      time: searches.reduce((total, { time }) => total + time, 0),
+      averageDepth: depths.length > 0
+        ? Math.round((depths.reduce((a, b) => a + b, 0) / depths.length) * 10) / 10
+        : null,
+    };
+  }
+
+  /**
+   * Analiza una sola jugada a partir de la posición previa.
+   * accuracy es null cuando la jugada no cuenta para la precisión (sin evaluación).
+   * La posición tras la jugada solo se busca aparte si la jugada no está entre
+   * las líneas MultiPV y no hay búsqueda de la siguiente jugada con el mismo
+   * límite (searches.after).
+   */
+  private async analyzePly(
+    index: number,
+    position: Position,
+    previousFen: string,
+    previousMove: Position['move'] | undefined,
+    limit: SearchLimit,
+    searches: { before: () => Promise<EngineLine[]>; after: (() => Promise<EngineLine[]>) | null },
+    signal?: AbortSignal,
+  ): Promise<PlyResult> {
+    this.throwIfCancelled(signal);
+    const tempChess = new Chess(previousFen);
+    const isWhiteTurn = tempChess.turn() === 'w';
+
+    // 1. Detección de Libro (la posición resultante está en la base de aperturas)
+    if (this.classificationService.isBookMove(position.fen, index)) {
+      return {
+        evaluatedPosition: {
           ...position,
           evaluation: { type: 'cp', value: 0 },
           classification: 'book',
-          suggestedMove: { san: '', uci: '' }
-        });
-        if (isWhiteTurn) whiteAccuracies.push(100);
-        else blackAccuracies.push(100);
-        previousFen = position.fen;
-        continue;
-      }
+          suggestedMove: { san: '', uci: '' },
+          expectedScore: 0.5,
+          search: { limit: null, depth: null, nodes: 0, time: 0 },
+        },
+        accuracy: 100,
+        isWhiteTurn,
+      };
+    }
 
-      // 2. Evaluar la posición ANTERIOR para saber cuál era el mejor movimiento
-      const engineResult = await this.engineService.evaluatePosition(previousFen, depth);
+    // 2. Evaluar la posición ANTERIOR para saber cuál era el mejor movimiento
+    const engineResult = await searches.before();
+    this.throwIfCancelled(signal);
 
-      if (!engineResult || engineResult.length === 0) {
-        evaluatedPositions.push({
+    if (!engineResult || engineResult.length === 0) {
+      return {
+        evaluatedPosition: {
           ...position,
           evaluation: { type: 'cp', value: 0 },
           classification: 'forced',
-          suggestedMove: { san: '', uci: '' }
-        });
-        previousFen = position.fen;
-        continue;
-      }
-
-      const bestLine = engineResult[0];
-      const bestMoveUci = bestLine.moveUCI;
-      const userMoveUci = position.move.uci;
-
-      // Convert best move UCI to SAN for display (with error handling)
-      const bestMoveSan = this.uciToSan(previousFen, bestMoveUci);
-
-      // Normalizar UCIs para comparación (eliminar promociones vacías, lowercase)
-      const normalizeUci = (uci: string) => uci.toLowerCase().replace(/undefined|null/g, '');
-      const isBestMove = normalizeUci(userMoveUci) === normalizeUci(bestMoveUci);
-
-      // ============================================================
-      // EVALUATION PERSPECTIVE - CRITICAL UNDERSTANDING
-      // ============================================================
-      // Stockfish ALWAYS returns evaluation from the perspective of the
-      // side TO MOVE in the given FEN position.
-      // 
-      // When we evaluate previousFen (before the move):
-      // - If it's White's turn, eval is from White's perspective
-      // - If it's Black's turn, eval is from Black's perspective
-      // 
-      // We want all evaluations in WHITE's perspective for consistency.
-      // ============================================================
-
-      // Best eval is from previousFen, which has the current player to move
-      // Convert to WHITE's perspective
-      const bestEvalFromEngine = this.evalToCP(bestLine.evaluation);
-      const bestEvalWhitePerspective = isWhiteTurn ? bestEvalFromEngine : -bestEvalFromEngine;
-
-      // 3. Si NO es la mejor jugada, evaluar la posición resultante
-      let userEvalWhitePerspective = bestEvalWhitePerspective;
-
-      if (!isBestMove) {
-        // Evaluar la posición después del movimiento del usuario (position.fen)
-        // In position.fen, it's the OPPONENT's turn to move
-        const userPosEval = await this.engineService.evaluatePosition(position.fen, Math.min(depth, 12));
-
-        if (userPosEval && userPosEval.length > 0) {
-          // The eval is from the OPPONENT's perspective (next player to move)
-          // So we need to negate it to get WHITE's perspective
-          const evalFromOpponentPerspective = this.evalToCP(userPosEval[0].evaluation);
-          // After White moves, it's Black's turn - so eval is from Black's perspective -> negate for White
-          // After Black moves, it's White's turn - so eval is from White's perspective -> keep as is
-          userEvalWhitePerspective = isWhiteTurn ? -evalFromOpponentPerspective : evalFromOpponentPerspective;
-        } else {
-          // Si no hay evaluación (mate, etc), asumimos pérdida grande
-          userEvalWhitePerspective = isWhiteTurn ? -3000 : 3000;
-        }
-      }
+          suggestedMove: { san: '', uci: '' },
+          search: { limit, depth: null, nodes: 0, time: 0 },
+        },
+        accuracy: null,
+        isWhiteTurn,
+      };
+    }
 
-      // 4. Calcular pérdida en centipawns
-      // Both evaluations are now in WHITE's perspective
-      // For White: higher = better, so loss = best - user (if positive, it's a loss)
-      // For Black: lower = better, so loss = user - best (if positive, it's a loss for Black)
-      let cpLoss: number;
-      if (isWhiteTurn) {
-        cpLoss = bestEvalWhitePerspective - userEvalWhitePerspective;
+    const bestLine = engineResult[0];
+    const bestMoveUci = bestLine.moveUCI;
+    const userMoveUci = position.move.uci;
+
+    // Convert best move UCI to SAN for display (with error handling)
+    const bestMoveSan = this.uciToSan(previousFen, bestMoveUci);
+
+    // Normalizar UCIs para comparación (eliminar promociones vacías, lowercase)
+    const normalizeUci = (uci: string) => uci.toLowerCase().replace(/undefined|null/g, '');
+    const isBestMove = normalizeUci(userMoveUci) === normalizeUci(bestMoveUci);
+
+    // ============================================================
+    // EVALUATION PERSPECTIVE - CRITICAL UNDERSTANDING
+    // ============================================================
+    // Stockfish ALWAYS returns evaluation from the perspective of the
+    // side TO MOVE in the given FEN position.
+    // 
+    // When we evaluate previousFen (before the move):
+    // - If it's White's turn, eval is from White's perspective
+    // - If it's Black's turn, eval is from Black's perspective
+    // 
+    // We want all evaluations in WHITE's perspective for consistency.
+    // ============================================================
+
+    // Best eval is from previousFen, which has the current player to move
+    // Convert to WHITE's perspective
+    const bestEvalFromEngine = this.evalToCP(bestLine.evaluation);
+    const bestEvalWhitePerspective = isWhiteTurn ? bestEvalFromEngine : -bestEvalFromEngine;
+
+    // 3. Si NO es la mejor jugada, evaluar la posición resultante
+    let userEvalWhitePerspective = bestEvalWhitePerspective;
+    // La jugada entre las líneas MultiPV: su puntuación sale de la misma búsqueda
+    let playedLine: EngineLine | undefined = isBestMove
+      ? bestLine
+      : engineResult.find((line) => normalizeUci(line.moveUCI) === normalizeUci(userMoveUci));
+    let playedSearch: EngineLine | undefined;
+
+    // Puntuaciones esperadas desde el bando que mueve (ver EvaluationUtils.getExpectedScore)
+    const bestExpectedScore = EvaluationUtils.getExpectedScore(bestLine.evaluation, bestLine.wdl);
+    let playedExpectedScore = bestExpectedScore;
+
+    if (playedLine && !isBestMove) {
+      userEvalWhitePerspective = isWhiteTurn ? this.evalToCP(playedLine.evaluation) : -this.evalToCP(playedLine.evaluation);
+      playedExpectedScore = EvaluationUtils.getExpectedScore(playedLine.evaluation, playedLine.wdl);
+    } else if (!playedLine) {
+      // Evaluar la posición después del movimiento del usuario (position.fen)
+      // In position.fen, it's the OPPONENT's turn to move
+      const userPosEval = searches.after
+        ? await searches.after()
+        : await this.engineService.searchPosition(position.fen, limit, { signal });
+      this.throwIfCancelled(signal);
+      if (!searches.after) playedSearch = userPosEval?.[0];
+
+      if (userPosEval && userPosEval.length > 0) {
+        // The eval is from the OPPONENT's perspective (next player to move)
+        // So we need to negate it to get WHITE's perspective
+        const evalFromOpponentPerspective = this.evalToCP(userPosEval[0].evaluation);
+        // After White moves, it's Black's turn - so eval is from Black's perspective -> negate for White
+        // After Black moves, it's White's turn - so eval is from White's perspective -> keep as is
+        userEvalWhitePerspective = isWhiteTurn ? -evalFromOpponentPerspective : evalFromOpponentPerspective;
+        playedLine = this.buildPlayedLine(position, userPosEval[0]);
+        playedExpectedScore = EvaluationUtils.getExpectedScore(playedLine.evaluation, playedLine.wdl);
       } else {
-        // For Black: they want LOWER values (more negative from White's perspective)
-        // So a loss is when user's eval is HIGHER (less negative) than best eval
-        cpLoss = userEvalWhitePerspective - bestEvalWhitePerspective;
+        // Si no hay evaluación (mate, etc), asumimos pérdida grande
+        userEvalWhitePerspective = isWhiteTurn ? -3000 : 3000;
+        playedExpectedScore = 0;
       }
+    }
 
-      // Loss should never be negative (user can't play better than engine's best)
-      cpLoss = Math.max(0, cpLoss);
-
-      // Debug
-      console.log(`[Move ${index + 1}] ${position.move.san} | isWhite: ${isWhiteTurn} | Best: ${bestMoveUci} | User: ${userMoveUci} | isBest: ${isBestMove} | BestEval(W): ${bestEvalWhitePerspective}cp | UserEval(W): ${userEvalWhitePerspective}cp | Loss: ${cpLoss}cp`);
-
-      // 5. Calcular precisión del movimiento
-      const probabilityLoss = EvaluationUtils.getProbabilityLoss(bestEvalWhitePerspective, userEvalWhitePerspective, isWhiteTurn);
-      const moveAccuracy = EvaluationUtils.getMoveAccuracy(probabilityLoss);
-
-      if (isWhiteTurn) whiteAccuracies.push(moveAccuracy);
-      else blackAccuracies.push(moveAccuracy);
-
-      // 6. Clasificar el movimiento
-      let classification = this.chessService.classifyMove(cpLoss, isBestMove);
-
-      // 7. Lógica de "Brillante" (Best + Sacrificio + No estaba ganado)
-      if (classification === 'best') {
-        const isMaterialDown = this.hasMaterialSacrifice(previousFen, position.fen, isWhiteTurn);
-        if (isMaterialDown && Math.abs(bestEvalWhitePerspective) < 500) {
-          classification = 'brilliant';
-        }
-      }
+    // 4. Calcular pérdida en centipawns
+    // Both evaluations are now in WHITE's perspective
+    // For White: higher = better, so loss = best - user (if positive, it's a loss)
+    // For Black: lower = better, so loss = user - best (if positive, it's a loss for Black)
+    let cpLoss: number;
+    if (isWhiteTurn) {
+      cpLoss = bestEvalWhitePerspective - userEvalWhitePerspective;
+    } else {
+      // For Black: they want LOWER values (more negative from White's perspective)
+      // So a loss is when user's eval is HIGHER (less negative) than best eval
+      cpLoss = userEvalWhitePerspective - bestEvalWhitePerspective;
+    }
 
-      // 8. Guardar resultado
-      evaluatedPositions.push({
+    // Loss should never be negative (user can't play better than engine's best)
+    cpLoss = Math.max(0, cpLoss);
+
+    // Debug
+    console.log(`[Move ${index + 1}] ${position.move.san} | isWhite: ${isWhiteTurn} | Best: ${bestMoveUci} | User: ${userMoveUci} | isBest: ${isBestMove} | BestEval(W): ${bestEvalWhitePerspective}cp | UserEval(W): ${userEvalWhitePerspective}cp | Loss: ${cpLoss}cp`);
+
+    // 5. Calcular precisión del movimiento a partir de la puntuación esperada (W + D/2)
+    const probabilityLoss = EvaluationUtils.getExpectedScoreLoss(bestExpectedScore, playedExpectedScore);
+    const moveAccuracy = EvaluationUtils.getMoveAccuracy(probabilityLoss);
+    const expectedScore = isWhiteTurn ? playedExpectedScore : 1 - playedExpectedScore;
+
+    // 6. ¿Sacrificio real? SEE tras la jugada, confirmado con la línea del motor
+    const sacrifice = ExchangeUtils.analyzeSacrifice(previousFen, playedLine?.pv ?? [userMoveUci]);
+
+    // 7. Clasificar el movimiento ('miss' se decide después, con la jugada anterior)
+    const classification = this.classificationService.classifyMove({
+      previousFen,
+      playedUci: userMoveUci,
+      cpLoss,
+      isBestMove,
+      lines: engineResult,
+      bestEvalCp: bestEvalFromEngine,
+      previousMoveUci: previousMove?.uci,
+      // En SAN toda captura lleva 'x'
+      previousMoveCaptured: previousMove?.san.includes('x'),
+      sacrifice,
+    });
+
+    // 8. Guardar resultado
+    return {
+      evaluatedPosition: {
         ...position,
         evaluation: bestLine.evaluation,
         classification: classification,
-        suggestedMove: { san: bestMoveSan, uci: bestMoveUci }
-      });
-
-      previousFen = position.fen;
-    }
-
-    // 9. Generar Reporte Final
-    const whiteGameAccuracy = this.chessService.calculateGameAccuracy(whiteAccuracies);
-    const blackGameAccuracy = this.chessService.calculateGameAccuracy(blackAccuracies);
-
-    return this.chessService.formatAnalysisReport(
-      evaluatedPositions,
-      whiteGameAccuracy,
-      blackGameAccuracy
-    );
+        suggestedMove: { san: bestMoveSan, uci: bestMoveUci },
+        bestLine,
+        playedLine,
+        expectedScore,
+        sacrifice,
+        cpLoss,
+        search: {
+          limit,
+          depth: bestLine.depth,
+          nodes: (bestLine.nodes ?? 0) + (playedSearch?.nodes ?? 0),
+          time: (bestLine.time ?? 0) + (playedSearch?.time ?? 0),
+        },
+      },
+      accuracy: moveAccuracy,
+      isWhiteTurn,
+      expectedScores: { best: bestExpectedScore, played: playedExpectedScore },
+    };
   }
 
   /**
-   * Converts evaluation object to centipawns (from side-to-move perspective)
+   * Marca como 'miss' la jugada que no castigó el error del rival.
    */
-  private evalToCP(evalObj: { type: 'cp' | 'mate'; value: number }): number {
-    if (evalObj.type === 'mate') {
-      const sign = Math.sign(evalObj.value);
-      // Mate in 1 (10000) > Mate in 5 (9900)
-      return sign * (10000 - Math.abs(evalObj.value) * 20);
-    }
-    return evalObj.value;
+  private applyMiss(result: PlyResult, previous: PlyResult): void {
+    if (!result.expectedScores) return;
+    const position = result.evaluatedPosition;
+    position.classification = this.classificationService.applyMiss(position.classification, {
+      previousClassification: previous.evaluatedPosition.classification,
+      bestExpectedScore: result.expectedScores.best,
+      playedExpectedScore: result.expectedScores.played,
+    });
   }
 
   /**
-   * Detecta si hubo sacrificio de material
+   * Construye la línea de la jugada real: la jugada del usuario seguida de la
+   * mejor respuesta del rival, con la evaluación desde el bando que movió.
+   * Como en las líneas MultiPV, un mate a favor cuenta la propia jugada:
+   * "mate -N" (o 0, ya mateado) para el rival es "mate N+1" para quien movió.
    */
-  private hasMaterialSacrifice(prevFen: string, currFen: string, isWhiteTurn: boolean): boolean {
-    const prevMat = this.getMaterialCount(prevFen);
-    const currMat = this.getMaterialCount(currFen);
+  private buildPlayedLine(position: Position, reply: EngineLine): EngineLine {
+    const { type, value } = reply.evaluation;
+    return {
+      ...reply,
+      id: 0, // No es una línea MultiPV de la búsqueda previa
+      evaluation: { type, value: type === 'mate' && value <= 0 ? 1 - value : -value },
+      wdl: reply.wdl && { win: reply.wdl.loss, draw: reply.wdl.draw, loss: reply.wdl.win },
+      moveUCI: position.move.uci,
+      moveSAN: position.move.san,
+      pv: [position.move.uci, ...reply.pv],
+      pvSAN: [position.move.san, ...reply.pvSAN],
+    };
+  }
 
-    if (isWhiteTurn) {
-      return currMat.white < prevMat.white;
-    } else {
-      return currMat.black < prevMat.black;
+  private throwIfCancelled(signal?: AbortSignal): void {
+    if (signal?.aborted) {
+      throw new AnalysisCancelledError();
     }
   }
 
   /**
-   * Cuenta material por color
+   * Converts evaluation object to centipawns (from side-to-move perspective)
    */
-  private getMaterialCount(fen: string) {
-    const pieces = fen.split(' ')[0];
-    let white = 0, black = 0;
-    const values: Record<string, number> = { p: 1, n: 3, b: 3, r: 5, q: 9, k: 0 };
-
-    for (const char of pieces) {
-      const lower = char.toLowerCase();
-      if (values[lower] !== undefined) {
-        const val = values[lower];
-        if (char === char.toUpperCase()) white += val;
-        else black += val;
-      }
+  private evalToCP(evalObj: { type: 'cp' | 'mate'; value: number }): number {
+    if (evalObj.type === 'mate') {
+      const sign = Math.sign(evalObj.value);
+      // Mate in 1 (10000) > Mate in 5 (9900)
+      return sign * (10000 - Math.abs(evalObj.value) * 20);
     }
-    return { white, black };
+    return evalObj.value;
   }
 
   validatePgn(pgn: string): boolean {
     try {
-      const tempChess = new Chess();
-      tempChess.loadPgn(pgn);
-      if (tempChess.history().length === 0) throw new Error();
+      if (this.chessService.parsePgn(pgn).positions.length === 0) throw new Error();
       return true;
     } catch {
       throw new BadRequestException('PGN inválido o sin movimientos.');
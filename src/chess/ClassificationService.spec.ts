@@ -0,0 +1,190 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import {
+  ClassificationService,
+  MoveClassificationInput,
+} from './ClassificationService';
+import { OpeningsService } from './openings.service';
+import { EngineLine } from '../interfaces/engine.interfaces';
+
+const line = (id: number, moveUCI: string, cp: number): EngineLine => ({
+  id,
+  depth: 18,
+  evaluation: { type: 'cp', value: cp },
+  moveUCI,
+  pv: [moveUCI],
+  pvSAN: [],
+});
+
+// 3.Bb5 en la Ruy López
+const RUY_LOPEZ_FEN =
+  'r1bqkbnr/pppp1ppp/2n5/1B2p3/4P3/5N2/PPPP1PPP/RNBQK2R b KQkq - 3 3';
+const RUY_LOPEZ: MoveClassificationInput = {
+  previousFen:
+    'r1bqkbnr/pppp1ppp/2n5/4p3/4P3/5N2/PPPP1PPP/RNBQKB1R w KQkq - 2 3',
+  playedUci: 'f1b5',
+  cpLoss: 0,
+  isBestMove: true,
+  lines: [line(1, 'f1b5', 40), line(2, 'f1c4', 30)],
+  bestEvalCp: 40,
+  previousMoveUci: 'b8c6',
+};
+
+// 2...Qxd5 en la Escandinava
+const RECAPTURE: MoveClassificationInput = {
+  previousFen: 'rnbqkbnr/ppp1pppp/8/3P4/8/8/PPPP1PPP/RNBQKBNR b KQkq - 0 2',
+  playedUci: 'd8d5',
+  cpLoss: 0,
+  isBestMove: true,
+  lines: [line(1, 'd8d5', -20), line(2, 'g8f6', -400)],
+  bestEvalCp: -20,
+  previousMoveUci: 'e4d5',
+  previousMoveCaptured: true,
+};
+
+describe('ClassificationService', () => {
+  let service: ClassificationService;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [ClassificationService, OpeningsService],
+    }).compile();
+    await module.init(); // carga el libro de aperturas
+
+    service = module.get<ClassificationService>(ClassificationService);
+  });
+
+  it('classifies by centipawn loss', () => {
+    expect(service.classifyByCpLoss(0, true)).toBe('best');
+    expect(service.classifyByCpLoss(8, false)).toBe('excellent');
+    expect(service.classifyByCpLoss(25, false)).toBe('good');
+    expect(service.classifyByCpLoss(90, false)).toBe('inaccuracy');
+    expect(service.classifyByCpLoss(300, false)).toBe('mistake');
+    expect(service.classifyByCpLoss(351, false)).toBe('blunder');
+  });
+
+  it('recognises book moves only in the opening', () => {
+    expect(service.isBookMove(RUY_LOPEZ_FEN, 4)).toBe(true);
+    expect(service.isBookMove(RUY_LOPEZ_FEN, 20)).toBe(false);
+  });
+
+  describe('great', () => {
+    it('is the only move that keeps the evaluation', () => {
+      const input = {
+        ...RUY_LOPEZ,
+        lines: [line(1, 'f1b5', 40), line(2, 'f1c4', -300)],
+      };
+      expect(service.classifyMove(input)).toBe('great');
+    });
+
+    it('is just best when the second line is about as good', () => {
+      expect(service.classifyMove(RUY_LOPEZ)).toBe('best');
+    });
+
+    it('is just best when the position is lost anyway', () => {
+      const input = {
+        ...RUY_LOPEZ,
+        lines: [line(1, 'f1b5', -250), line(2, 'f1c4', -900)],
+        bestEvalCp: -250,
+      };
+      expect(service.classifyMove(input)).toBe('best');
+    });
+
+    it('ignores obvious recaptures', () => {
+      expect(service.classifyMove(RECAPTURE)).toBe('best');
+      expect(
+        service.classifyMove({ ...RECAPTURE, previousMoveUci: undefined }),
+      ).toBe('great');
+    });
+
+    it('counts taking a piece that got there without capturing', () => {
+      // Misma casilla, pero el rival no capturó al llegar: no es recaptura
+      expect(
+        service.classifyMove({ ...RECAPTURE, previousMoveCaptured: false }),
+      ).toBe('great');
+    });
+
+    it('needs at least two engine lines', () => {
+      const input = { ...RUY_LOPEZ, lines: [line(1, 'f1b5', 40)] };
+      expect(service.classifyMove(input)).toBe('best');
+    });
+  });
+
+  describe('brilliant', () => {
+    const accepted = {
+      isSacrifice: true,
+      material: 2,
+      square: 'b5',
+      reason: 'accepted' as const,
+    };
+
+    it('is a best move that really sacrifices material', () => {
+      expect(service.classifyMove({ ...RUY_LOPEZ, sacrifice: accepted })).toBe(
+        'brilliant',
+      );
+    });
+
+    it('ignores material the engine line wins back', () => {
+      expect(
+        service.classifyMove({
+          ...RUY_LOPEZ,
+          sacrifice: { ...accepted, isSacrifice: false, reason: 'won-back' },
+        }),
+      ).toBe('best');
+    });
+
+    it('ignores sacrifices in already decided positions', () => {
+      expect(
+        service.classifyMove({
+          ...RUY_LOPEZ,
+          bestEvalCp: 800,
+          sacrifice: accepted,
+        }),
+      ).toBe('best');
+    });
+  });
+
+  describe('miss', () => {
+    const afterBlunder = {
+      previousClassification: 'blunder' as const,
+      bestExpectedScore: 0.95,
+      playedExpectedScore: 0.55,
+    };
+
+    it('replaces the error when a winning reply was left on the board', () => {
+      expect(service.applyMiss('mistake', afterBlunder)).toBe('miss');
+      expect(service.applyMiss('inaccuracy', afterBlunder)).toBe('miss');
+    });
+
+    it('requires the opponent to have just erred', () => {
+      expect(
+        service.applyMiss('mistake', {
+          ...afterBlunder,
+          previousClassification: 'good',
+        }),
+      ).toBe('mistake');
+    });
+
+    it('keeps the original class when the winning chance was small', () => {
+      expect(
+        service.applyMiss('mistake', {
+          ...afterBlunder,
+          bestExpectedScore: 0.7,
+          playedExpectedScore: 0.4,
+        }),
+      ).toBe('mistake');
+    });
+
+    it('keeps blunders that leave the player lost', () => {
+      expect(
+        service.applyMiss('blunder', {
+          ...afterBlunder,
+          playedExpectedScore: 0.1,
+        }),
+      ).toBe('blunder');
+    });
+
+    it('never changes good moves', () => {
+      expect(service.applyMiss('excellent', afterBlunder)).toBe('excellent');
+    });
+  });
+});
@@ -0,0 +1,176 @@
+import { Injectable } from '@nestjs/common';
+import {
+  Classification,
+  SacrificeCheck,
+} from '../interfaces/analysis.interfaces';
+import { EngineLine } from '../interfaces/engine.interfaces';
+import { EvaluationUtils } from './evaluation.util';
+import { OpeningsService } from './openings.service';
+
+// Jugadas de libro solo dentro de las primeras 20 medias jugadas
+const BOOK_MAX_PLY = 20;
+// Brillante: solo si la posición no estaba ya decidida (cp desde el bando que mueve)
+const BRILLIANT_MAX_EVAL_CP = 500;
+// Great: la segunda mejor línea pierde al menos esta puntuación esperada...
+const GREAT_MIN_GAP = 0.25;
+// ...y la jugada mantiene la partida (no es la "única" en una posición perdida)
+const GREAT_MIN_SCORE = 0.4;
+// Miss: el error rival dejaba al menos esta puntuación esperada...
+const MISS_WINNING_SCORE = 0.8;
+// ...el jugador perdió al menos esto de ella...
+const MISS_MIN_LOSS = 0.2;
+// ...pero no tanto como para quedar perdido (entonces sigue siendo error propio)
+const MISS_MIN_PLAYED_SCORE = 0.3;
+
+export interface MoveClassificationInput {
+  previousFen: string; // Posición antes de la jugada.
+  playedUci: string;
+  cpLoss: number; // Pérdida en centipawns (>= 0).
+  isBestMove: boolean;
+  lines: EngineLine[]; // Líneas MultiPV de la búsqueda sobre previousFen.
+  bestEvalCp: number; // Mejor evaluación, desde el bando que mueve.
+  previousMoveUci?: string; // Última jugada del rival.
+  previousMoveCaptured?: boolean; // Esa jugada capturó una pieza.
+  sacrifice?: SacrificeCheck; // Ver ExchangeUtils.analyzeSacrifice.
+}
+
+export interface MissCheckInput {
+  previousClassification: Classification; // Jugada anterior (del rival).
+  bestExpectedScore: number; // Desde el bando que mueve.
+  playedExpectedScore: number; // Desde el bando que mueve.
+}
+
+@Injectable()
+export class ClassificationService {
+  constructor(private readonly openingsService: OpeningsService) {}
+
+  /**
+   * Una jugada es de libro si la posición resultante está en la base de aperturas.
+   */
+  isBookMove(fen: string, plyIndex: number): boolean {
+    return (
+      plyIndex < BOOK_MAX_PLY &&
+      this.openingsService.getOpeningName(fen) !== null
+    );
+  }
+
+  /**
+   * Clasificación de una jugada a partir de la búsqueda previa.
+   * No considera 'miss', que depende de la jugada anterior (ver applyMiss).
+   */
+  classifyMove(input: MoveClassificationInput): Classification {
+    const classification = this.classifyByCpLoss(
+      input.cpLoss,
+      input.isBestMove,
+    );
+    if (classification !== 'best') {
+      return classification;
+    }
+
+    // Brillante: Best + Sacrificio + No estaba ganado
+    if (
+      input.sacrifice?.isSacrifice &&
+      Math.abs(input.bestEvalCp) < BRILLIANT_MAX_EVAL_CP
+    ) {
+      return 'brilliant';
+    }
+
+    if (this.isGreatMove(input)) {
+      return 'great';
+    }
+
+    return classification;
+  }
+
+  /**
+   * Clasifica el movimiento basado en la pérdida de Centipawns.
+   *
+   * @param cpLoss - Pérdida en centipawns (siempre >= 0, calculado afuera)
+   * @param isBestMove - Si el movimiento jugado coincide con el mejor del motor
+   */
+  classifyByCpLoss(cpLoss: number, isBestMove: boolean): Classification {
+    // Si el jugador jugó exactamente la mejor jugada
+    if (isBestMove) return 'best';
+
+    // Clasificación basada en pérdida de centipawns (CP)
+    // Estos umbrales son más claros y fáciles de debuggear
+    if (cpLoss <= 10) return 'excellent'; // Casi perfecto
+    if (cpLoss <= 25) return 'good'; // Pequeña pérdida
+    if (cpLoss <= 100) return 'inaccuracy'; // Imprecisión clara
+    if (cpLoss <= 350) return 'mistake'; // Error significativo
+    return 'blunder'; // Error crítico (>350cp)
+  }
+
+  /**
+   * Great: la mejor jugada es la única que mantiene la evaluación; la segunda
+   * línea MultiPV es mucho peor. Las recapturas obvias no cuentan.
+   */
+  isGreatMove(input: MoveClassificationInput): boolean {
+    const [best, second] = input.lines;
+    if (!input.isBestMove || !best || !second) return false;
+
+    const bestScore = EvaluationUtils.getExpectedScore(
+      best.evaluation,
+      best.wdl,
+    );
+    const secondScore = EvaluationUtils.getExpectedScore(
+      second.evaluation,
+      second.wdl,
+    );
+    if (
+      bestScore < GREAT_MIN_SCORE ||
+      bestScore - secondScore < GREAT_MIN_GAP
+    ) {
+      return false;
+    }
+
+    return !this.isRecapture(
+      input.playedUci,
+      input.previousMoveUci,
+      input.previousMoveCaptured,
+    );
+  }
+
+  /**
+   * Miss: el rival acaba de cometer un error que dejaba una táctica ganadora
+   * y el jugador no la aprovechó (sin llegar a quedar perdido).
+   */
+  isMiss(input: MissCheckInput): boolean {
+    const { previousClassification, bestExpectedScore, playedExpectedScore } =
+      input;
+    return (
+      (previousClassification === 'mistake' ||
+        previousClassification === 'blunder') &&
+      bestExpectedScore >= MISS_WINNING_SCORE &&
+      bestExpectedScore - playedExpectedScore >= MISS_MIN_LOSS &&
+      playedExpectedScore >= MISS_MIN_PLAYED_SCORE
+    );
+  }
+
+  /**
+   * Sustituye inaccuracy/mistake/blunder por 'miss' cuando corresponde.
+   */
+  applyMiss(
+    classification: Classification,
+    input: MissCheckInput,
+  ): Classification {
+    const isError =
+      classification === 'inaccuracy' ||
+      classification === 'mistake' ||
+      classification === 'blunder';
+    return isError && this.isMiss(input) ? 'miss' : classification;
+  }
+
+  /**
+   * El rival acaba de capturar y la jugada captura esa pieza en la misma casilla
+   */
+  private isRecapture(
+    playedUci: string,
+    previousMoveUci?: string,
+    previousMoveCaptured?: boolean,
+  ): boolean {
+    if (!previousMoveCaptured || !previousMoveUci) return false;
+    // La pieza rival acaba de llegar a esa casilla: jugar allí es capturarla
+    return previousMoveUci.substring(2, 4) === playedUci.substring(2, 4);
+  }
+}
@@ -0,0 +1,106 @@
+import { BadRequestException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  AnalysisBudgetService,
+  DEFAULT_ANALYSIS_PROFILES,
+} from './analysis-budget.service';
+
+const START_FEN = 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1';
+// Negras en jaque con una sola jugada legal: Kh7
+const FORCED_FEN = 'R6k/5K2/8/8/8/8/8/8 b - - 0 1';
+const CHECK_FEN = '7k/8/8/8/8/8/8/K6R b - - 0 1';
+// Medio juego con capturas disponibles
+const TACTICAL_FEN =
+  'r1bqkb1r/pppp1ppp/2n2n2/4p2Q/2B1P3/8/PPPP1PPP/RNB1K1NR w KQkq - 4 4';
+
+describe('AnalysisBudgetService', () => {
+  const service = new AnalysisBudgetService(new ConfigService({}));
+
+  it('resolves a fixed depth or a known profile, never both', () => {
+    expect(service.resolve(16)).toEqual({
+      depth: 16,
+      profile: null,
+      budget: null,
+    });
+    expect(service.resolve(undefined, 'deep')).toEqual({
+      depth: null,
+      profile: 'deep',
+      budget: DEFAULT_ANALYSIS_PROFILES.deep,
+    });
+    expect(() => service.resolve(16, 'deep')).toThrow(BadRequestException);
+    expect(() => service.resolve(undefined, 'blitz')).toThrow(
+      BadRequestException,
+    );
+    expect(() => service.resolve(undefined, 'constructor')).toThrow(
+      BadRequestException,
+    );
+  });
+
+  it('rejects a missing, non-integer or out-of-range depth without a profile', () => {
+    for (const depth of [undefined, null, 0, 12.5, 41, 10000, 'abc']) {
+      expect(() => service.resolve(depth as number)).toThrow(
+        BadRequestException,
+      );
+    }
+    expect(service.resolve(40).depth).toBe(40);
+  });
+
+  it('searches every ply at the same fixed depth', () => {
+    expect(
+      service.allocate(service.resolve(20), [
+        { fen: START_FEN, book: true },
+        { fen: START_FEN, book: false },
+      ]),
+    ).toEqual([{ depth: 20 }, { depth: 20 }]);
+  });
+
+  it('spends the budget on complex plies, almost none on forced ones', () => {
+    const budgets = service.allocate(
+      { depth: null, profile: 'test', budget: { nodes: 1_000_000 } },
+      [
+        { fen: START_FEN, book: true },
+        { fen: START_FEN, book: false },
+        { fen: TACTICAL_FEN, previousSan: 'Qh5', book: false },
+        { fen: CHECK_FEN, previousSan: 'Rh1+', book: false },
+        { fen: FORCED_FEN, previousSan: 'Ra8+', book: false },
+      ],
+    );
+    const nodes = budgets.map((limit) => ('nodes' in limit ? limit.nodes : 0));
+
+    // Libro: solo el mínimo, que nunca se busca
+    expect(budgets[0]).toEqual({ nodes: 2000 });
+    expect(nodes[2]).toBeGreaterThan(nodes[1]);
+    expect(nodes[3]).toBeGreaterThan(nodes[1]);
+    expect(nodes[4]).toBeLessThan(nodes[1] / 10);
+    const total = nodes.slice(1).reduce((a, b) => a + b, 0);
+    expect(total).toBeGreaterThan(990_000);
+    expect(total).toBeLessThan(1_010_000);
+  });
+
+  it('adds or replaces profiles from ANALYSIS_PROFILES', () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation();
+    const configured = new AnalysisBudgetService(
+      new ConfigService({
+        ANALYSIS_PROFILES: JSON.stringify({
+          quick: { movetime: 20000 },
+          blitz: { nodes: 2_000_000 },
+          broken: { nodes: -1 },
+        }),
+      }),
+    );
+
+    expect(configured.profiles).toEqual({
+      ...DEFAULT_ANALYSIS_PROFILES,
+      quick: { movetime: 20000 },
+      blitz: { nodes: 2_000_000 },
+    });
+    expect(warn).toHaveBeenCalledTimes(1);
+
+    const [budget] = configured.allocate(
+      configured.resolve(undefined, 'quick'),
+      [{ fen: START_FEN, book: false }],
+    );
+    expect(budget).toEqual({ movetime: 20000 });
+    warn.mockRestore();
+  });
+});
@@ -0,0 +1,157 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Chess } from 'chess.js';
+import { SearchBudget } from '../interfaces/analysis.interfaces';
+import { SearchLimit } from '../interfaces/engine.interfaces';
+
+// A ~1 M nodos/s, en una partida de 40 jugadas: quick llega a profundidad
+// 12-14, standard a ~18 y deep a ~22 en las posiciones normales
+export const DEFAULT_ANALYSIS_PROFILES: Record<string, SearchBudget> = {
+  quick: { nodes: 8_000_000 },
+  standard: { nodes: 40_000_000 },
+  deep: { nodes: 200_000_000 },
+};
+
+// Una jugada forzada cuenta como una vigésima parte de una normal
+const FORCED_WEIGHT = 0.05;
+// Mínimos por búsqueda para que el motor devuelva al menos una línea
+const MIN_NODES = 2000;
+const MIN_MOVETIME_MS = 20;
+// Mismo tope que depth en POST /chess/evaluate
+const MAX_DEPTH = 40;
+
+/**
+ * Cómo se analiza una partida: a profundidad fija o con un perfil de presupuesto.
+ */
+export type AnalysisPlan =
+  | { depth: number; profile: null; budget: null }
+  | { depth: null; profile: string; budget: SearchBudget };
+
+export interface PlyToSearch {
+  fen: string; // Posición previa a la jugada.
+  previousSan?: string; // Jugada del rival que llevó a ella.
+  book: boolean; // Las jugadas de libro no se buscan.
+}
+
+/**
+ * Perfiles de análisis y reparto de su presupuesto entre las jugadas.
+ */
+@Injectable()
+export class AnalysisBudgetService {
+  readonly profiles: Record<string, SearchBudget>;
+
+  constructor(private readonly configService: ConfigService) {
+    this.profiles = this.loadProfiles(
+      this.configService.get<string>('ANALYSIS_PROFILES'),
+    );
+  }
+
+  /**
+   * depth y profile son excluyentes; sin profile, depth es obligatorio y
+   * debe ser un entero entre 1 y MAX_DEPTH.
+   */
+  resolve(depth: number | undefined, profile?: string | null): AnalysisPlan {
+    if (profile === undefined || profile === null) {
+      return { depth: this.parseDepth(depth), profile: null, budget: null };
+    }
+    if (depth !== undefined && depth !== null) {
+      throw new BadRequestException('Usa depth o profile, no los dos.');
+    }
+    if (!Object.keys(this.profiles).includes(profile)) {
+      throw new BadRequestException(
+        `Perfil de análisis desconocido. Usa uno de: ${Object.keys(this.profiles).join(', ')}.`,
+      );
+    }
+    return { depth: null, profile, budget: this.profiles[profile] };
+  }
+
+  /**
+   * Con presupuesto, cada jugada recibe una parte proporcional a su peso:
+   * más en posiciones críticas o complejas, casi nada en jugadas forzadas y
+   * nada en las de libro. El total puede pasarse un poco por los mínimos.
+   */
+  allocate(plan: AnalysisPlan, plies: PlyToSearch[]): SearchLimit[] {
+    if (plan.budget === null) {
+      return plies.map(() => ({ depth: plan.depth }));
+    }
+
+    const weights = plies.map((ply) => (ply.book ? 0 : this.weight(ply)));
+    const totalWeight = weights.reduce((a, b) => a + b, 0) || 1;
+    const toLimit = (amount: number): SearchLimit =>
+      'nodes' in plan.budget
+        ? { nodes: Math.max(MIN_NODES, Math.round(amount)) }
+        : { movetime: Math.max(MIN_MOVETIME_MS, Math.round(amount)) };
+    const total =
+      'nodes' in plan.budget ? plan.budget.nodes : plan.budget.movetime;
+
+    return weights.map((weight) => toLimit((total * weight) / totalWeight));
+  }
+
+  private parseDepth(depth: unknown): number {
+    if (depth === undefined || depth === null) {
+      throw new BadRequestException('Indica depth o profile.');
+    }
+    const value = Number(depth);
+    if (!Number.isInteger(value) || value < 1 || value > MAX_DEPTH) {
+      throw new BadRequestException(
+        `depth debe ser un entero entre 1 y ${MAX_DEPTH}.`,
+      );
+    }
+    return value;
+  }
+
+  /**
+   * Peso de una jugada: 1 de base, más si hay jaque, si responde a una
+   * captura o jaque (recapturas, defensas), por cada captura posible y por
+   * el número de jugadas legales.
+   */
+  private weight({ fen, previousSan }: PlyToSearch): number {
+    const chess = new Chess(fen);
+    const moves = chess.moves({ verbose: true });
+    if (moves.length <= 1) return FORCED_WEIGHT;
+
+    let weight = 1;
+    if (chess.inCheck()) weight += 0.5;
+    if (previousSan && /[x+#]/.test(previousSan)) weight += 0.5;
+    weight += Math.min(moves.filter((move) => move.captured).length, 4) / 8;
+    weight += Math.min(moves.length, 40) / 80;
+    return weight;
+  }
+
+  /**
+   * ANALYSIS_PROFILES: JSON con perfiles que cambiar o añadir, p. ej.
+   * {"quick":{"movetime":20000},"blitz":{"nodes":2000000}}. Un perfil mal
+   * formado se ignora con un aviso.
+   */
+  private loadProfiles(json: string | undefined): Record<string, SearchBudget> {
+    if (!json) return DEFAULT_ANALYSIS_PROFILES;
+    let overrides: Record<string, unknown>;
+    try {
+      overrides = JSON.parse(json);
+    } catch {
+      console.warn(
+        '⚠️ ANALYSIS_PROFILES is not valid JSON, using the default profiles',
+      );
+      return DEFAULT_ANALYSIS_PROFILES;
+    }
+
+    const profiles = { ...DEFAULT_ANALYSIS_PROFILES };
+    for (const [name, budget] of Object.entries(overrides ?? {})) {
+      const entries = Object.entries(budget ?? {});
+      const [key, value] = entries[0] ?? [];
+      if (
+        entries.length !== 1 ||
+        (key !== 'nodes' && key !== 'movetime') ||
+        !Number.isInteger(value) ||
+        value <= 0
+      ) {
+        console.warn(
+          `⚠️ ANALYSIS_PROFILES: profile "${name}" needs a positive "nodes" or "movetime", ignoring it`,
+        );
+        continue;
+      }
+      profiles[name] = { [key]: value } as SearchBudget;
+    }
+    return profiles;
+  }
+}
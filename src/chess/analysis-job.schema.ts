@@ -0,0 +1,55 @@
+import { Schema, Prop, SchemaFactory } from '@nestjs/mongoose';
+import { HydratedDocument, Schema as MongooseSchema, Types } from 'mongoose';
+import { EvaluatedPosition, Report } from '../interfaces/analysis.interfaces';
+
+export type AnalysisJobDocument = HydratedDocument<AnalysisJob>;
+
+export type AnalysisJobStatus =
+  | 'queued'
+  | 'running'
+  | 'completed'
+  | 'failed'
+  | 'cancelled';
+
+@Schema({ timestamps: true })
+export class AnalysisJob {
+  @Prop({ required: true })
+  pgn: string;
+
+  // null cuando se analiza con un perfil
+  @Prop({ type: Number, default: null })
+  depth: number | null;
+
+  // Perfil de presupuesto ("quick", "standard", "deep"), si se pidió
+  @Prop({ type: String, default: null })
+  profile: string | null;
+
+  @Prop({ type: String, default: 'queued', index: true })
+  status: AnalysisJobStatus;
+
+  @Prop({ default: 0 })
+  pliesDone: number;
+
+  @Prop({ default: 0 })
+  totalPlies: number;
+
+  // Posiciones ya evaluadas, en orden de jugada (resultado parcial)
+  @Prop({ type: [MongooseSchema.Types.Mixed], default: [] })
+  positions: EvaluatedPosition[];
+
+  @Prop({ type: MongooseSchema.Types.Mixed, default: null })
+  report: Report | null;
+
+  @Prop({ type: String, default: null })
+  error: string | null;
+
+  // Usuario para el que se guarda el reporte al terminar, si lo hay
+  @Prop({ type: MongooseSchema.Types.ObjectId, ref: 'User', default: null })
+  user: Types.ObjectId | null;
+
+  // Su color; sin él se deduce de las cuentas vinculadas
+  @Prop({ type: String, default: null })
+  color: 'white' | 'black' | null;
+}
+
+export const AnalysisJobSchema = SchemaFactory.createForClass(AnalysisJob);
@@ -0,0 +1,205 @@
+import { ForbiddenException, UnauthorizedException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { Types } from 'mongoose';
+import { AnalysisJobsService } from './analysis-jobs.service';
+import { AnalysisJob } from './analysis-job.schema';
+import { AnalysisCancelledError, AnalysisService } from './AnalysisService';
+import { ChessService } from './chess.service';
+import { ProfilesService } from '../profiles/profiles.service';
+
+const exec = <T>(value: T) => ({ exec: jest.fn().mockResolvedValue(value) });
+const flushPromises = () => new Promise((r) => setImmediate(r));
+
+describe('AnalysisJobsService', () => {
+  let service: AnalysisJobsService;
+  let jobModel: Record<string, jest.Mock>;
+  let analysisService: {
+    analyzeGame: jest.Mock;
+    validatePgn: jest.Mock;
+    resolvePlan: jest.Mock;
+  };
+  let profilesService: { checkOwner: jest.Mock; saveReport: jest.Mock };
+  const jobId = new Types.ObjectId();
+
+  beforeEach(async () => {
+    jobModel = {
+      create: jest.fn().mockResolvedValue({
+        _id: jobId,
+        status: 'queued',
+        totalPlies: 2,
+      }),
+      updateOne: jest.fn().mockReturnValue(exec({ modifiedCount: 1 })),
+      updateMany: jest.fn().mockReturnValue(exec({ modifiedCount: 0 })),
+      findById: jest.fn().mockReturnValue(exec({ status: 'running' })),
+      findByIdAndUpdate: jest
+        .fn()
+        .mockReturnValue(exec({ status: 'cancelled' })),
+    };
+    analysisService = {
+      analyzeGame: jest.fn(),
+      validatePgn: jest.fn().mockReturnValue(true),
+      resolvePlan: jest.fn(),
+    };
+
+    profilesService = {
+      checkOwner: jest.fn().mockResolvedValue({}),
+      saveReport: jest.fn().mockResolvedValue({}),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AnalysisJobsService,
+        { provide: ProfilesService, useValue: profilesService },
+        { provide: getModelToken(AnalysisJob.name), useValue: jobModel },
+        { provide: AnalysisService, useValue: analysisService },
+        {
+          provide: ChessService,
+          useValue: {
+            parsePgn: jest.fn().mockReturnValue({ positions: [{}, {}] }),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<AnalysisJobsService>(AnalysisJobsService);
+  });
+
+  it('marks jobs interrupted by a restart as failed', async () => {
+    await service.onModuleInit();
+
+    expect(jobModel.updateMany).toHaveBeenCalledWith(
+      { status: { $in: ['queued', 'running'] } },
+      { $set: expect.objectContaining({ status: 'failed' }) },
+    );
+  });
+
+  it('persists progress in ply order and stores the final report', async () => {
+    const report = { positions: [] };
+    analysisService.analyzeGame.mockImplementation(
+      async (_pgn, _depth, { onPosition }) => {
+        onPosition({ move: { san: 'e4' } }, 0, 2);
+        onPosition({ move: { san: 'e5' } }, 1, 2);
+        return report;
+      },
+    );
+
+    await service.create('1. e4 e5', 12);
+    await flushPromises();
+
+    const updates = jobModel.updateOne.mock.calls.map(([, update]) => update);
+    expect(updates).toEqual([
+      { $set: { status: 'running' } },
+      { $push: { positions: { move: { san: 'e4' } } }, $set: { pliesDone: 1 } },
+      { $push: { positions: { move: { san: 'e5' } } }, $set: { pliesDone: 2 } },
+      { $set: { status: 'completed', report } },
+    ]);
+  });
+
+  it('saves the report of a finished job to its owner profile', async () => {
+    const report = { positions: [] };
+    analysisService.analyzeGame.mockResolvedValue(report);
+    const userId = new Types.ObjectId().toString();
+
+    await service.create('1. e4 e5', 12, { userId, color: 'black' });
+    await flushPromises();
+
+    expect(profilesService.checkOwner).toHaveBeenCalledWith(userId, 'black');
+    expect(jobModel.create).toHaveBeenCalledWith(
+      expect.objectContaining({ user: userId, color: 'black' }),
+    );
+    expect(profilesService.saveReport).toHaveBeenCalledWith(
+      userId,
+      report,
+      'black',
+    );
+  });
+
+  it('runs a job with an analysis profile instead of a depth', async () => {
+    analysisService.analyzeGame.mockResolvedValue({ positions: [] });
+
+    await service.create('1. e4 e5', undefined, undefined, 'quick');
+    await flushPromises();
+
+    expect(analysisService.resolvePlan).toHaveBeenCalledWith(
+      undefined,
+      'quick',
+    );
+    expect(jobModel.create).toHaveBeenCalledWith(
+      expect.objectContaining({ depth: null, profile: 'quick' }),
+    );
+    expect(analysisService.analyzeGame).toHaveBeenCalledWith(
+      '1. e4 e5',
+      undefined,
+      expect.objectContaining({ profile: 'quick' }),
+    );
+  });
+
+  it('aborts the running analysis when a job is cancelled', async () => {
+    let signal: AbortSignal;
+    analysisService.analyzeGame.mockImplementation(
+      (_pgn, _depth, options) =>
+        new Promise((_resolve, reject) => {
+          signal = options.signal;
+          signal.addEventListener('abort', () =>
+            reject(new AnalysisCancelledError()),
+          );
+        }),
+    );
+
+    await service.create('1. e4 e5', 12);
+    await flushPromises();
+    const job = await service.cancel(jobId.toString());
+    await flushPromises();
+
+    expect(signal.aborted).toBe(true);
+    expect(job.status).toBe('cancelled');
+    const statuses = jobModel.updateOne.mock.calls.map(
+      ([, update]) => update.$set?.status,
+    );
+    expect(statuses).not.toContain('failed');
+  });
+
+  it('rejects cancelling a finished job', async () => {
+    jobModel.findById.mockReturnValue(exec({ status: 'completed' }));
+
+    await expect(service.cancel(jobId.toString())).rejects.toThrow(
+      'El trabajo ya terminó',
+    );
+  });
+
+  it('shows and cancels owned jobs only to their owner or an admin', async () => {
+    const ownerId = new Types.ObjectId();
+    jobModel.findById.mockReturnValue(
+      exec({ status: 'completed', user: ownerId }),
+    );
+    const requester = (id: string, roles = ['user']) => ({
+      id,
+      username: 'x',
+      roles,
+      via: 'jwt' as const,
+    });
+
+    await expect(service.findOne(jobId.toString())).rejects.toThrow(
+      UnauthorizedException,
+    );
+    await expect(
+      service.findOne(jobId.toString(), requester('someone-else')),
+    ).rejects.toThrow(ForbiddenException);
+    await expect(
+      service.cancel(jobId.toString(), requester('someone-else')),
+    ).rejects.toThrow(ForbiddenException);
+    await expect(
+      service.findOne(jobId.toString(), requester(ownerId.toString())),
+    ).resolves.toMatchObject({ user: ownerId });
+    await expect(
+      service.findOne(jobId.toString(), requester('root', ['admin'])),
+    ).resolves.toMatchObject({ user: ownerId });
+  });
+
+  it('throws NotFound for unknown ids', async () => {
+    await expect(service.findOne('not-an-id')).rejects.toThrow(
+      'No existe el trabajo de análisis.',
+    );
+  });
+});
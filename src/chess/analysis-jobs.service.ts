@@ -0,0 +1,214 @@
+import {
+  ConflictException,
+  ForbiddenException,
+  Injectable,
+  NotFoundException,
+  OnModuleDestroy,
+  OnModuleInit,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { isValidObjectId, Model } from 'mongoose';
+import { AnalysisJob, AnalysisJobDocument } from './analysis-job.schema';
+import { AnalysisCancelledError, AnalysisService } from './AnalysisService';
+import { ChessService } from './chess.service';
+import { ProfilesService } from '../profiles/profiles.service';
+import { AuthenticatedUser } from '../interfaces/auth.interfaces';
+
+export interface AnalysisOwner {
+  userId: string;
+  color?: 'white' | 'black';
+}
+
+@Injectable()
+export class AnalysisJobsService implements OnModuleInit, OnModuleDestroy {
+  // Jobs running in this process, so they can be cancelled
+  private readonly running = new Map<string, AbortController>();
+
+  constructor(
+    @InjectModel(AnalysisJob.name)
+    private readonly jobModel: Model<AnalysisJobDocument>,
+    private readonly analysisService: AnalysisService,
+    private readonly chessService: ChessService,
+    private readonly profilesService: ProfilesService,
+  ) {}
+
+  /**
+   * Jobs left queued or running by a previous process can never finish:
+   * mark them failed, keeping the positions evaluated so far.
+   */
+  async onModuleInit() {
+    const { modifiedCount } = await this.jobModel
+      .updateMany(
+        { status: { $in: ['queued', 'running'] } },
+        {
+          $set: {
+            status: 'failed',
+            error: 'Interrumpido por un reinicio del servidor',
+          },
+        },
+      )
+      .exec();
+    if (modifiedCount > 0) {
+      console.warn(
+        `⚠️ ${modifiedCount} analysis job(s) interrupted by restart`,
+      );
+    }
+  }
+
+  onModuleDestroy() {
+    this.running.forEach((controller) => controller.abort());
+  }
+
+  /**
+   * Store a new job and start analyzing it in the background. With an owner,
+   * the finished report is also saved to their profile.
+   */
+  async create(
+    pgn: string,
+    depth: number,
+    owner?: AnalysisOwner,
+    profile?: string,
+  ): Promise<AnalysisJobDocument> {
+    this.analysisService.validatePgn(pgn);
+    this.analysisService.resolvePlan(depth, profile);
+    const totalPlies = this.chessService.parsePgn(pgn).positions.length;
+    if (owner) {
+      await this.profilesService.checkOwner(owner.userId, owner.color);
+    }
+
+    const job = await this.jobModel.create({
+      pgn,
+      depth: profile ? null : depth,
+      profile: profile ?? null,
+      totalPlies,
+      ...(owner ? { user: owner.userId, color: owner.color ?? null } : {}),
+    });
+    void this.run(job._id.toString(), pgn, depth, owner, profile);
+    return job;
+  }
+
+  /**
+   * A job with an owner is only visible to them or an admin; anonymous jobs
+   * to anyone with the id.
+   */
+  async findOne(
+    id: string,
+    requester?: AuthenticatedUser,
+  ): Promise<AnalysisJobDocument> {
+    const job = isValidObjectId(id)
+      ? await this.jobModel.findById(id).exec()
+      : null;
+    if (!job) {
+      throw new NotFoundException('No existe el trabajo de análisis.');
+    }
+    if (job.user) {
+      if (!requester) {
+        throw new UnauthorizedException(
+          'Inicia sesión o envía una clave de API.',
+        );
+      }
+      if (
+        job.user.toString() !== requester.id &&
+        !requester.roles.includes('admin')
+      ) {
+        throw new ForbiddenException('No tienes permiso para esta operación.');
+      }
+    }
+    return job;
+  }
+
+  async cancel(
+    id: string,
+    requester?: AuthenticatedUser,
+  ): Promise<AnalysisJobDocument> {
+    const job = await this.findOne(id, requester);
+    if (job.status !== 'queued' && job.status !== 'running') {
+      throw new ConflictException(
+        `El trabajo ya terminó con estado "${job.status}".`,
+      );
+    }
+
+    this.running.get(id)?.abort();
+    return this.jobModel
+      .findByIdAndUpdate(id, { $set: { status: 'cancelled' } }, { new: true })
+      .exec();
+  }
+
+  private async run(
+    id: string,
+    pgn: string,
+    depth: number,
+    owner?: AnalysisOwner,
+    profile?: string,
+  ): Promise<void> {
+    const controller = new AbortController();
+    this.running.set(id, controller);
+
+    // Progress writes are chained so positions land in ply order
+    let writes: Promise<unknown> = Promise.resolve();
+
+    try {
+      await this.jobModel
+        .updateOne(
+          { _id: id, status: 'queued' },
+          { $set: { status: 'running' } },
+        )
+        .exec();
+
+      const report = await this.analysisService.analyzeGame(pgn, depth, {
+        signal: controller.signal,
+        profile,
+        onPosition: (position, index) => {
+          writes = writes.then(() =>
+            this.jobModel
+              .updateOne(
+                { _id: id },
+                {
+                  $push: { positions: position },
+                  $set: { pliesDone: index + 1 },
+                },
+              )
+              .exec(),
+          );
+        },
+      });
+      await writes;
+
+      const { modifiedCount } = await this.jobModel
+        .updateOne(
+          { _id: id, status: 'running' },
+          { $set: { status: 'completed', report } },
+        )
+        .exec();
+
+      // Not if it was cancelled meanwhile. The job is done either way: a
+      // failed save is only logged
+      if (owner && modifiedCount > 0) {
+        await this.profilesService
+          .saveReport(owner.userId, report, owner.color)
+          .catch((error) =>
+            console.warn(
+              `⚠️ Report of analysis job ${id} not saved:`,
+              error.message,
+            ),
+          );
+      }
+    } catch (error) {
+      await writes.catch(() => undefined);
+      if (error instanceof AnalysisCancelledError) {
+        return;
+      }
+      console.error(`❌ Analysis job ${id} failed:`, error.message);
+      await this.jobModel
+        .updateOne(
+          { _id: id },
+          { $set: { status: 'failed', error: error.message } },
+        )
+        .exec()
+        .catch(() => undefined);
+    } finally {
+      this.running.delete(id);
+    }
+  }
+}
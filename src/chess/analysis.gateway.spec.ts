@@ -0,0 +1,93 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { Socket } from 'socket.io';
+import { AnalysisGateway } from './analysis.gateway';
+import { AnalysisCancelledError, AnalysisService } from './AnalysisService';
+
+const flushPromises = () => new Promise((r) => setImmediate(r));
+
+describe('AnalysisGateway', () => {
+  let gateway: AnalysisGateway;
+  let analyzeGame: jest.Mock;
+  let client: Socket;
+  let emitted: Array<[string, any]>;
+
+  beforeEach(async () => {
+    analyzeGame = jest.fn();
+    emitted = [];
+    client = {
+      id: 'socket-1',
+      emit: jest.fn((event, payload) => emitted.push([event, payload])),
+    } as unknown as Socket;
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AnalysisGateway,
+        { provide: AnalysisService, useValue: { analyzeGame } },
+      ],
+    }).compile();
+
+    gateway = module.get<AnalysisGateway>(AnalysisGateway);
+  });
+
+  it('emits one event per ply and then the report', async () => {
+    const report = { positions: [] };
+    analyzeGame.mockImplementation(async (_pgn, _depth, { onPosition }) => {
+      onPosition({ move: { san: 'e4' } }, 0, 2);
+      onPosition({ move: { san: 'e5' } }, 1, 2);
+      return report;
+    });
+
+    gateway.handleAnalyze(client, { pgn: '1. e4 e5', depth: 12 });
+    await flushPromises();
+
+    expect(emitted).toEqual([
+      ['position', { index: 0, total: 2, position: { move: { san: 'e4' } } }],
+      ['position', { index: 1, total: 2, position: { move: { san: 'e5' } } }],
+      ['report', report],
+    ]);
+  });
+
+  it('emits analysis-error when the analysis fails', async () => {
+    analyzeGame.mockRejectedValue(new Error('PGN inválido o sin movimientos.'));
+
+    gateway.handleAnalyze(client, { pgn: 'nope', depth: 12 });
+    await flushPromises();
+
+    expect(emitted).toEqual([
+      ['analysis-error', { message: 'PGN inválido o sin movimientos.' }],
+    ]);
+  });
+
+  it('aborts the analysis on cancel and on disconnect', async () => {
+    const signals: AbortSignal[] = [];
+    analyzeGame.mockImplementation(
+      (_pgn, _depth, { signal }) =>
+        new Promise((_resolve, reject) => {
+          signals.push(signal);
+          signal.addEventListener('abort', () =>
+            reject(new AnalysisCancelledError()),
+          );
+        }),
+    );
+
+    gateway.handleAnalyze(client, { pgn: '1. e4', depth: 12 });
+    gateway.handleCancel(client);
+    await flushPromises();
+    expect(emitted).toEqual([['cancelled', {}]]);
+
+    gateway.handleAnalyze(client, { pgn: '1. e4', depth: 12 });
+    gateway.handleDisconnect(client);
+    await flushPromises();
+    expect(signals.map((s) => s.aborted)).toEqual([true, true]);
+  });
+
+  it('refuses a second analysis on the same socket', async () => {
+    analyzeGame.mockReturnValue(new Promise(() => undefined));
+
+    gateway.handleAnalyze(client, { pgn: '1. e4', depth: 12 });
+    gateway.handleAnalyze(client, { pgn: '1. e4', depth: 12 });
+
+    expect(analyzeGame).toHaveBeenCalledTimes(1);
+    expect(emitted[0][0]).toBe('analysis-error');
+  });
+});
@@ -0,0 +1,83 @@
+import {
+  ConnectedSocket,
+  MessageBody,
+  OnGatewayDisconnect,
+  SubscribeMessage,
+  WebSocketGateway,
+} from '@nestjs/websockets';
+import { Socket } from 'socket.io';
+import { AnalysisCancelledError, AnalysisService } from './AnalysisService';
+import { getCorsOrigins } from '../config/cors';
+
+/**
+ * Streams game analysis over socket.io (namespace /analysis).
+ *
+ * Client → server: `analyze` { pgn, depth }, `cancel`.
+ * Server → client: `position` { index, total, position } per ply in order,
+ * then `report` with the full Report, or `analysis-error` / `cancelled`.
+ */
+@WebSocketGateway({
+  namespace: 'analysis',
+  cors: {
+    // Se resuelve por conexión: el .env se carga después de evaluar el decorador
+    origin: (origin: string, callback: (err: Error, allow: boolean) => void) =>
+      callback(null, !origin || getCorsOrigins().includes(origin)),
+    credentials: true,
+  },
+})
+export class AnalysisGateway implements OnGatewayDisconnect {
+  // Una sola sesión de análisis por socket
+  private readonly sessions = new Map<string, AbortController>();
+
+  constructor(private readonly analysisService: AnalysisService) {}
+
+  @SubscribeMessage('analyze')
+  handleAnalyze(
+    @ConnectedSocket() client: Socket,
+    @MessageBody() body: { pgn: string; depth?: number; profile?: string },
+  ): void {
+    if (this.sessions.has(client.id)) {
+      client.emit('analysis-error', {
+        message: 'Ya hay un análisis en curso en esta conexión.',
+      });
+      return;
+    }
+
+    const controller = new AbortController();
+    this.sessions.set(client.id, controller);
+
+    this.analysisService
+      .analyzeGame(body?.pgn, body?.depth, {
+        signal: controller.signal,
+        profile: body?.profile,
+        onPosition: (position, index, total) =>
+          client.emit('position', { index, total, position }),
+      })
+      .then((report) => client.emit('report', report))
+      .catch((error) => {
+        if (error instanceof AnalysisCancelledError) {
+          client.emit('cancelled', {});
+        } else {
+          client.emit('analysis-error', { message: error.message });
+        }
+      })
+      .finally(() => {
+        if (this.sessions.get(client.id) === controller) {
+          this.sessions.delete(client.id);
+        }
+      });
+  }
+
+  @SubscribeMessage('cancel')
+  handleCancel(@ConnectedSocket() client: Socket): void {
+    this.sessions.get(client.id)?.abort();
+  }
+
+  /**
+   * Si el cliente se va no tiene sentido seguir buscando
+   */
+  handleDisconnect(client: Socket): void {
+    this.sessions.get(client.id)?.abort();
+    this.sessions.delete(client.id);
+  }
+}
@@ -0,0 +1,204 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { HttpService } from '@nestjs/axios';
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { of, throwError } from 'rxjs';
+import { BatchAnalysisService } from './batch-analysis.service';
+import { ChessService } from './chess.service';
+import { ChessComProvider } from '../game-sources/chess-com.provider';
+import { AnalysisService } from './AnalysisService';
+import { ProfilesService } from '../profiles/profiles.service';
+import { Classification, Report } from '../interfaces/analysis.interfaces';
+
+const game = (white: string, black: string, moves: string) =>
+  [
+    '[Event "Live Chess"]',
+    '[Site "Chess.com"]',
+    `[White "${white}"]`,
+    `[Black "${black}"]`,
+    `[Link "https://www.chess.com/game/live/${white}-${black}"]`,
+    '',
+    moves,
+  ].join('\n');
+
+// Formato del PGN mensual de chess.com: partidas separadas por líneas en blanco
+const MONTH_PGN = [
+  game('hikaru', 'rival1', '1. e4 {[%clk 0:02:59.9]} 1... e5 2. Nf3 Nc6 1-0'),
+  game('rival2', 'Hikaru', '1. d4 d5 2. c4 0-1'),
+  game('hikaru', 'rival3', '1. e4 e4 *'),
+].join('\n\n');
+
+const PGN_URL = 'https://api.chess.com/pub/player/hikaru/games/2024/03/pgn';
+
+const counts = (overrides: Partial<Record<Classification, number>>) =>
+  ({
+    brilliant: 0,
+    great: 0,
+    best: 0,
+    excellent: 0,
+    good: 0,
+    inaccuracy: 0,
+    mistake: 0,
+    blunder: 0,
+    book: 0,
+    forced: 0,
+    miss: 0,
+    ...overrides,
+  }) as Record<Classification, number>;
+
+const report = (pgn: string): Report => {
+  const kingsPawn = pgn.includes('1. e4');
+  return {
+    accuracies: kingsPawn ? { white: 90, black: 70 } : { white: 60, black: 80 },
+    classifications: {
+      white: counts(kingsPawn ? { best: 4 } : { best: 3, blunder: 1 }),
+      black: counts(
+        kingsPawn ? { best: 3, blunder: 1 } : { best: 2, blunder: 2 },
+      ),
+    },
+    opening: {
+      opening: {
+        fen: '',
+        name: kingsPawn ? "King's Knight Opening" : "Queen's Gambit",
+        eco: kingsPawn ? 'C40' : 'D06',
+        moves: null,
+      },
+      ply: 3,
+      leftTheoryAtPly: null,
+    },
+  } as Report;
+};
+
+describe('BatchAnalysisService', () => {
+  let service: BatchAnalysisService;
+  let analyzeGame: jest.Mock;
+  let saveForAccount: jest.Mock;
+  let running: number;
+  let maxRunning: number;
+
+  // Sustituto local de la API de chess.com
+  const chessComApi = {
+    get: jest.fn((url: string) =>
+      url === PGN_URL
+        ? of({ data: MONTH_PGN })
+        : throwError(() => new Error('404 Not Found')),
+    ),
+  };
+
+  beforeEach(async () => {
+    running = 0;
+    maxRunning = 0;
+    analyzeGame = jest.fn(async (pgn: string) => {
+      running++;
+      maxRunning = Math.max(maxRunning, running);
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      running--;
+      if (pgn.includes('1. e4 e4')) {
+        throw new BadRequestException('PGN inválido');
+      }
+      return report(pgn);
+    });
+
+    saveForAccount = jest.fn().mockResolvedValue(null);
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        BatchAnalysisService,
+        { provide: ProfilesService, useValue: { saveForAccount } },
+        ChessService,
+        ChessComProvider,
+        { provide: HttpService, useValue: chessComApi },
+        {
+          provide: AnalysisService,
+          useValue: { analyzeGame, resolvePlan: jest.fn() },
+        },
+        {
+          provide: ConfigService,
+          useValue: new ConfigService({ BATCH_CONCURRENCY: '2' }),
+        },
+      ],
+    }).compile();
+
+    service = module.get<BatchAnalysisService>(BatchAnalysisService);
+  });
+
+  it('analyzes every game of the month and keeps failures per game', async () => {
+    const result = await service.analyzeMonth('hikaru', 2024, 3);
+
+    expect(analyzeGame).toHaveBeenCalledTimes(3);
+    expect(result.games.map((g) => g.status)).toEqual([
+      'completed',
+      'completed',
+      'failed',
+    ]);
+    expect(result.games[1]).toMatchObject({
+      white: 'rival2',
+      black: 'Hikaru',
+      link: 'https://www.chess.com/game/live/rival2-Hikaru',
+    });
+    expect(result.games[2].error).toBe('PGN inválido');
+  });
+
+  it('saves each report for the user who linked the account', async () => {
+    saveForAccount
+      .mockRejectedValueOnce(new Error('Mongo caído'))
+      .mockResolvedValue({});
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+    const result = await service.analyzeMonth('hikaru', 2024, 3);
+
+    expect(saveForAccount).toHaveBeenCalledTimes(2);
+    expect(saveForAccount).toHaveBeenCalledWith(
+      'chesscom',
+      'hikaru',
+      expect.objectContaining({ accuracies: expect.any(Object) }),
+    );
+    // Un fallo al guardar no hace fallar la partida
+    expect(result.games[0].status).toBe('completed');
+  });
+
+  it('summarizes the month from the player point of view', async () => {
+    const { summary } = await service.analyzeMonth('hikaru', 2024, 3);
+
+    expect(summary).toEqual({
+      games: 3,
+      analyzed: 2,
+      failed: 1,
+      accuracies: { white: 90, black: 80 },
+      blunders: 2,
+      blunderRate: 25, // 2 de 8 jugadas
+      openings: [
+        { name: "King's Knight Opening", eco: 'C40', games: 1 },
+        { name: "Queen's Gambit", eco: 'D06', games: 1 },
+      ],
+    });
+  });
+
+  it('never runs more games at once than the concurrency limit', async () => {
+    await service.analyzeMonth('hikaru', 2024, 3);
+    expect(maxRunning).toBe(2);
+
+    maxRunning = 0;
+    await service.analyzeMonth('hikaru', 2024, 3, { concurrency: 1 });
+    expect(maxRunning).toBe(1);
+  });
+
+  it('rejects invalid months and unknown archives', async () => {
+    await expect(service.analyzeMonth('hikaru', 2024, 13)).rejects.toThrow(
+      BadRequestException,
+    );
+    await expect(service.analyzeMonth('nobody', 2024, 3)).rejects.toThrow(
+      NotFoundException,
+    );
+  });
+
+  it('rejects a concurrency that is not a positive integer', async () => {
+    for (const concurrency of ['abc', 0, -1, 1.5]) {
+      await expect(
+        service.analyzeMonth('hikaru', 2024, 3, {
+          concurrency: concurrency as number,
+        }),
+      ).rejects.toThrow(BadRequestException);
+    }
+  });
+});
@@ -0,0 +1,230 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { AnalysisService } from './AnalysisService';
+import { ChessService } from './chess.service';
+import { ChessComProvider } from '../game-sources/chess-com.provider';
+import { ProfilesService } from '../profiles/profiles.service';
+import {
+  BatchAnalysisResult,
+  BatchGameResult,
+  MonthlySummary,
+} from '../interfaces/analysis.interfaces';
+
+const DEFAULT_DEPTH = 12;
+const DEFAULT_CONCURRENCY = 2;
+const MAX_CONCURRENCY = 8;
+const TOP_OPENINGS = 5;
+
+export interface BatchOptions {
+  depth?: number;
+  /** Perfil de presupuesto en lugar de profundidad fija */
+  profile?: string;
+  /** Partidas analizadas a la vez; por defecto BATCH_CONCURRENCY */
+  concurrency?: number;
+}
+
+/**
+ * Análisis de todas las partidas de un mes de chess.com.
+ */
+@Injectable()
+export class BatchAnalysisService {
+  private readonly defaultConcurrency: number;
+
+  constructor(
+    private readonly chessService: ChessService,
+    private readonly analysisService: AnalysisService,
+    private readonly chessComProvider: ChessComProvider,
+    private readonly configService: ConfigService,
+    private readonly profilesService: ProfilesService,
+  ) {
+    const configured = parseInt(
+      this.configService.get<string>('BATCH_CONCURRENCY') ?? '',
+      10,
+    );
+    this.defaultConcurrency =
+      Number.isInteger(configured) && configured > 0
+        ? Math.min(configured, MAX_CONCURRENCY)
+        : DEFAULT_CONCURRENCY;
+  }
+
+  /**
+   * Una partida que falla no detiene el lote: queda marcada como 'failed'.
+   * Si un usuario tiene vinculada la cuenta, cada reporte se guarda en su perfil.
+   */
+  async analyzeMonth(
+    username: string,
+    year: number,
+    month: number,
+    options: BatchOptions = {},
+  ): Promise<BatchAnalysisResult> {
+    if (
+      !Number.isInteger(year) ||
+      !Number.isInteger(month) ||
+      month < 1 ||
+      month > 12
+    ) {
+      throw new BadRequestException('Año o mes inválido.');
+    }
+    const { profile } = options;
+    const depth = profile ? options.depth : (options.depth ?? DEFAULT_DEPTH);
+    this.analysisService.resolvePlan(depth, profile);
+    const concurrency = this.parseConcurrency(options.concurrency);
+
+    const pgn = await this.chessComProvider.getMonthlyPgn(
+      username,
+      year,
+      month,
+    );
+    const games = this.chessService.splitPgn(pgn ?? '');
+
+    const results = await this.mapWithConcurrency(
+      games,
+      concurrency,
+      (game, index) => this.analyzeOne(username, game, index, depth, profile),
+    );
+
+    return {
+      username,
+      year,
+      month,
+      games: results,
+      summary: this.summarize(username, results),
+    };
+  }
+
+  /**
+   * Un entero positivo, limitado a MAX_CONCURRENCY; por defecto BATCH_CONCURRENCY
+   */
+  private parseConcurrency(value: unknown): number {
+    if (value === undefined || value === null) {
+      return this.defaultConcurrency;
+    }
+    const concurrency = Number(value);
+    if (!Number.isInteger(concurrency) || concurrency < 1) {
+      throw new BadRequestException('concurrency debe ser un entero positivo.');
+    }
+    return Math.min(concurrency, MAX_CONCURRENCY);
+  }
+
+  private async analyzeOne(
+    username: string,
+    pgn: string,
+    index: number,
+    depth: number,
+    profile?: string,
+  ): Promise<BatchGameResult> {
+    const { white, black, link } = this.chessService.parsePgnHeaders(pgn);
+    const game = { index, white, black, link };
+    try {
+      const report = await this.analysisService.analyzeGame(pgn, depth, {
+        profile,
+      });
+      // Un fallo al guardar no hace fallar la partida
+      await this.profilesService
+        .saveForAccount('chesscom', username, report)
+        .catch((error) =>
+          console.warn(
+            `⚠️ Report of ${link ?? index} not saved:`,
+            error.message,
+          ),
+        );
+      return { ...game, status: 'completed', report };
+    } catch (error) {
+      return {
+        ...game,
+        status: 'failed',
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+
+  /**
+   * Resumen desde el punto de vista del jugador: solo cuentan sus jugadas.
+   */
+  private summarize(
+    username: string,
+    results: BatchGameResult[],
+  ): MonthlySummary {
+    const player = username.toLowerCase();
+    const accuracies = { white: [] as number[], black: [] as number[] };
+    const openings = new Map<
+      string,
+      { name: string; eco: string | null; games: number }
+    >();
+    let blunders = 0;
+    let moves = 0;
+
+    for (const result of results) {
+      const report = result.report;
+      if (!report) continue;
+
+      const opening = report.opening.opening;
+      if (opening) {
+        const entry = openings.get(opening.name) ?? {
+          name: opening.name,
+          eco: opening.eco,
+          games: 0,
+        };
+        entry.games++;
+        openings.set(opening.name, entry);
+      }
+
+      const color =
+        result.white?.toLowerCase() === player
+          ? 'white'
+          : result.black?.toLowerCase() === player
+            ? 'black'
+            : null;
+      if (!color) continue;
+
+      accuracies[color].push(report.accuracies[color]);
+      const counts = report.classifications[color];
+      blunders += counts.blunder;
+      moves += Object.values(counts).reduce((sum, count) => sum + count, 0);
+    }
+
+    const completed = results.filter(
+      (result) => result.status === 'completed',
+    ).length;
+    return {
+      games: results.length,
+      analyzed: completed,
+      failed: results.length - completed,
+      accuracies: {
+        white: accuracies.white.length
+          ? this.chessService.calculateGameAccuracy(accuracies.white)
+          : null,
+        black: accuracies.black.length
+          ? this.chessService.calculateGameAccuracy(accuracies.black)
+          : null,
+      },
+      blunders,
+      blunderRate: moves ? Math.round((blunders / moves) * 1000) / 10 : null,
+      openings: [...openings.values()]
+        .sort((a, b) => b.games - a.games || a.name.localeCompare(b.name))
+        .slice(0, TOP_OPENINGS),
+    };
+  }
+
+  /**
+   * Como Promise.all, pero con como mucho `limit` tareas en marcha.
+   */
+  private async mapWithConcurrency<T, R>(
+    items: T[],
+    limit: number,
+    task: (item: T, index: number) => Promise<R>,
+  ): Promise<R[]> {
+    const results = new Array<R>(items.length);
+    let next = 0;
+    const worker = async () => {
+      while (next < items.length) {
+        const index = next++;
+        results[index] = await task(items[index], index);
+      }
+    };
+    await Promise.all(
+      Array.from({ length: Math.min(limit, items.length) }, worker),
+    );
+    return results;
+  }
+}
@@ -1,18 +1,33 @@
-import { Controller, Get, Post, Query, Param, Body } from '@nestjs/common';
-import { ChessService } from './chess.service';
+import { Controller, Get, Post, Delete, Query, Param, Body, Header, HttpCode, BadRequestException, ConflictException, UseGuards } from '@nestjs/common';
+import { ChessComProvider } from '../game-sources/chess-com.provider';
 import { AnalysisService } from './AnalysisService';
+import { AnalysisJobsService } from './analysis-jobs.service';
+import { BatchAnalysisService } from './batch-analysis.service';
+import { PgnExportService } from './pgn-export.service';
+import { ProfilesService } from '../profiles/profiles.service';
+import { EngineService } from '../engine/engine.service';
+import { AuthGuard } from '../auth/auth.guard';
+import { CurrentUser, OptionalAuth } from '../auth/auth.decorators';
+import { AuthenticatedUser } from '../interfaces/auth.interfaces';
+import { Report } from '../interfaces/analysis.interfaces';
+import { PositionEvaluationRequest } from '../interfaces/engine.interfaces';
 
 
 @Controller('chess')
 export class ChessController {
   constructor(
-    private readonly chessService: ChessService,
+    private readonly chessComProvider: ChessComProvider,
     private readonly analysisService: AnalysisService,
+    private readonly analysisJobsService: AnalysisJobsService,
+    private readonly batchAnalysisService: BatchAnalysisService,
+    private readonly pgnExportService: PgnExportService,
+    private readonly profilesService: ProfilesService,
+    private readonly engineService: EngineService,
   ) {}
 
   @Get('archives/:username')
   async getPlayerArchives(@Param('username') username: string) {
-    return await this.chessService.getPlayerArchives(username);
+    return await this.chessComProvider.getArchives(username);
   }
 
   @Get('games/:username/:year/:month')
@@ -21,7 +36,7 @@ export class ChessController {
     @Param('year') year: number,
     @Param('month') month: number,
   ) {
-    return await this.chessService.getGamesFromMonth(username, year, month);
+    return await this.chessComProvider.getMonthlyGames(username, year, month);
   }
 
   @Get('pgn/:username/:year/:month')
@@ -30,12 +45,105 @@ export class ChessController {
     @Param('year') year: number,
     @Param('month') month: number,
   ) {
-    return await this.chessService.getPGN(username, year, month);
+    return await this.chessComProvider.getMonthlyPgn(username, year, month);
   }
+  /**
+   * Con async: true devuelve el trabajo de inmediato; consultarlo en GET jobs/:id.
+   * Con sesión o clave de API, el reporte se guarda en el perfil del usuario
+   */
   @Post('analyze')
-  async analyzeGame(@Body() body: { pgn: string; depth: number }) {
-    const { pgn, depth } = body;
-    return await this.analysisService.analyzeGame(pgn, depth);
+  @UseGuards(AuthGuard)
+  @OptionalAuth()
+  async analyzeGame(
+    @Body() body: { pgn: string; depth?: number; profile?: string; async?: boolean; color?: 'white' | 'black' },
+    @CurrentUser() user?: AuthenticatedUser,
+  ) {
+    const { pgn, depth, profile, color } = body;
+    const userId = user?.id;
+    if (body.async) {
+      const job = await this.analysisJobsService.create(pgn, depth, userId ? { userId, color } : undefined, profile);
+      return { jobId: job._id.toString(), status: job.status, totalPlies: job.totalPlies };
+    }
+    this.analysisService.resolvePlan(depth, profile);
+    if (userId) {
+      await this.profilesService.checkOwner(userId, color);
+    }
+    const report = await this.analysisService.analyzeGame(pgn, depth, { profile });
+    if (userId) {
+      await this.profilesService.saveReport(userId, report, color);
+    }
+    return report;
+  }
+
+  /**
+   * Una sola posición: depth, movetime o nodes, multiPv de 1 a 10 y searchmoves opcional
+   */
+  @Post('evaluate')
+  @HttpCode(200)
+  async evaluatePosition(@Body() body: PositionEvaluationRequest) {
+    return await this.engineService.analyzePosition(body ?? {});
+  }
+
+  /**
+   * Analiza todas las partidas del mes y añade un resumen del jugador
+   */
+  @Post('analyze/:username/:year/:month')
+  async analyzeMonth(
+    @Param('username') username: string,
+    @Param('year') year: string,
+    @Param('month') month: string,
+    @Body() body: { depth?: number; profile?: string; concurrency?: number },
+  ) {
+    return await this.batchAnalysisService.analyzeMonth(
+      username,
+      Number(year),
+      Number(month),
+      body ?? {},
+    );
+  }
+
+  /**
+   * Los trabajos con usuario solo los ve él o un admin
+   */
+  @Get('jobs/:id')
+  @UseGuards(AuthGuard)
+  @OptionalAuth()
+  async getJob(@Param('id') id: string, @CurrentUser() user?: AuthenticatedUser) {
+    return await this.analysisJobsService.findOne(id, user);
+  }
+
+  /**
+   * PGN anotado de un trabajo terminado, con las cabeceras del PGN enviado
+   */
+  @Get('jobs/:id/pgn')
+  @Header('Content-Type', 'application/x-chess-pgn')
+  @UseGuards(AuthGuard)
+  @OptionalAuth()
+  async exportJob(@Param('id') id: string, @CurrentUser() user?: AuthenticatedUser) {
+    const job = await this.analysisJobsService.findOne(id, user);
+    if (job.status !== 'completed' || !job.report) {
+      throw new ConflictException(`El trabajo no ha terminado (estado "${job.status}").`);
+    }
+    return this.pgnExportService.exportReport(job.report, job.pgn);
+  }
+
+  /**
+   * Sin pgn, las cabeceras se reconstruyen desde report.metadata
+   */
+  @Post('export/pgn')
+  @Header('Content-Type', 'application/x-chess-pgn')
+  exportPgn(@Body() body: { report: Report; pgn?: string }) {
+    if (!Array.isArray(body?.report?.positions)) {
+      throw new BadRequestException('Envía el reporte del análisis en report.');
+    }
+    return this.pgnExportService.exportReport(body.report, body.pgn);
+  }
+
+  @Delete('jobs/:id')
+  @UseGuards(AuthGuard)
+  @OptionalAuth()
+  async cancelJob(@Param('id') id: string, @CurrentUser() user?: AuthenticatedUser) {
+    return await this.analysisJobsService.cancel(id, user);
   }
 
 }
@@ -1,18 +1,51 @@
 import { Module } from '@nestjs/common';
-import { HttpModule } from '@nestjs/axios';
+import { MongooseModule } from '@nestjs/mongoose';
 import { ChessService } from './chess.service';
 import { ChessController } from './chess.controller';
 import { AnalysisService } from './AnalysisService';
 import { OpeningsService } from './openings.service';
+import { OpeningsController } from './openings.controller';
+import { ClassificationService } from './ClassificationService';
+import { GamePhaseService } from './game-phase.service';
+import { TimeManagementService } from './time-management.service';
+import { PerformanceRatingService } from './performance-rating.service';
+import { GameSummaryService } from './game-summary.service';
+import { AnalysisBudgetService } from './analysis-budget.service';
 import { EngineModule } from '../engine/engine.module';
+import { GameSourcesModule } from '../game-sources/game-sources.module';
+import { PuzzlesModule } from '../puzzles/puzzles.module';
+import { ProfilesModule } from '../profiles/profiles.module';
+import { AnalysisJob, AnalysisJobSchema } from './analysis-job.schema';
+import { AnalysisJobsService } from './analysis-jobs.service';
+import { AnalysisGateway } from './analysis.gateway';
+import { BatchAnalysisService } from './batch-analysis.service';
+import { PgnExportService } from './pgn-export.service';
 
 @Module({
   imports: [
-    HttpModule,
     EngineModule,
+    GameSourcesModule,
+    PuzzlesModule,
+    ProfilesModule,
+    MongooseModule.forFeature([{ name: AnalysisJob.name, schema: AnalysisJobSchema }]),
   ],
-  controllers: [ChessController],
-  providers: [ChessService, AnalysisService, OpeningsService],
+  controllers: [ChessController, OpeningsController],
+  providers: [
+    ChessService,
+    AnalysisService,
+    OpeningsService,
+    ClassificationService,
+    GamePhaseService,
+    TimeManagementService,
+    PerformanceRatingService,
+    GameSummaryService,
+    AnalysisBudgetService,
+    AnalysisJobsService,
+    AnalysisGateway,
+    BatchAnalysisService,
+    PgnExportService,
+  ],
+  exports: [AnalysisService, AnalysisJobsService],
 })
 export class ChessModule { }
 
@@ -1,5 +1,23 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import { ChessService } from './chess.service';
+import {
+  EvaluatedPosition,
+  GameSummary,
+  PerformanceReport,
+  SearchReport,
+} from '../interfaces/analysis.interfaces';
+
+const ply = (
+  classification: EvaluatedPosition['classification'],
+  phase: EvaluatedPosition['phase'],
+): EvaluatedPosition => ({
+  fen: '',
+  move: { san: '', uci: '' },
+  evaluation: { type: 'cp', value: 0 },
+  classification,
+  suggestedMove: { san: '', uci: '' },
+  phase,
+});
 
 describe('ChessService', () => {
   let service: ChessService;
@@ -15,4 +33,145 @@ describe('ChessService', () => {
   it('should be defined', () => {
     expect(service).toBeDefined();
   });
+
+  it('breaks accuracy and classifications down by phase', () => {
+    const report = service.formatAnalysisReport(
+      [
+        ply('book', 'opening'),
+        ply('book', 'opening'),
+        ply('best', 'middlegame'),
+        ply('blunder', 'middlegame'),
+        ply('mistake', 'endgame'),
+      ],
+      80,
+      60,
+      [100, 100, 90, 20, 50],
+      { opening: null, ply: null, leftTheoryAtPly: 1 },
+      service.parsePgnHeaders(''),
+      null,
+      {} as PerformanceReport,
+      {} as GameSummary,
+      {} as SearchReport,
+      { adapter: 'wasm', name: 'Stockfish 16', version: '16' },
+    );
+
+    expect(report.phases.opening.accuracies).toEqual({
+      white: 100,
+      black: 100,
+    });
+    expect(report.phases.middlegame.accuracies).toEqual({
+      white: 90,
+      black: 20,
+    });
+    // Las negras no jugaron en el final
+    expect(report.phases.endgame.accuracies).toEqual({
+      white: 50,
+      black: null,
+    });
+    expect(report.phases.middlegame.classifications.black.blunder).toBe(1);
+    expect(report.phases.endgame.classifications.white.mistake).toBe(1);
+  });
+
+  it('splits a multi-game PGN into single games', () => {
+    const games = service.splitPgn(
+      [
+        '[White "a"]',
+        '[Black "b"]',
+        '',
+        '1. e4 {[%clk 0:02:59.9]} e5 1-0',
+        '',
+        '',
+        '[White "c"]',
+        '[Black "d"]',
+        '',
+        '1. d4 d5',
+        '2. c4 0-1',
+        '',
+      ].join('\r\n'),
+    );
+
+    expect(games).toEqual([
+      '[White "a"]\n[Black "b"]\n\n1. e4 {[%clk 0:02:59.9]} e5 1-0',
+      '[White "c"]\n[Black "d"]\n\n1. d4 d5\n2. c4 0-1',
+    ]);
+  });
+
+  it('reads the Seven Tag Roster and common extra tags', () => {
+    const { positions, metadata } = service.parsePgn(
+      [
+        '[Event "Live Chess"]',
+        '[Site "Chess.com"]',
+        '[Date "2024.03.05"]',
+        '[Round "?"]',
+        '[White "hikaru"]',
+        '[Black "Magnus \\"DrNykterstein\\" Carlsen"]',
+        '[Result "1-0"]',
+        '[WhiteElo "3300"]',
+        '[BlackElo "?"]',
+        '[TimeControl "180+2"]',
+        '[ECO "C50"]',
+        '[Termination "hikaru won by resignation"]',
+        '[Link "https://www.chess.com/game/live/1"]',
+        '',
+        '1. e4 e5 2. Nf3 1-0',
+      ].join('\n'),
+    );
+
+    expect(positions).toHaveLength(3);
+    expect(metadata).toEqual({
+      event: 'Live Chess',
+      site: 'Chess.com',
+      date: '2024.03.05',
+      round: null,
+      white: 'hikaru',
+      black: 'Magnus "DrNykterstein" Carlsen',
+      result: '1-0',
+      whiteElo: 3300,
+      blackElo: null,
+      timeControl: '180+2',
+      eco: 'C50',
+      termination: 'hikaru won by resignation',
+      link: 'https://www.chess.com/game/live/1',
+    });
+  });
+
+  it('ignores malformed or missing headers instead of failing', () => {
+    const malformed = service.parsePgn(
+      '[White "hikaru"]\n[Black "unterminated]\n[Garbage\n[Result "2-0"]\n\n1. e4 e5 *',
+    );
+    expect(malformed.positions).toHaveLength(2);
+    expect(malformed.metadata).toMatchObject({
+      white: 'hikaru',
+      black: null,
+      result: null,
+    });
+
+    const bare = service.parsePgn('1. d4 d5');
+    expect(bare.positions).toHaveLength(2);
+    expect(Object.values(bare.metadata).every((value) => value === null)).toBe(
+      true,
+    );
+  });
+
+  it('reads clocks from the main line and derives the time spent', () => {
+    const { positions } = service.parsePgn(
+      [
+        '[TimeControl "180+2"]',
+        '',
+        '1. e4 {[%clk 0:03:00]} 1... e5 {[%clk 0:02:55.5]}',
+        '2. Nf3 {[%clk 0:02:52]} (2. f4 {[%clk 0:00:01]} exf4) 2... Nc6 $1',
+        '3. Bc4 {[%clk 0:02:40]} *',
+      ].join('\n'),
+    );
+
+    expect(
+      positions.map(({ clock, timeSpent }) => ({ clock, timeSpent })),
+    ).toEqual([
+      { clock: 180, timeSpent: 2 },
+      { clock: 175.5, timeSpent: 6.5 },
+      { clock: 172, timeSpent: 10 },
+      { clock: undefined, timeSpent: undefined },
+      { clock: 160, timeSpent: 14 },
+    ]);
+  });
 });
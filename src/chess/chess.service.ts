@@ -1,98 +1,197 @@
-import { Injectable, NotFoundException } from '@nestjs/common';
-import { HttpService } from '@nestjs/axios';
-import { lastValueFrom } from 'rxjs';
+import { Injectable } from '@nestjs/common';
 import { Chess } from 'chess.js';
-import { Position, Classification, EvaluatedPosition, Report } from '../interfaces/analysis.interfaces';
+import { Position, Classification, EvaluatedPosition, Report, GamePhase, PhaseReport, OpeningMatch, GameMetadata, ParsedGame, TimeReport, PerformanceReport, GameSummary, SearchReport } from '../interfaces/analysis.interfaces';
+import { EngineInfo } from '../interfaces/engine.interfaces';
 import { EvaluationUtils } from './evaluation.util';
 
-interface ArchivesResponse {
-  archives: string[];
-}
-
-interface GamesResponse {
-  games: string[];
-}
+// [%clk 0:04:32] o [%clk 0:00:09.8]
+const CLOCK_REGEX = /\[%clk\s+(\d+):(\d{1,2}):(\d{1,2}(?:\.\d+)?)\]/;
 
 @Injectable()
 export class ChessService {
 
   private chess = new (Chess as any)();
 
-  constructor(
-    private readonly httpService: HttpService,
-  ) { }
-
-  async getPlayerArchives(username: string): Promise<string[]> {
-    const url = `https://api.chess.com/pub/player/${username}/games/archives`;
-    try {
-      const response = await lastValueFrom(this.httpService.get<ArchivesResponse>(url));
-      return response.data.archives;
-    } catch (error) {
-      throw new NotFoundException('No se pudieron obtener los archivos del jugador.');
-    }
-  }
+  /**
+   * Separa un PGN con varias partidas (como el mensual de chess.com) en partidas sueltas.
+   * Una partida nueva empieza en la primera cabecera que sigue al texto de jugadas.
+   */
+  splitPgn(pgn: string): string[] {
+    const games: string[] = [];
+    let current: string[] = [];
+    let inMoves = false;
 
-  async getGamesFromMonth(username: string, year: number, month: number): Promise<any[]> {
-    const url = `https://api.chess.com/pub/player/${username}/games/${year}/${month.toString().padStart(2, '0')}`;
-    try {
-      const response = await lastValueFrom(this.httpService.get<GamesResponse>(url));
-      return response.data.games;
-    } catch (error) {
-      throw new NotFoundException('No se pudieron obtener las partidas para el mes especificado.');
+    for (const line of pgn.replace(/\r\n?/g, '\n').split('\n')) {
+      const isHeader = /^\s*\[\w+\s+".*"\]\s*$/.test(line);
+      if (isHeader && inMoves) {
+        games.push(current.join('\n').trim());
+        current = [];
+        inMoves = false;
+      } else if (!isHeader && line.trim()) {
+        inMoves = true;
+      }
+      current.push(line);
     }
-  }
 
-  async getPGN(username: string, year: number, month: number): Promise<string> {
-    const url = `https://api.chess.com/pub/player/${username}/games/${year}/${month.toString().padStart(2, '0')}/pgn`;
-    try {
-      const response = await lastValueFrom(this.httpService.get<string>(url));
-      return response.data;
-    } catch (error) {
-      throw new NotFoundException('No se pudo obtener el archivo PGN.');
-    }
+    const last = current.join('\n').trim();
+    if (last) games.push(last);
+    return games;
   }
 
-  parsePgn(pgn: string): Position[] {
-    this.chess.loadPgn(pgn);
+  /**
+   * Jugadas y cabeceras de una partida. Las cabeceras mal formadas se ignoran:
+   * las jugadas se cargan sin ellas.
+   */
+  parsePgn(pgn: string): ParsedGame {
+    const { headerLines, movetext } = this.splitHeaderBlock(pgn);
+    this.chess.loadPgn(movetext);
     const positions: Position[] = [];
     const history = this.chess.history({ verbose: true });
     this.chess.reset();
 
-    for (const move of history) {
+    const metadata = this.toMetadata(headerLines);
+    const clocks = this.extractMoveComments(movetext).map((comment) => this.parseClock(comment));
+    const { base, increment } = this.parseTimeControl(metadata.timeControl);
+
+    history.forEach((move, i) => {
       this.chess.move(move.san);
+      const clock = clocks[i];
+      // El reloj anterior del mismo bando; en su primera jugada, el tiempo inicial
+      const previousClock = i >= 2 ? clocks[i - 2] : base;
       positions.push({
         fen: this.chess.fen(),
         move: {
           san: move.san,
           uci: move.from + move.to + (move.promotion || ''),
         },
+        ...(clock !== undefined && { clock }),
+        ...(clock !== undefined && previousClock !== undefined && {
+          timeSpent: Math.max(0, Math.round((previousClock + increment - clock) * 10) / 10),
+        }),
       });
+    });
+    return { positions, metadata };
+  }
+
+  /**
+   * Solo las cabeceras, sin validar las jugadas.
+   */
+  parsePgnHeaders(pgn: string): GameMetadata {
+    return this.toMetadata(this.splitHeaderBlock(pgn).headerLines);
+  }
+
+  /**
+   * Todas las etiquetas bien formadas, en el orden del PGN y sin interpretar.
+   */
+  parsePgnTags(pgn: string): Record<string, string> {
+    return this.readTags(this.splitHeaderBlock(pgn).headerLines);
+  }
+
+  /**
+   * Las cabeceras son las líneas iniciales que empiezan por "[", estén bien formadas o no.
+   */
+  private splitHeaderBlock(pgn: string): { headerLines: string[]; movetext: string } {
+    const lines = pgn.replace(/\r\n?/g, '\n').split('\n');
+    let start = 0;
+    while (start < lines.length && (!lines[start].trim() || lines[start].trim().startsWith('['))) {
+      start++;
     }
-    return positions;
+    return {
+      headerLines: lines.slice(0, start).filter((line) => line.trim()),
+      movetext: lines.slice(start).join('\n'),
+    };
   }
 
   /**
-   * Clasifica el movimiento basado en la pérdida de Centipawns.
-   * 
-   * @param cpLoss - Pérdida en centipawns (siempre >= 0, calculado afuera)
-   * @param isBestMove - Si el movimiento jugado coincide con el mejor del motor
+   * Comentarios de la línea principal, indexados por media jugada. Los de las variantes se ignoran.
    */
-  classifyMove(cpLoss: number, isBestMove: boolean): Classification {
-    // Si el jugador jugó exactamente la mejor jugada
-    if (isBestMove) return 'best';
-
-    // Debug logging
-    console.log(`[ClassifyMove] cpLoss: ${cpLoss}, isBest: ${isBestMove}`);
-
-    // Clasificación basada en pérdida de centipawns (CP)
-    // Estos umbrales son más claros y fáciles de debuggear
-    if (cpLoss <= 10) return 'excellent';      // Casi perfecto
-    if (cpLoss <= 25) return 'good';           // Pequeña pérdida
-    if (cpLoss <= 50) return 'inaccuracy';     // Pérdida notable
-    if (cpLoss <= 100) return 'inaccuracy';    // Imprecisión clara
-    if (cpLoss <= 200) return 'mistake';       // Error significativo
-    if (cpLoss <= 350) return 'mistake';       // Error grave
-    return 'blunder';                          // Error crítico (>350cp)
+  private extractMoveComments(movetext: string): string[] {
+    const comments: string[] = [];
+    let ply = 0;
+    let depth = 0;
+    let i = 0;
+
+    const addComment = (text: string) => {
+      if (depth === 0 && ply > 0) comments[ply - 1] = (comments[ply - 1] ?? '') + text;
+    };
+
+    while (i < movetext.length) {
+      const char = movetext[i];
+      if (char === '{' || char === ';') {
+        const end = movetext.indexOf(char === '{' ? '}' : '\n', i);
+        const close = end === -1 ? movetext.length : end;
+        addComment(movetext.slice(i + 1, close));
+        i = close + 1;
+      } else if (char === '(' || char === ')') {
+        depth += char === '(' ? 1 : -1;
+        i++;
+      } else if (/\s/.test(char)) {
+        i++;
+      } else {
+        const token = movetext.slice(i).match(/^[^\s{}();]+/)![0];
+        i += token.length;
+        // "1." y "1..." no son jugadas; "1.e4" sí
+        const san = token.replace(/^\d+\.+/, '');
+        if (depth === 0 && san && !/^(\$\d+|1-0|0-1|1\/2-1\/2|\*)$/.test(san)) ply++;
+      }
+    }
+    return comments;
+  }
+
+  private parseClock(comment: string | undefined): number | undefined {
+    const match = comment?.match(CLOCK_REGEX);
+    if (!match) return undefined;
+    const [, hours, minutes, seconds] = match;
+    return Number(hours) * 3600 + Number(minutes) * 60 + Number(seconds);
+  }
+
+  /**
+   * "180+2" → 180 s y 2 s de incremento. Sin tiempo inicial conocido ("-", diarias...) base es undefined.
+   */
+  private parseTimeControl(timeControl: string | null): { base?: number; increment: number } {
+    const match = timeControl?.match(/^(\d+)(?:\+(\d+))?$/);
+    return match ? { base: Number(match[1]), increment: Number(match[2] ?? 0) } : { increment: 0 };
+  }
+
+  private readTags(headerLines: string[]): Record<string, string> {
+    const tags: Record<string, string> = {};
+    for (const line of headerLines) {
+      for (const [, name, value] of line.matchAll(/\[\s*(\w+)\s+"((?:[^"\\]|\\.)*)"\s*\]/g)) {
+        tags[name] = value.replace(/\\(["\\])/g, '$1').trim();
+      }
+    }
+    return tags;
+  }
+
+  private toMetadata(headerLines: string[]): GameMetadata {
+    const tags = this.readTags(headerLines);
+
+    const text = (name: string) => {
+      const value = tags[name];
+      // "?" y "????.??.??" significan desconocido
+      return value && !/^[?.]+$/.test(value) ? value : null;
+    };
+    const elo = (name: string) => {
+      const value = parseInt(tags[name] ?? '', 10);
+      return Number.isInteger(value) && value > 0 ? value : null;
+    };
+    const result = tags.Result;
+
+    return {
+      event: text('Event'),
+      site: text('Site'),
+      date: text('Date'),
+      round: text('Round'),
+      white: text('White'),
+      black: text('Black'),
+      result: ['1-0', '0-1', '1/2-1/2', '*'].includes(result) ? (result as GameMetadata['result']) : null,
+      whiteElo: elo('WhiteElo'),
+      blackElo: elo('BlackElo'),
+      timeControl: text('TimeControl'),
+      eco: text('ECO'),
+      termination: text('Termination'),
+      link: text('Link'),
+    };
   }
 
   /**
@@ -106,21 +205,24 @@ export class ChessService {
 
   /**
    * Formatea el reporte final con las clasificaciones y precisiones ya calculadas.
+   * moveAccuracies va alineado con las posiciones (null = no cuenta para la precisión).
    */
   formatAnalysisReport(
     evaluatedPositions: EvaluatedPosition[],
     whiteAccuracy: number,
-    blackAccuracy: number
+    blackAccuracy: number,
+    moveAccuracies: (number | null)[],
+    opening: OpeningMatch,
+    metadata: GameMetadata,
+    time: TimeReport | null,
+    performance: PerformanceReport,
+    summary: GameSummary,
+    search: SearchReport,
+    engine: EngineInfo
   ): Report {
     // Contar clasificaciones para cada color
-    const whiteClassifications: Record<Classification, number> = {
-      brilliant: 0, great: 0, best: 0, excellent: 0, good: 0,
-      inaccuracy: 0, mistake: 0, blunder: 0, book: 0, forced: 0, miss: 0
-    };
-    const blackClassifications: Record<Classification, number> = {
-      brilliant: 0, great: 0, best: 0, excellent: 0, good: 0,
-      inaccuracy: 0, mistake: 0, blunder: 0, book: 0, forced: 0, miss: 0
-    };
+    const whiteClassifications = this.emptyClassificationCounts();
+    const blackClassifications = this.emptyClassificationCounts();
 
     evaluatedPositions.forEach((pos, i) => {
       const isWhite = i % 2 === 0;
@@ -130,6 +232,7 @@ export class ChessService {
 
     return {
       positions: evaluatedPositions,
+      expectedScores: evaluatedPositions.map(pos => pos.expectedScore ?? null),
       accuracies: {
         white: whiteAccuracy,
         black: blackAccuracy
@@ -137,7 +240,57 @@ export class ChessService {
       classifications: {
         white: whiteClassifications,
         black: blackClassifications
-      }
+      },
+      phases: {
+        opening: this.buildPhaseReport('opening', evaluatedPositions, moveAccuracies),
+        middlegame: this.buildPhaseReport('middlegame', evaluatedPositions, moveAccuracies),
+        endgame: this.buildPhaseReport('endgame', evaluatedPositions, moveAccuracies),
+      },
+      opening,
+      metadata,
+      time,
+      performance,
+      summary,
+      search,
+      engine
+    };
+  }
+
+  /**
+   * Precisión y clasificaciones de cada color limitadas a las jugadas de una fase.
+   */
+  private buildPhaseReport(
+    phase: GamePhase,
+    evaluatedPositions: EvaluatedPosition[],
+    moveAccuracies: (number | null)[]
+  ): PhaseReport {
+    const classifications = {
+      white: this.emptyClassificationCounts(),
+      black: this.emptyClassificationCounts(),
+    };
+    const accuracies = { white: [] as number[], black: [] as number[] };
+
+    evaluatedPositions.forEach((pos, i) => {
+      if (pos.phase !== phase) return;
+      const color = i % 2 === 0 ? 'white' : 'black';
+      classifications[color][pos.classification]++;
+      const accuracy = moveAccuracies[i];
+      if (accuracy !== null && accuracy !== undefined) accuracies[color].push(accuracy);
+    });
+
+    return {
+      accuracies: {
+        white: accuracies.white.length ? this.calculateGameAccuracy(accuracies.white) : null,
+        black: accuracies.black.length ? this.calculateGameAccuracy(accuracies.black) : null,
+      },
+      classifications,
+    };
+  }
+
+  private emptyClassificationCounts(): Record<Classification, number> {
+    return {
+      brilliant: 0, great: 0, best: 0, excellent: 0, good: 0,
+      inaccuracy: 0, mistake: 0, blunder: 0, book: 0, forced: 0, miss: 0
     };
   }
 }
\ No newline at end of file
@@ -0,0 +1,41 @@
+import { EvaluationUtils } from './evaluation.util';
+
+describe('EvaluationUtils', () => {
+  describe('getExpectedScore', () => {
+    it('uses W + D/2 from the engine WDL when present', () => {
+      expect(
+        EvaluationUtils.getExpectedScore(
+          { type: 'cp', value: 900 },
+          { win: 200, draw: 700, loss: 100 },
+        ),
+      ).toBeCloseTo(0.55);
+    });
+
+    it('falls back to the centipawn sigmoid without WDL', () => {
+      expect(EvaluationUtils.getExpectedScore({ type: 'cp', value: 0 })).toBe(
+        0.5,
+      );
+      expect(
+        EvaluationUtils.getExpectedScore({ type: 'cp', value: 300 }),
+      ).toBeCloseTo(EvaluationUtils.getWinProbability(300));
+    });
+
+    it('treats mates as certain results', () => {
+      expect(EvaluationUtils.getExpectedScore({ type: 'mate', value: 3 })).toBe(
+        1,
+      );
+      expect(
+        EvaluationUtils.getExpectedScore({ type: 'mate', value: -2 }),
+      ).toBe(0);
+      // mate 0: the side to move is already checkmated
+      expect(EvaluationUtils.getExpectedScore({ type: 'mate', value: 0 })).toBe(
+        0,
+      );
+    });
+  });
+
+  it('never reports a negative expected-score loss', () => {
+    expect(EvaluationUtils.getExpectedScoreLoss(0.6, 0.45)).toBeCloseTo(0.15);
+    expect(EvaluationUtils.getExpectedScoreLoss(0.4, 0.5)).toBe(0);
+  });
+});
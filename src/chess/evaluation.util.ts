@@ -1,3 +1,5 @@
+import { Evaluation } from '../interfaces/analysis.interfaces';
+import { Wdl } from '../interfaces/engine.interfaces';
 
 export class EvaluationUtils {
 
@@ -11,22 +13,32 @@ export class EvaluationUtils {
   }
 
   /**
-   * Calcula la pérdida de probabilidad entre dos posiciones.
-   * Siempre devuelve un valor positivo (0.0 a 1.0).
+   * Puntuación esperada (0.0 a 1.0) del bando que mueve: W + D/2.
+   * Usa el WDL del motor cuando está disponible; si no, mate = 1/0 y la
+   * sigmoide sobre centipawns como respaldo.
    */
-  static getProbabilityLoss(
-    prevEvalCp: number,
-    currentEvalCp: number,
-    isWhiteTurn: boolean // De quién fue el turno
-  ): number {
-    // Convertimos evaluaciones relativas a absolutas para el cálculo
-    // Si es turno de blancas, queremos maximizar. Si es negras, minimizar (pero la sigmoide espera CP positivos para ganar)
+  static getExpectedScore(evaluation: Evaluation, wdl?: Wdl): number {
+    if (wdl) {
+      const total = wdl.win + wdl.draw + wdl.loss;
+      if (total > 0) {
+        return (wdl.win + wdl.draw / 2) / total;
+      }
+    }
 
-    // Normalizamos: Probabilidad de ganar para el jugador que movió
-    const prevProb = this.getWinProbability(isWhiteTurn ? prevEvalCp : -prevEvalCp);
-    const currentProb = this.getWinProbability(isWhiteTurn ? currentEvalCp : -currentEvalCp);
+    if (evaluation.type === 'mate') {
+      // mate 0 = el bando que mueve ya está mateado
+      return evaluation.value > 0 ? 1 : 0;
+    }
 
-    return Math.max(0, prevProb - currentProb);
+    return this.getWinProbability(evaluation.value);
+  }
+
+  /**
+   * Calcula la pérdida de puntuación esperada de una jugada.
+   * Ambas puntuaciones desde el bando que movió; siempre devuelve 0.0 a 1.0.
+   */
+  static getExpectedScoreLoss(bestScore: number, playedScore: number): number {
+    return Math.max(0, bestScore - playedScore);
   }
 
   /**
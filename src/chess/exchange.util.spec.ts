@@ -0,0 +1,115 @@
+import { Chess } from 'chess.js';
+import { ExchangeUtils } from './exchange.util';
+
+const fenAfter = (moves: string[]) => {
+  const chess = new Chess();
+  moves.forEach((move) => chess.move(move));
+  return chess.fen();
+};
+
+// Italiana con 3...Nf6: Bxf7+ entrega el alfil por un peón
+const ITALIAN = fenAfter(['e4', 'e5', 'Nf3', 'Nc6', 'Bc4', 'Nf6']);
+// 4.Nc3: truco de la horquilla, 4...Nxe4 5.Nxe4 d5 recupera la pieza
+const FORK_TRICK = fenAfter(['e4', 'e5', 'Nf3', 'Nc6', 'Bc4', 'Nf6', 'Nc3']);
+// 1.e4 d5
+const SCANDINAVIAN = fenAfter(['e4', 'd5']);
+
+describe('ExchangeUtils', () => {
+  describe('see', () => {
+    it('wins an undefended piece', () => {
+      const chess = new Chess(fenAfter(['e4', 'd5', 'exd5']));
+      expect(ExchangeUtils.see(chess, 'd5')).toBe(1);
+    });
+
+    it('does not capture a defended pawn with a piece', () => {
+      const chess = new Chess(fenAfter(['e4', 'e5', 'Nf3', 'd6']));
+      expect(ExchangeUtils.see(chess, 'e5')).toBe(0);
+    });
+
+    it('is zero on empty squares', () => {
+      expect(ExchangeUtils.see(new Chess(), 'e4')).toBe(0);
+    });
+  });
+
+  describe('getMaterialGiven', () => {
+    it('nets out what the move captured', () => {
+      expect(ExchangeUtils.getMaterialGiven(ITALIAN, 'c4f7')).toEqual({
+        material: 2,
+        square: 'f7',
+      });
+    });
+
+    it('does not blame the move for a piece that was already hanging', () => {
+      // 5.Nxf7 ya atacaba la torre de h8; 5...Qxg2 no la entrega
+      const fen = fenAfter([
+        'e4',
+        'e5',
+        'Nf3',
+        'Nc6',
+        'Bc4',
+        'Nd4',
+        'Nxe5',
+        'Qg5',
+        'Nxf7',
+      ]);
+      expect(ExchangeUtils.getMaterialGiven(fen, 'g5g2').material).toBeLessThan(
+        2,
+      );
+    });
+
+    it('sees nothing in an even trade', () => {
+      expect(
+        ExchangeUtils.getMaterialGiven(SCANDINAVIAN, 'e4d5').material,
+      ).toBe(0);
+    });
+  });
+
+  describe('analyzeSacrifice', () => {
+    it('confirms a sacrifice the engine line accepts', () => {
+      expect(
+        ExchangeUtils.analyzeSacrifice(ITALIAN, [
+          'c4f7',
+          'e8f7',
+          'f3g5',
+          'f7g8',
+        ]),
+      ).toEqual({
+        isSacrifice: true,
+        material: 2,
+        square: 'f7',
+        reason: 'accepted',
+      });
+    });
+
+    it('counts an offer the engine line declines', () => {
+      expect(
+        ExchangeUtils.analyzeSacrifice(ITALIAN, ['c4f7', 'e8e7']),
+      ).toMatchObject({ isSacrifice: true, reason: 'declined' });
+    });
+
+    it('rejects material that is won back right away', () => {
+      expect(
+        ExchangeUtils.analyzeSacrifice(FORK_TRICK, [
+          'f6e4',
+          'c3e4',
+          'd7d5',
+          'c4d3',
+          'd5e4',
+        ]),
+      ).toMatchObject({ isSacrifice: false, reason: 'won-back' });
+    });
+
+    it('is not a sacrifice when nothing can be won', () => {
+      expect(
+        ExchangeUtils.analyzeSacrifice(SCANDINAVIAN, ['e4d5', 'd8d5']),
+      ).toEqual({ isSacrifice: false, material: 0, reason: 'none' });
+    });
+
+    it('relies on SEE alone without an engine continuation', () => {
+      expect(ExchangeUtils.analyzeSacrifice(ITALIAN, ['c4f7'])).toMatchObject({
+        isSacrifice: true,
+        reason: 'unconfirmed',
+      });
+    });
+  });
+});
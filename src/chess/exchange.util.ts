@@ -0,0 +1,184 @@
+import { Chess, Color, PieceSymbol, Square } from 'chess.js';
+import { SacrificeCheck } from '../interfaces/analysis.interfaces';
+
+const PIECE_VALUES: Record<PieceSymbol, number> = {
+  p: 1,
+  n: 3,
+  b: 3,
+  r: 5,
+  q: 9,
+  k: 0,
+};
+
+// A partir de aquí (en peones) cuenta como sacrificio: pieza por peón, calidad...
+const MIN_SACRIFICE = 2;
+// Medias jugadas de la línea del motor, tras el sacrificio, para ver si se recupera
+const RECOVERY_PLIES = 4;
+
+export class ExchangeUtils {
+  /**
+   * Static Exchange Evaluation: material que gana el bando que mueve
+   * capturando en `square`, si ambos bandos recapturan siempre con la pieza
+   * de menor valor y pueden parar cuando no les conviene. Usa jugadas legales,
+   * así que respeta clavadas y jaques.
+   */
+  static see(chess: Chess, square: Square): number {
+    const target = chess.get(square);
+    if (!target) return 0;
+
+    const captures = chess
+      .moves({ verbose: true })
+      .filter(
+        (move) =>
+          move.to === square &&
+          move.captured &&
+          (!move.promotion || move.promotion === 'q'),
+      );
+    if (captures.length === 0) return 0;
+
+    const attacker = captures.reduce((least, move) =>
+      PIECE_VALUES[move.piece] < PIECE_VALUES[least.piece] ? move : least,
+    );
+
+    chess.move(attacker);
+    const gain = PIECE_VALUES[target.type] - this.see(chess, square);
+    chess.undo();
+
+    return Math.max(0, gain);
+  }
+
+  /**
+   * Material que el bando que movió deja al rival tras `playedUci`: la mejor
+   * captura por SEE sobre cualquiera de sus piezas, menos lo que capturó.
+   * Una pieza que ya colgaba antes y no se ha movido no la entrega esta jugada.
+   */
+  static getMaterialGiven(
+    previousFen: string,
+    playedUci: string,
+  ): { material: number; square?: Square } {
+    const chess = new Chess(previousFen);
+    const mover = chess.turn();
+    const hangingBefore = this.getHangingBeforeMove(previousFen);
+    const move = chess.move(this.toMove(playedUci));
+    const captured = move.captured ? PIECE_VALUES[move.captured] : 0;
+
+    let best: { gain: number; square?: Square } = { gain: 0 };
+    for (const [square, see] of this.getCaptureGains(chess, mover)) {
+      const gain =
+        see - (square === move.to ? 0 : (hangingBefore.get(square) ?? 0));
+      if (gain > best.gain) best = { gain, square };
+    }
+
+    return { material: best.gain - captured, square: best.square };
+  }
+
+  /**
+   * Lo que el rival ganaría en cada casilla si le tocara mover en la posición previa.
+   */
+  private static getHangingBeforeMove(fen: string): Map<Square, number> {
+    const fields = fen.split(' ');
+    const mover = fields[1] as Color;
+    fields[1] = mover === 'w' ? 'b' : 'w';
+    fields[3] = '-';
+
+    try {
+      return this.getCaptureGains(new Chess(fields.join(' ')), mover);
+    } catch {
+      // Si el bando que mueve está en jaque no hay "jugada nula" válida
+      return new Map();
+    }
+  }
+
+  /**
+   * SEE del bando que mueve sobre cada pieza de `victim` (sin el rey).
+   */
+  private static getCaptureGains(
+    chess: Chess,
+    victim: Color,
+  ): Map<Square, number> {
+    const gains = new Map<Square, number>();
+    for (const row of chess.board()) {
+      for (const piece of row) {
+        if (!piece || piece.color !== victim || piece.type === 'k') continue;
+        gains.set(piece.square, this.see(chess, piece.square));
+      }
+    }
+    return gains;
+  }
+
+  /**
+   * Decide si la jugada es un sacrificio real: SEE dice que el rival gana
+   * material y la variante principal (que empieza por la jugada) no lo
+   * recupera en las siguientes RECOVERY_PLIES medias jugadas.
+   */
+  static analyzeSacrifice(previousFen: string, pv: string[]): SacrificeCheck {
+    const { material, square } = this.getMaterialGiven(previousFen, pv[0]);
+    if (material < MIN_SACRIFICE) {
+      return {
+        isSacrifice: false,
+        material: Math.max(0, material),
+        reason: 'none',
+      };
+    }
+
+    const balances = this.getBalances(
+      previousFen,
+      pv.slice(0, 1 + RECOVERY_PLIES),
+    );
+    if (balances.length < 2) {
+      return { isSacrifice: true, material, square, reason: 'unconfirmed' };
+    }
+    const lowest = Math.min(...balances.slice(1));
+    const final = balances[balances.length - 1];
+
+    if (lowest > -MIN_SACRIFICE) {
+      return { isSacrifice: true, material, square, reason: 'declined' };
+    }
+    if (final > -MIN_SACRIFICE) {
+      return { isSacrifice: false, material, square, reason: 'won-back' };
+    }
+    return { isSacrifice: true, material, square, reason: 'accepted' };
+  }
+
+  /**
+   * Balance de material tras cada jugada de la línea, desde el bando que
+   * mueve en `fen` y relativo a la posición inicial. Se corta en la primera
+   * jugada ilegal.
+   */
+  private static getBalances(fen: string, line: string[]): number[] {
+    const chess = new Chess(fen);
+    const mover = chess.turn();
+    const initial = this.getBalance(chess, mover);
+    const balances: number[] = [];
+
+    try {
+      for (const uci of line) {
+        chess.move(this.toMove(uci));
+        balances.push(this.getBalance(chess, mover) - initial);
+      }
+    } catch {
+      // chess.js lanza con jugadas ilegales: nos quedamos con el prefijo válido
+    }
+    return balances;
+  }
+
+  private static getBalance(chess: Chess, color: Color): number {
+    let balance = 0;
+    for (const row of chess.board()) {
+      for (const piece of row) {
+        if (!piece) continue;
+        const value = PIECE_VALUES[piece.type];
+        balance += piece.color === color ? value : -value;
+      }
+    }
+    return balance;
+  }
+
+  private static toMove(uci: string) {
+    return {
+      from: uci.substring(0, 2),
+      to: uci.substring(2, 4),
+      promotion: uci.length > 4 ? uci[4].toLowerCase() : undefined,
+    };
+  }
+}
@@ -0,0 +1,61 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { GamePhaseService } from './game-phase.service';
+import { OpeningsService } from './openings.service';
+import { Position } from '../interfaces/analysis.interfaces';
+
+// 1.e4 (en el libro)
+const BOOK = 'rnbqkbnr/pppppppp/8/8/4P3/8/PPPP1PPP/RNBQKBNR b KQkq - 0 1';
+// 1.a4 h5 2.h4 a5: fuera del libro pero sin desarrollar
+const UNDEVELOPED =
+  'rnbqkbnr/1pppppp1/8/p6p/P6P/8/1PPPPPP1/RNBQKBNR w KQkq - 0 3';
+// Gambito de dama con las piezas menores ya fuera
+const DEVELOPED =
+  'r2q1rk1/pp2bppp/2n1pn2/3p4/3P4/2NBPN2/PP3PPP/R2Q1RK1 w - - 0 10';
+// Final de torres
+const ROOK_ENDGAME = '8/5pk1/6p1/8/3R4/6P1/r4PK1/8 w - - 0 40';
+
+const at = (fen: string): Position => ({ fen, move: { san: '', uci: '' } });
+
+describe('GamePhaseService', () => {
+  let service: GamePhaseService;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [GamePhaseService, OpeningsService],
+    }).compile();
+    await module.init(); // carga el libro de aperturas
+
+    service = module.get<GamePhaseService>(GamePhaseService);
+  });
+
+  it('keeps book positions in the opening', () => {
+    expect(service.getPhase(BOOK)).toBe('opening');
+  });
+
+  it('stays in the opening out of book until pieces are developed', () => {
+    expect(service.getPhase(UNDEVELOPED)).toBe('opening');
+    expect(service.getPhase(DEVELOPED)).toBe('middlegame');
+  });
+
+  it('ends the opening by move count as a fallback', () => {
+    expect(service.getPhase(UNDEVELOPED.replace(/ 3$/, ' 16'))).toBe(
+      'middlegame',
+    );
+  });
+
+  it('detects endgames by remaining material', () => {
+    expect(service.getPhase(ROOK_ENDGAME)).toBe('endgame');
+  });
+
+  it('never moves back to an earlier phase', () => {
+    expect(
+      service.detectPhases([
+        at(BOOK),
+        at(DEVELOPED),
+        at(UNDEVELOPED),
+        at(ROOK_ENDGAME),
+        at(DEVELOPED),
+      ]),
+    ).toEqual(['opening', 'middlegame', 'middlegame', 'endgame', 'endgame']);
+  });
+});
@@ -0,0 +1,98 @@
+import { Injectable } from '@nestjs/common';
+import { Chess, Color, PieceSymbol, Square } from 'chess.js';
+import { GamePhase, Position } from '../interfaces/analysis.interfaces';
+import { OpeningsService } from './openings.service';
+
+const PHASE_ORDER: GamePhase[] = ['opening', 'middlegame', 'endgame'];
+const PIECE_VALUES = { n: 3, b: 3, r: 5, q: 9 };
+
+const MINOR_HOMES: Record<Color, [Square, PieceSymbol][]> = {
+  w: [
+    ['b1', 'n'],
+    ['g1', 'n'],
+    ['c1', 'b'],
+    ['f1', 'b'],
+  ],
+  b: [
+    ['b8', 'n'],
+    ['g8', 'n'],
+    ['c8', 'b'],
+    ['f8', 'b'],
+  ],
+};
+
+// Fin de la apertura: quedan como mucho 10 piezas (sin peones ni reyes)...
+const MIDDLEGAME_MAX_PIECES = 10;
+// ...o ambos bandos tienen como mucho una pieza menor sin desarrollar...
+const DEVELOPED_MAX_UNDEVELOPED = 1;
+// ...o ya se pasó de esta jugada fuera del libro
+const OPENING_MAX_MOVE = 15;
+// Final: 6 piezas o menos, o poco material pesado (p. ej. dama y pieza menor por bando)
+const ENDGAME_MAX_PIECES = 6;
+const ENDGAME_MAX_MATERIAL = 26;
+
+/**
+ * Detecta la fase de la partida en cada jugada. Las fases solo avanzan:
+ * una vez en el medio juego no se vuelve a la apertura.
+ */
+@Injectable()
+export class GamePhaseService {
+  constructor(private readonly openingsService: OpeningsService) {}
+
+  /**
+   * Fase de cada posición (tras la jugada), en el mismo orden que `positions`.
+   */
+  detectPhases(positions: Position[]): GamePhase[] {
+    let current = 0;
+    return positions.map(({ fen }) => {
+      current = Math.max(current, PHASE_ORDER.indexOf(this.getPhase(fen)));
+      return PHASE_ORDER[current];
+    });
+  }
+
+  /**
+   * Fase de una posición aislada, sin tener en cuenta las anteriores.
+   */
+  getPhase(fen: string): GamePhase {
+    const chess = new Chess(fen);
+    let pieces = 0;
+    let material = 0;
+
+    for (const row of chess.board()) {
+      for (const piece of row) {
+        if (!piece || piece.type === 'p' || piece.type === 'k') continue;
+        pieces++;
+        material += PIECE_VALUES[piece.type];
+      }
+    }
+
+    if (pieces <= ENDGAME_MAX_PIECES || material <= ENDGAME_MAX_MATERIAL) {
+      return 'endgame';
+    }
+
+    // Mientras la posición esté en el libro seguimos en la apertura
+    if (this.openingsService.getOpeningName(fen) !== null) {
+      return 'opening';
+    }
+
+    const developed =
+      this.countUndevelopedMinors(chess, 'w') <= DEVELOPED_MAX_UNDEVELOPED &&
+      this.countUndevelopedMinors(chess, 'b') <= DEVELOPED_MAX_UNDEVELOPED;
+    if (
+      pieces <= MIDDLEGAME_MAX_PIECES ||
+      developed ||
+      chess.moveNumber() > OPENING_MAX_MOVE
+    ) {
+      return 'middlegame';
+    }
+
+    return 'opening';
+  }
+
+  private countUndevelopedMinors(chess: Chess, color: Color): number {
+    return MINOR_HOMES[color].filter(([square, type]) => {
+      const piece = chess.get(square);
+      return piece?.color === color && piece.type === type;
+    }).length;
+  }
+}
@@ -0,0 +1,92 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { GameSummaryService } from './game-summary.service';
+import { EvaluatedPosition } from '../interfaces/analysis.interfaces';
+
+/**
+ * Una jugada por puntuación esperada de las blancas; `undefined` es forzada.
+ */
+const game = (scores: (number | undefined)[]): EvaluatedPosition[] =>
+  scores.map((expectedScore, ply) => ({
+    fen: '',
+    move: { san: `m${ply}`, uci: '' },
+    evaluation: { type: 'cp', value: 0 },
+    classification: expectedScore === undefined ? 'forced' : 'best',
+    suggestedMove: { san: `s${ply}`, uci: '' },
+    expectedScore,
+  }));
+
+describe('GameSummaryService', () => {
+  let service: GameSummaryService;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [GameSummaryService],
+    }).compile();
+
+    service = module.get<GameSummaryService>(GameSummaryService);
+  });
+
+  it('lists the largest swings first with the move and the suggestion', () => {
+    const summary = service.buildSummary(
+      game([0.5, 0.55, 0.3, 0.32, 0.9, 0.85, 0.2]),
+    );
+
+    expect(summary.turningPoints.map(({ ply, swing }) => [ply, swing])).toEqual(
+      [
+        [6, -0.65],
+        [4, 0.58],
+        [2, -0.25],
+      ],
+    );
+    expect(summary.turningPoints[0]).toMatchObject({
+      moveNumber: 4,
+      color: 'white',
+      move: { san: 'm6' },
+      suggestedMove: { san: 's6' },
+      expectedScoreBefore: 0.85,
+      expectedScoreAfter: 0.2,
+    });
+  });
+
+  it('finds the first move past each advantage level per side', () => {
+    const { advantages } = service.buildSummary(
+      game([0.5, 0.7, 0.6, 0.85, undefined, 0.3, 0.1, 0.04]),
+    );
+
+    expect(advantages.white.advantage?.ply).toBe(1);
+    expect(advantages.white.winning?.ply).toBe(3);
+    expect(advantages.white.decisive).toBeNull();
+    expect(advantages.black.advantage?.ply).toBe(5);
+    expect(advantages.black.winning?.ply).toBe(6);
+    expect(advantages.black.decisive).toMatchObject({
+      ply: 7,
+      moveNumber: 4,
+      color: 'black',
+    });
+  });
+
+  it('keeps the longest stretch in a worse position, through forced moves', () => {
+    const { longestWorseStretch } = service.buildSummary(
+      game([0.35, 0.45, 0.3, undefined, 0.2, 0.7, 0.5, 0.61]),
+    );
+
+    expect(longestWorseStretch.white).toMatchObject({
+      plies: 3,
+      from: { ply: 2 },
+      to: { ply: 4 },
+    });
+    expect(longestWorseStretch.black).toMatchObject({
+      plies: 1,
+      from: { ply: 5 },
+      to: { ply: 5 },
+    });
+    expect(service.buildSummary([])).toEqual({
+      turningPoints: [],
+      advantages: {
+        white: { advantage: null, winning: null, decisive: null },
+        black: { advantage: null, winning: null, decisive: null },
+      },
+      longestWorseStretch: { white: null, black: null },
+    });
+  });
+});
@@ -0,0 +1,125 @@
+import { Injectable } from '@nestjs/common';
+import {
+  AdvantageLevel,
+  EvaluatedPosition,
+  GameMoment,
+  GameSummary,
+  TurningPoint,
+  WorseStretch,
+} from '../interfaces/analysis.interfaces';
+
+const TOP_TURNING_POINTS = 5;
+// Cambios más pequeños son ruido de la evaluación, no momentos clave
+const MIN_SWING = 0.1;
+// Puntuación esperada del bando que marca cada nivel de ventaja
+const ADVANTAGE_THRESHOLDS: Record<AdvantageLevel, number> = {
+  advantage: 0.65,
+  winning: 0.8,
+  decisive: 0.95,
+};
+// Por debajo de esta puntuación esperada un bando está peor
+const WORSE_SCORE = 0.4;
+const INITIAL_SCORE = 0.5;
+
+type Color = 'white' | 'black';
+
+/**
+ * Resumen de la partida a partir de la puntuación esperada de cada jugada:
+ * dónde cambió, cuándo se decidió y cuánto sufrió cada bando.
+ */
+@Injectable()
+export class GameSummaryService {
+  buildSummary(positions: EvaluatedPosition[]): GameSummary {
+    // Sin evaluación (jugadas forzadas) la puntuación sigue como estaba
+    let previous = INITIAL_SCORE;
+    const moments = positions.map((position, ply) => {
+      const before = previous;
+      const after = position.expectedScore ?? previous;
+      previous = after;
+      return {
+        moment: this.toMoment(position, ply, before, after),
+        before,
+        after,
+      };
+    });
+
+    const turningPoints: TurningPoint[] = moments
+      .map(({ moment, before, after }) => ({ moment, swing: after - before }))
+      .filter(({ swing }) => Math.abs(swing) >= MIN_SWING)
+      .sort(
+        (a, b) =>
+          Math.abs(b.swing) - Math.abs(a.swing) || a.moment.ply - b.moment.ply,
+      )
+      .slice(0, TOP_TURNING_POINTS)
+      .map(({ moment, swing }) => ({ ...moment, swing: this.round(swing) }));
+
+    const scoreFor = (color: Color, whiteScore: number) =>
+      color === 'white' ? whiteScore : 1 - whiteScore;
+
+    const advantagesFor = (color: Color) =>
+      Object.fromEntries(
+        (Object.keys(ADVANTAGE_THRESHOLDS) as AdvantageLevel[]).map((level) => [
+          level,
+          moments.find(
+            ({ after }) =>
+              scoreFor(color, after) >= ADVANTAGE_THRESHOLDS[level],
+          )?.moment ?? null,
+        ]),
+      ) as Record<AdvantageLevel, GameMoment | null>;
+
+    const longestWorseStretchFor = (color: Color): WorseStretch | null => {
+      let longest: WorseStretch | null = null;
+      let start: number | null = null;
+      moments.forEach(({ after }, ply) => {
+        if (scoreFor(color, after) >= WORSE_SCORE) {
+          start = null;
+          return;
+        }
+        start ??= ply;
+        const plies = ply - start + 1;
+        if (!longest || plies > longest.plies) {
+          longest = {
+            plies,
+            from: moments[start].moment,
+            to: moments[ply].moment,
+          };
+        }
+      });
+      return longest;
+    };
+
+    return {
+      turningPoints,
+      advantages: {
+        white: advantagesFor('white'),
+        black: advantagesFor('black'),
+      },
+      longestWorseStretch: {
+        white: longestWorseStretchFor('white'),
+        black: longestWorseStretchFor('black'),
+      },
+    };
+  }
+
+  private toMoment(
+    position: EvaluatedPosition,
+    ply: number,
+    before: number,
+    after: number,
+  ): GameMoment {
+    return {
+      ply,
+      moveNumber: Math.floor(ply / 2) + 1,
+      color: ply % 2 === 0 ? 'white' : 'black',
+      move: position.move,
+      suggestedMove: position.suggestedMove,
+      classification: position.classification,
+      expectedScoreBefore: this.round(before),
+      expectedScoreAfter: this.round(after),
+    };
+  }
+
+  private round(score: number): number {
+    return Math.round(score * 1000) / 1000;
+  }
+}
@@ -0,0 +1,57 @@
+import {
+  BadRequestException,
+  Controller,
+  Get,
+  NotFoundException,
+  Query,
+} from '@nestjs/common';
+import { OpeningsService } from './openings.service';
+
+/**
+ * Explorador de aperturas sobre el libro de src/resources/openings.json.
+ */
+@Controller('openings')
+export class OpeningsController {
+  constructor(private readonly openingsService: OpeningsService) {}
+
+  @Get('by-fen')
+  getByFen(@Query('fen') fen: string) {
+    if (!fen) {
+      throw new BadRequestException('Indica el parámetro fen.');
+    }
+    const opening = this.openingsService.getOpening(fen);
+    if (!opening) {
+      throw new NotFoundException(
+        'La posición no está en el libro de aperturas.',
+      );
+    }
+    return opening;
+  }
+
+  /**
+   * moves: "1. e4 e5 2. Nf3" o "e2e4 e7e5 g1f3"
+   */
+  @Get('by-moves')
+  getByMoves(@Query('moves') moves: string) {
+    if (!moves) {
+      throw new BadRequestException('Indica el parámetro moves.');
+    }
+    return this.openingsService.identifyMoves(moves);
+  }
+
+  /**
+   * Sin fen devuelve las primeras jugadas desde la posición inicial
+   */
+  @Get('children')
+  getChildren(@Query('fen') fen?: string) {
+    return this.openingsService.getContinuations(fen || undefined);
+  }
+
+  @Get('search')
+  search(@Query('q') query: string, @Query('limit') limit?: string) {
+    return this.openingsService.search(
+      query,
+      limit ? parseInt(limit, 10) : undefined,
+    );
+  }
+}
@@ -0,0 +1,90 @@
+import { BadRequestException } from '@nestjs/common';
+import { OpeningsService } from './openings.service';
+
+const RUY_LOPEZ = 'r1bqkbnr/pppp1ppp/2n5/1B2p3/4P3/5N2/PPPP1PPP/RNBQK2R';
+
+describe('OpeningsService', () => {
+  let service: OpeningsService;
+
+  // Construir el árbol cuesta ~1 s: una sola vez para todo el fichero
+  beforeAll(() => {
+    service = new OpeningsService();
+    service.onModuleInit();
+  });
+
+  it('carries ECO codes and move orders', () => {
+    expect(service.getOpening(`${RUY_LOPEZ} b KQkq - 3 3`)).toEqual({
+      fen: RUY_LOPEZ,
+      name: 'Ruy Lopez',
+      eco: 'C60',
+      moves: '1. e4 e5 2. Nf3 Nc6 3. Bb5',
+    });
+  });
+
+  it('identifies transpositions as the same opening', () => {
+    const viaKnight = service.identifyMoves('1. Nf3 d5 2. d4');
+    const viaPawn = service.identifyMoves(['d2d4', 'd7d5', 'g1f3']);
+
+    expect(viaKnight.opening?.name).toBe(
+      "Queen's Pawn Game: Zukertort Variation",
+    );
+    expect(viaPawn).toEqual(viaKnight);
+  });
+
+  it('reports the last named opening and where theory ended', () => {
+    const match = service.identifyMoves(
+      '1. e4 e5 2. Nf3 Nc6 3. Bb5 a6 4. Ba4 Nf6 5. O-O Be7 6. Re1 b5 ' +
+        '7. Bb3 d6 8. c3 O-O 9. h3 Nb8 10. d4 Nbd7 11. a4 h6 12. Kh2',
+    );
+
+    expect(match.opening?.eco).toBe('C95');
+    expect(match.ply).toBe(20);
+    expect(match.leftTheoryAtPly).toBe(21);
+  });
+
+  it('leaves leftTheoryAtPly empty while the game is still in the book', () => {
+    expect(service.identifyMoves('1. e4 e5').leftTheoryAtPly).toBeNull();
+  });
+
+  it('rejects illegal move lists', () => {
+    expect(() => service.identifyMoves('1. e4 e4')).toThrow(
+      BadRequestException,
+    );
+  });
+
+  it('lists continuations into known theory', () => {
+    const fromStart = service.getContinuations();
+    expect(fromStart.length).toBe(20);
+
+    const afterE4E5 = service.getContinuations(
+      'rnbqkbnr/pppp1ppp/8/4p3/4P3/8/PPPP1PPP/RNBQKBNR w KQkq - 0 2',
+    );
+    expect(afterE4E5.find((move) => move.san === 'Nf3')?.opening?.name).toBe(
+      "King's Knight Opening",
+    );
+  });
+
+  it('accepts a bare piece placement for positions in the tree', () => {
+    expect(
+      service.getContinuations(RUY_LOPEZ).map((move) => move.san),
+    ).toContain('a6');
+    expect(() => service.getContinuations('8/8/8/8/8/8/8/K6k')).toThrow(
+      BadRequestException,
+    );
+  });
+
+  it('searches by name, ignoring case and accents, or by ECO code', () => {
+    expect(service.search('RUY LÓPEZ', 1)[0].name).toBe('Ruy Lopez');
+    expect(
+      service.search('c60').every((opening) => opening.eco === 'C60'),
+    ).toBe(true);
+  });
+
+  it('does not resolve prototype keys as openings', () => {
+    for (const key of ['constructor', '__proto__', 'toString']) {
+      expect(service.getOpening(key)).toBeNull();
+      expect(service.getOpeningName(key)).toBeNull();
+      expect(service.isKnownTheory(key)).toBe(false);
+    }
+  });
+});
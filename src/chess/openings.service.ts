@@ -1,17 +1,34 @@
-import { Injectable, OnModuleInit } from '@nestjs/common';
+import { BadRequestException, Injectable, OnModuleInit } from '@nestjs/common';
+import { Chess } from 'chess.js';
 import { readFileSync } from 'fs';
 import { join } from 'path';
+import { Opening, OpeningMatch } from '../interfaces/analysis.interfaces';
 
 interface OpeningsBook {
-    [fen: string]: string;
+    [fen: string]: { name: string; eco: string | null; moves: string | null };
 }
 
+export interface OpeningContinuation {
+    san: string;
+    uci: string;
+    fen: string;
+    opening: Opening | null; // null si la posición es teoría pero no tiene nombre propio
+}
+
+const STARTING_FEN = 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1';
+const DEFAULT_SEARCH_LIMIT = 20;
+const MAX_SEARCH_LIMIT = 100;
+
 @Injectable()
 export class OpeningsService implements OnModuleInit {
     private openingsBook: OpeningsBook = {};
+    // Teoría conocida: toda posición de algún orden de jugadas del libro, con su FEN completo.
+    // Se indexa por posición, así que las transposiciones caen en el mismo nodo.
+    private theory = new Map<string, string>();
 
     onModuleInit() {
         this.loadOpeningsBook();
+        this.buildTheoryTree();
     }
 
     private loadOpeningsBook(): void {
@@ -27,19 +44,189 @@ export class OpeningsService implements OnModuleInit {
         }
     }
 
+    /**
+     * Reproduce cada orden de jugadas una sola vez por prefijo común (trie),
+     * registrando todas las posiciones intermedias.
+     */
+    private buildTheoryTree(): void {
+        const fenByPrefix = new Map<string, string>([['', STARTING_FEN]]);
+        this.theory = new Map([[this.toKey(STARTING_FEN), STARTING_FEN]]);
+
+        for (const entry of Object.values(this.openingsBook)) {
+            if (!entry.moves) continue;
+            let prefix = '';
+            for (const san of this.parseMoveList(entry.moves)) {
+                const parentFen = fenByPrefix.get(prefix)!;
+                prefix = prefix ? `${prefix} ${san}` : san;
+                if (fenByPrefix.has(prefix)) continue;
+
+                try {
+                    const chess = new Chess(parentFen);
+                    chess.move(san);
+                    fenByPrefix.set(prefix, chess.fen());
+                    this.theory.set(this.toKey(chess.fen()), chess.fen());
+                } catch {
+                    console.warn(`Orden de jugadas inválido en el libro: ${entry.moves}`);
+                    break;
+                }
+            }
+        }
+    }
+
     public getOpeningName(fen: string): string | null {
         // 1. Normalizar FEN (Tu JSON solo tiene la info de piezas, parte 0 del split)
-        const fenPosition = fen.split(' ')[0];
+        const fenPosition = this.toKey(fen);
 
         // 2. Buscar coincidencia exacta
-        if (this.openingsBook[fenPosition]) {
-            return this.openingsBook[fenPosition];
-        }
+        return this.findEntry(fenPosition)?.name ?? null;
+    }
 
-        return null;
+    public getOpening(fen: string): Opening | null {
+        const key = this.toKey(fen);
+        const entry = this.findEntry(key);
+        return entry ? { fen: key, ...entry } : null;
     }
 
     public isOpeningPhase(moveNumber: number): boolean {
         return moveNumber <= 10;
     }
-}
\ No newline at end of file
+
+    /**
+     * La posición es teoría: tiene nombre o aparece en algún orden de jugadas del libro.
+     */
+    public isKnownTheory(fen: string): boolean {
+        const key = this.toKey(fen);
+        return this.theory.has(key) || this.findEntry(key) !== undefined;
+    }
+
+    /**
+     * Apertura de una partida a partir de las posiciones tras cada jugada.
+     * La última posición teórica marca dónde se salió del libro, aunque antes
+     * se haya pasado por posiciones fuera de él (transposiciones).
+     */
+    public identify(fens: string[]): OpeningMatch {
+        let opening: Opening | null = null;
+        let ply: number | null = null;
+        let lastKnown = -1;
+
+        for (const [index, fen] of fens.entries()) {
+            if (!this.isKnownTheory(fen)) continue;
+            lastKnown = index;
+            const named = this.getOpening(fen);
+            if (named) {
+                opening = named;
+                ply = index + 1;
+            }
+        }
+
+        return {
+            opening,
+            ply,
+            leftTheoryAtPly: lastKnown === fens.length - 1 ? null : lastKnown + 2,
+        };
+    }
+
+    /**
+     * Igual que identify, a partir de una lista de jugadas (SAN o UCI) desde la posición inicial.
+     */
+    public identifyMoves(moves: string | string[]): OpeningMatch {
+        const chess = new Chess();
+        const fens: string[] = [];
+        for (const move of Array.isArray(moves) ? moves : this.parseMoveList(moves)) {
+            try {
+                chess.move(move);
+            } catch {
+                throw new BadRequestException(`Jugada ilegal: ${move}`);
+            }
+            fens.push(chess.fen());
+        }
+        return this.identify(fens);
+    }
+
+    /**
+     * Continuaciones desde una posición que llevan a teoría conocida.
+     * Acepta solo la colocación de piezas si la posición está en el árbol.
+     */
+    public getContinuations(fen: string = STARTING_FEN): OpeningContinuation[] {
+        const fullFen = fen.trim().includes(' ') ? fen.trim() : this.theory.get(this.toKey(fen));
+        if (!fullFen) {
+            throw new BadRequestException('Posición fuera del árbol: envía el FEN completo.');
+        }
+
+        let chess: Chess;
+        try {
+            chess = new Chess(fullFen);
+        } catch {
+            throw new BadRequestException('FEN inválido.');
+        }
+
+        const continuations: OpeningContinuation[] = [];
+        for (const move of chess.moves({ verbose: true })) {
+            chess.move(move);
+            if (this.isKnownTheory(chess.fen())) {
+                continuations.push({
+                    san: move.san,
+                    uci: move.from + move.to + (move.promotion || ''),
+                    fen: chess.fen(),
+                    opening: this.getOpening(chess.fen()),
+                });
+            }
+            chess.undo();
+        }
+        return continuations;
+    }
+
+    /**
+     * Búsqueda por nombre (sin distinguir mayúsculas ni acentos) o por código ECO exacto.
+     * Primero las líneas más cortas.
+     */
+    public search(query: string, limit: number = DEFAULT_SEARCH_LIMIT): Opening[] {
+        const term = this.normalize(query ?? '');
+        if (!term) {
+            throw new BadRequestException('Indica un texto de búsqueda.');
+        }
+        const max = Math.min(Math.max(1, Math.floor(limit) || DEFAULT_SEARCH_LIMIT), MAX_SEARCH_LIMIT);
+        const byEco = /^[a-e]\d{2}$/.test(term);
+
+        const plies = (opening: Opening) =>
+            opening.moves ? this.parseMoveList(opening.moves).length : Number.MAX_SAFE_INTEGER;
+
+        return Object.keys(this.openingsBook)
+            .map((key) => this.getOpening(key)!)
+            .filter((opening) =>
+                byEco
+                    ? opening.eco?.toLowerCase() === term
+                    : this.normalize(opening.name).includes(term),
+            )
+            .sort((a, b) => plies(a) - plies(b) || a.name.localeCompare(b.name))
+            .slice(0, max);
+    }
+
+    /**
+     * "1. e4 e5 2.Nf3" → ['e4', 'e5', 'Nf3']: quita números de jugada y resultados.
+     */
+    private parseMoveList(moves: string): string[] {
+        return moves
+            .replace(/\d+\.(\.\.)?/g, ' ')
+            .split(/[\s,]+/)
+            .filter((token) => token && !['1-0', '0-1', '1/2-1/2', '*'].includes(token));
+    }
+
+    /**
+     * Entrada del libro para esa clave; solo propiedades propias, para que
+     * "constructor" o "__proto__" no resuelvan a Object.prototype.
+     */
+    private findEntry(key: string): OpeningsBook[string] | undefined {
+        return Object.prototype.hasOwnProperty.call(this.openingsBook, key)
+            ? this.openingsBook[key]
+            : undefined;
+    }
+
+    private toKey(fen: string): string {
+        return fen.trim().split(' ')[0];
+    }
+
+    private normalize(text: string): string {
+        return text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().trim();
+    }
+}
@@ -0,0 +1,196 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import {
+  DEFAULT_PERFORMANCE_MODEL,
+  PerformanceRatingService,
+} from './performance-rating.service';
+import {
+  Classification,
+  EvaluatedPosition,
+} from '../interfaces/analysis.interfaces';
+
+const ply = (
+  classification: Classification,
+  cpLoss?: number,
+): EvaluatedPosition => ({
+  fen: '',
+  move: { san: '', uci: '' },
+  evaluation: { type: 'cp', value: 0 },
+  classification,
+  suggestedMove: { san: '', uci: '' },
+  cpLoss,
+});
+
+/**
+ * `moves` jugadas de cada bando, repitiendo los patrones dados.
+ */
+const game = (
+  moves: number,
+  white: [Classification, number, number],
+  black: [Classification, number, number],
+) => {
+  const positions: EvaluatedPosition[] = [];
+  const accuracies: number[] = [];
+  for (let i = 0; i < moves; i++) {
+    for (const [classification, cpLoss, accuracy] of [white, black]) {
+      positions.push(ply(classification, cpLoss));
+      accuracies.push(accuracy);
+    }
+  }
+  return { positions, accuracies };
+};
+
+const createService = async (config: Record<string, string> = {}) => {
+  const module: TestingModule = await Test.createTestingModule({
+    providers: [
+      PerformanceRatingService,
+      { provide: ConfigService, useValue: new ConfigService(config) },
+    ],
+  }).compile();
+  return module.get<PerformanceRatingService>(PerformanceRatingService);
+};
+
+describe('PerformanceRatingService', () => {
+  let service: PerformanceRatingService;
+
+  beforeEach(async () => {
+    service = await createService();
+  });
+
+  it('rates precise play higher than error-prone play', () => {
+    const { positions, accuracies } = game(
+      30,
+      ['best', 10, 95],
+      ['inaccuracy', 60, 70],
+    );
+    const report = service.buildPerformanceReport(positions, accuracies);
+
+    expect(report.white).toMatchObject({
+      moves: 30,
+      averageCentipawnLoss: 10,
+      accuracy: 95,
+      blunderRate: 0,
+      mistakeRate: 0,
+    });
+    expect(report.white.elo!).toBeGreaterThan(2500);
+    expect(report.black.elo!).toBeLessThan(1700);
+    expect(report.white.range!.low).toBeLessThan(report.white.elo!);
+    expect(report.white.range!.high).toBeGreaterThan(report.white.elo!);
+  });
+
+  it('narrows the confidence range as the game gets longer', () => {
+    const width = (moves: number) => {
+      const { positions, accuracies } = game(
+        moves,
+        ['good', 30, 85],
+        ['good', 30, 85],
+      );
+      const { range } = service.buildPerformanceReport(
+        positions,
+        accuracies,
+      ).white;
+      return range!.high - range!.low;
+    };
+
+    expect(width(10)).toBeGreaterThan(width(40));
+    expect(width(40)).toBeCloseTo((2 * 2000) / Math.sqrt(40), -1);
+  });
+
+  it('gives no estimate for very short games but keeps the statistics', () => {
+    const { positions, accuracies } = game(
+      3,
+      ['blunder', 500, 10],
+      ['best', 0, 100],
+    );
+    const report = service.buildPerformanceReport(positions, accuracies);
+
+    expect(report.white).toEqual({
+      elo: null,
+      range: null,
+      moves: 3,
+      averageCentipawnLoss: 500,
+      accuracy: 10,
+      blunderRate: 100,
+      mistakeRate: 0,
+    });
+  });
+
+  it('gives no estimate for an all-book game', () => {
+    const positions = Array.from({ length: 12 }, () => ply('book'));
+    const report = service.buildPerformanceReport(
+      positions,
+      positions.map(() => 100),
+    );
+
+    expect(report.white).toEqual({
+      elo: null,
+      range: null,
+      moves: 0,
+      averageCentipawnLoss: null,
+      accuracy: null,
+      blunderRate: null,
+      mistakeRate: null,
+    });
+    expect(report.black.moves).toBe(0);
+  });
+
+  it('skips book and forced moves and caps the loss of a single move', () => {
+    const positions = [
+      ply('book'),
+      ply('book'),
+      ...game(6, ['best', 0, 100], ['best', 0, 100]).positions,
+      ply('forced', 0),
+      ply('blunder', 9800),
+    ];
+    const accuracies = positions.map((position) =>
+      position.classification === 'blunder' ? 0 : 100,
+    );
+    const report = service.buildPerformanceReport(positions, accuracies);
+
+    expect(report.white.moves).toBe(6);
+    expect(report.black.moves).toBe(7);
+    expect(report.black.averageCentipawnLoss).toBeCloseTo(1000 / 7, 1);
+    expect(report.black.blunderRate).toBeCloseTo(14.3, 1);
+  });
+
+  it('stays within the model bounds', () => {
+    const lopsided = game(40, ['best', 0, 100], ['blunder', 1000, 0]);
+    const report = service.buildPerformanceReport(
+      lopsided.positions,
+      lopsided.accuracies,
+    );
+
+    expect(report.white.elo).toBeLessThanOrEqual(DEFAULT_PERFORMANCE_MODEL.max);
+    expect(report.black.elo).toBe(DEFAULT_PERFORMANCE_MODEL.min);
+    expect(report.black.range!.low).toBe(DEFAULT_PERFORMANCE_MODEL.min);
+  });
+
+  it('merges PERFORMANCE_RATING_MODEL over the default model', async () => {
+    const acplOnly = await createService({
+      PERFORMANCE_RATING_MODEL: JSON.stringify({
+        weights: { accuracy: 0, errors: 0 },
+        minMoves: 1,
+      }),
+    });
+    expect(acplOnly.model.acpl).toEqual(DEFAULT_PERFORMANCE_MODEL.acpl);
+    expect(acplOnly.model.weights).toEqual({
+      acpl: 0.4,
+      accuracy: 0,
+      errors: 0,
+    });
+
+    const { positions, accuracies } = game(
+      2,
+      ['good', 40, 50],
+      ['good', 40, 50],
+    );
+    // Solo cuenta el ACPL: 3200 · e^(−0.0125 · 40)
+    expect(
+      acplOnly.buildPerformanceReport(positions, accuracies).white.elo,
+    ).toBe(Math.round(3200 * Math.exp(-0.5)));
+
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const invalid = await createService({ PERFORMANCE_RATING_MODEL: '{oops' });
+    expect(invalid.model).toEqual(DEFAULT_PERFORMANCE_MODEL);
+  });
+});
@@ -0,0 +1,140 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { Chess } from 'chess.js';
+import { PgnExportService } from './pgn-export.service';
+import { ChessService } from './chess.service';
+import {
+  Classification,
+  EvaluatedPosition,
+  Evaluation,
+  Report,
+} from '../interfaces/analysis.interfaces';
+import { EngineLine } from '../interfaces/engine.interfaces';
+
+const PGN = [
+  '[Event "Club Open"]',
+  '[Site "?"]',
+  '[White "Alice"]',
+  '[Black "Bob"]',
+  '[Result "0-1"]',
+  '[CustomTag "kept"]',
+  '',
+  '1. e4 {[%clk 0:03:00]} e5 2. Qh5 Nc6 3. Bc4 Nf6 4. Qxf7# 0-1',
+].join('\n');
+
+const line = (evaluation: Evaluation, pv: string[] = []): EngineLine => ({
+  id: 1,
+  depth: 18,
+  evaluation,
+  moveUCI: pv[0] ?? '',
+  pv,
+  pvSAN: [],
+});
+
+describe('PgnExportService', () => {
+  let service: PgnExportService;
+  let chessService: ChessService;
+  let report: Report;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [PgnExportService, ChessService],
+    }).compile();
+
+    service = module.get<PgnExportService>(PgnExportService);
+    chessService = module.get<ChessService>(ChessService);
+
+    const { positions, metadata } = chessService.parsePgn(PGN);
+    // Evaluación de la jugada (desde quien mueve) y línea del motor desde la posición previa
+    const annotations: [Classification, Evaluation, string[]?][] = [
+      ['book', { type: 'cp', value: 0 }],
+      ['book', { type: 'cp', value: 0 }],
+      ['inaccuracy', { type: 'cp', value: -40 }, ['g1f3', 'b8c6']],
+      ['best', { type: 'cp', value: 45 }],
+      ['great', { type: 'cp', value: 60 }],
+      ['blunder', { type: 'mate', value: -1 }, ['g7g6', 'h5f3', 'g8f6']],
+      ['best', { type: 'mate', value: 1 }],
+    ];
+    report = {
+      positions: positions.map(
+        (position, i): EvaluatedPosition => ({
+          ...position,
+          evaluation: { type: 'cp', value: 0 },
+          classification: annotations[i][0],
+          suggestedMove: { san: '', uci: '' },
+          playedLine: line(annotations[i][1]),
+          bestLine: line({ type: 'cp', value: 0 }, annotations[i][2]),
+        }),
+      ),
+      metadata,
+    } as Report;
+  });
+
+  it('round-trips through chess.js keeping the original headers', () => {
+    const chess = new Chess();
+    chess.loadPgn(service.exportReport(report, PGN));
+
+    expect(chess.history()).toEqual([
+      'e4',
+      'e5',
+      'Qh5',
+      'Nc6',
+      'Bc4',
+      'Nf6',
+      'Qxf7#',
+    ]);
+    expect(chess.getHeaders()).toMatchObject({
+      Event: 'Club Open',
+      Site: '?',
+      Result: '0-1',
+      CustomTag: 'kept',
+      Annotator: 'Chessmaster 360',
+    });
+  });
+
+  it('adds NAGs, eval and clock comments and the engine line as a variation', () => {
+    const pgn = service.exportReport(report, PGN);
+    const movetext = pgn.replace(/\s+/g, ' ');
+
+    expect(movetext).toContain('1. e4 {[%eval 0.00] [%clk 0:03:00]} 1... e5');
+    expect(movetext).toContain('2. Qh5 $6 {[%eval -0.40]} (2. Nf3 Nc6)');
+    expect(movetext).toContain('3. Bc4 $1 {[%eval 0.60]}');
+    // Negras: la variante empieza con el número de jugada y puntos suspensivos
+    expect(movetext).toContain('3... Nf6 $4 {[%eval #1]} (3... g6 4. Qf3 Nf6)');
+    // Tras dar mate no queda evaluación
+    expect(pgn).toMatch(/4\. Qxf7# 0-1\n$/);
+    expect(pgn.split('\n').every((text) => text.length <= 80)).toBe(true);
+  });
+
+  it('counts the move in the mate of a played line that is not a MultiPV line', () => {
+    // Líneas construidas con la respuesta del rival (id 0): el mate ya
+    // incluye la jugada, como en las líneas MultiPV
+    report.positions[4].playedLine = {
+      ...line({ type: 'mate', value: 3 }),
+      id: 0,
+    };
+    report.positions[5].playedLine = {
+      ...line({ type: 'mate', value: 2 }),
+      id: 0,
+    };
+    const movetext = service.exportReport(report, PGN).replace(/\s+/g, ' ');
+
+    expect(movetext).toContain('3. Bc4 $1 {[%eval #2]}');
+    expect(movetext).toContain('3... Nf6 $4 {[%eval #-1]}');
+  });
+
+  it('rebuilds the headers from the report metadata without the original PGN', () => {
+    const chess = new Chess();
+    chess.loadPgn(service.exportReport(report));
+
+    expect(chess.getHeaders()).toMatchObject({
+      Event: 'Club Open',
+      Site: '?',
+      Date: '????.??.??',
+      Round: '?',
+      White: 'Alice',
+      Black: 'Bob',
+      Result: '0-1',
+    });
+    expect(chess.getHeaders().CustomTag).toBeUndefined();
+  });
+});
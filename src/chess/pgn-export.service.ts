@@ -0,0 +1,246 @@
+import { Injectable } from '@nestjs/common';
+import { Chess } from 'chess.js';
+import { ChessService } from './chess.service';
+import {
+  Classification,
+  EvaluatedPosition,
+  Evaluation,
+  GameMetadata,
+  Report,
+} from '../interfaces/analysis.interfaces';
+
+const STARTING_FEN = 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1';
+const MAX_LINE_LENGTH = 80;
+const MAX_VARIATION_PLIES = 8;
+
+// NAG de cada clasificación: $1 = !, $2 = ?, $3 = !!, $4 = ??, $6 = ?!
+const NAGS: Partial<Record<Classification, number>> = {
+  brilliant: 3,
+  great: 1,
+  inaccuracy: 6,
+  mistake: 2,
+  miss: 2,
+  blunder: 4,
+};
+
+// Jugadas que llevan la línea del motor como variante
+const VARIATION_CLASSIFICATIONS: Classification[] = [
+  'inaccuracy',
+  'mistake',
+  'miss',
+  'blunder',
+];
+
+// Orden de las etiquetas cuando no hay PGN original: Seven Tag Roster y extras
+const METADATA_TAGS: [keyof GameMetadata, string][] = [
+  ['event', 'Event'],
+  ['site', 'Site'],
+  ['date', 'Date'],
+  ['round', 'Round'],
+  ['white', 'White'],
+  ['black', 'Black'],
+  ['result', 'Result'],
+  ['whiteElo', 'WhiteElo'],
+  ['blackElo', 'BlackElo'],
+  ['timeControl', 'TimeControl'],
+  ['eco', 'ECO'],
+  ['termination', 'Termination'],
+  ['link', 'Link'],
+];
+// Valores de "desconocido" del Seven Tag Roster
+const UNKNOWN_TAGS: Record<string, string> = {
+  Event: '?',
+  Site: '?',
+  Date: '????.??.??',
+  Round: '?',
+  White: '?',
+  Black: '?',
+};
+
+/**
+ * Convierte un Report en PGN anotado: NAGs por clasificación, [%eval] por
+ * jugada y la línea del motor como variante en las imprecisiones o peores.
+ */
+@Injectable()
+export class PgnExportService {
+  constructor(private readonly chessService: ChessService) {}
+
+  /**
+   * Con el PGN original se conservan todas sus cabeceras; si no, se
+   * reconstruyen desde report.metadata.
+   */
+  exportReport(report: Report, originalPgn?: string): string {
+    const tags = originalPgn
+      ? this.chessService.parsePgnTags(originalPgn)
+      : this.tagsFromMetadata(report.metadata);
+    const result = ['1-0', '0-1', '1/2-1/2', '*'].includes(tags.Result)
+      ? tags.Result
+      : '*';
+    tags.Result = result;
+    tags.Annotator = tags.Annotator ?? 'Chessmaster 360';
+
+    const headers = Object.entries(tags)
+      .map(([name, value]) => `[${name} "${this.escapeTag(value)}"]`)
+      .join('\n');
+
+    const tokens = report.positions.flatMap((position, index) =>
+      this.renderPly(
+        position,
+        index,
+        index === 0 ? STARTING_FEN : report.positions[index - 1].fen,
+      ),
+    );
+    tokens.push(result);
+
+    return `${headers}\n\n${this.wrap(tokens)}\n`;
+  }
+
+  private renderPly(
+    position: EvaluatedPosition,
+    index: number,
+    previousFen: string,
+  ): string[] {
+    const moveNumber = Math.floor(index / 2) + 1;
+    const isWhite = index % 2 === 0;
+    // Tras el comentario de la jugada anterior, las negras repiten el número
+    const tokens = [
+      `${moveNumber}${isWhite ? '.' : '...'} ${position.move.san}`,
+    ];
+
+    const nag = NAGS[position.classification];
+    if (nag) tokens.push(`$${nag}`);
+
+    const comment = this.renderComment(position, isWhite);
+    if (comment) tokens.push(comment);
+
+    if (VARIATION_CLASSIFICATIONS.includes(position.classification)) {
+      const variation = this.renderVariation(
+        position.bestLine?.pv ?? [],
+        previousFen,
+        moveNumber,
+        isWhite,
+      );
+      if (variation) tokens.push(variation);
+    }
+    return tokens;
+  }
+
+  /**
+   * {[%eval 0.35] [%clk 0:02:55]}: evaluación tras la jugada, desde las blancas.
+   */
+  private renderComment(position: EvaluatedPosition, isWhite: boolean): string {
+    const commands: string[] = [];
+    const evaluation = this.evaluationAfterMove(position);
+    if (evaluation !== null) {
+      const value = isWhite ? evaluation.value : -evaluation.value;
+      commands.push(
+        evaluation.type === 'mate'
+          ? `[%eval #${value}]`
+          : `[%eval ${(value / 100).toFixed(2)}]`,
+      );
+    }
+    if (position.clock !== undefined) {
+      commands.push(`[%clk ${this.formatClock(position.clock)}]`);
+    }
+    return commands.length ? `{${commands.join(' ')}}` : '';
+  }
+
+  /**
+   * La línea jugada evalúa desde el bando que mueve; un mate en N incluye
+   * la propia jugada, también en las que no son MultiPV (ver buildPlayedLine
+   * en AnalysisService), así que tras ella queda mate en N-1. null tras dar mate.
+   */
+  private evaluationAfterMove(position: EvaluatedPosition): Evaluation | null {
+    const evaluation = position.playedLine?.evaluation ?? position.evaluation;
+    if (evaluation.type !== 'mate') return evaluation;
+    if (evaluation.value > 0) {
+      return evaluation.value === 1
+        ? null
+        : { type: 'mate', value: evaluation.value - 1 };
+    }
+    return evaluation;
+  }
+
+  /**
+   * (5. Bxf7+ Kd8 6. Ng4): la línea del motor desde la posición anterior.
+   * Se valida con chess.js y se corta en la primera jugada ilegal.
+   */
+  private renderVariation(
+    pv: string[],
+    previousFen: string,
+    moveNumber: number,
+    isWhite: boolean,
+  ): string {
+    let chess: Chess;
+    try {
+      chess = new Chess(previousFen);
+    } catch {
+      return '';
+    }
+
+    const tokens: string[] = [];
+    let number = moveNumber;
+    let white = isWhite;
+    for (const uci of pv.slice(0, MAX_VARIATION_PLIES)) {
+      let san: string;
+      try {
+        san = chess.move({
+          from: uci.slice(0, 2),
+          to: uci.slice(2, 4),
+          promotion: uci[4],
+        }).san;
+      } catch {
+        break;
+      }
+      if (white) tokens.push(`${number}.`);
+      else if (tokens.length === 0) tokens.push(`${number}...`);
+      tokens.push(san);
+      if (!white) number++;
+      white = !white;
+    }
+    return tokens.length ? `(${tokens.join(' ')})` : '';
+  }
+
+  private tagsFromMetadata(metadata?: GameMetadata): Record<string, string> {
+    const tags: Record<string, string> = {};
+    for (const [field, tag] of METADATA_TAGS) {
+      const value = metadata?.[field];
+      if (value !== null && value !== undefined) tags[tag] = String(value);
+      else if (tag in UNKNOWN_TAGS) tags[tag] = UNKNOWN_TAGS[tag];
+    }
+    return tags;
+  }
+
+  private escapeTag(value: string): string {
+    return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"');
+  }
+
+  private formatClock(clock: number): string {
+    const seconds = Math.round(clock * 10) / 10;
+    const hours = Math.floor(seconds / 3600);
+    const minutes = Math.floor((seconds % 3600) / 60);
+    const rest = seconds % 60;
+    const secs = Number.isInteger(rest)
+      ? String(rest).padStart(2, '0')
+      : rest.toFixed(1).padStart(4, '0');
+    return `${hours}:${String(minutes).padStart(2, '0')}:${secs}`;
+  }
+
+  /**
+   * Líneas de 80 caracteres como mucho, sin partir comentarios ni variantes.
+   */
+  private wrap(tokens: string[]): string {
+    const lines: string[] = [];
+    let line = '';
+    for (const token of tokens) {
+      if (line && line.length + 1 + token.length > MAX_LINE_LENGTH) {
+        lines.push(line);
+        line = token;
+      } else {
+        line = line ? `${line} ${token}` : token;
+      }
+    }
+    if (line) lines.push(line);
+    return lines.join('\n');
+  }
+}
@@ -0,0 +1,81 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { TimeManagementService } from './time-management.service';
+import {
+  Classification,
+  EvaluatedPosition,
+} from '../interfaces/analysis.interfaces';
+
+const ply = (
+  classification: Classification,
+  clock?: number,
+  timeSpent?: number,
+): EvaluatedPosition => ({
+  fen: '',
+  move: { san: '', uci: '' },
+  evaluation: { type: 'cp', value: 0 },
+  classification,
+  suggestedMove: { san: '', uci: '' },
+  clock,
+  timeSpent,
+});
+
+describe('TimeManagementService', () => {
+  let service: TimeManagementService;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        TimeManagementService,
+        {
+          provide: ConfigService,
+          useValue: new ConfigService({ TIME_TROUBLE_SECONDS: '20' }),
+        },
+      ],
+    }).compile();
+
+    service = module.get<TimeManagementService>(TimeManagementService);
+  });
+
+  it('flags moves played under the configured threshold', () => {
+    expect(service.isTimeTrouble(ply('best', 19.9))).toBe(true);
+    expect(service.isTimeTrouble(ply('best', 20))).toBe(false);
+    expect(service.isTimeTrouble(ply('best'))).toBeUndefined();
+  });
+
+  it('has no time report without clocks', () => {
+    expect(service.buildTimeReport([ply('best'), ply('best')])).toBeNull();
+  });
+
+  it('compares time spent and errors under time pressure per color', () => {
+    // Blancas fallan a medida que se quedan sin tiempo; negras juegan bien siempre
+    const report = service.buildTimeReport([
+      ply('book', 180, 1),
+      ply('book', 180, 1),
+      ply('best', 120, 60),
+      ply('best', 170, 10),
+      ply('good', 60, 60),
+      ply('excellent', 160, 10),
+      ply('mistake', 15, 45),
+      ply('best', 150, 10),
+      ply('blunder', 5, 10),
+      ply('best', 10, 140),
+    ])!;
+
+    expect(report.timeTroubleThreshold).toBe(20);
+    expect(report.white).toEqual({
+      moves: 5,
+      averageTimePerMove: 35.2,
+      averageTimeOnBlunders: 10,
+      averageTimeOnGoodMoves: 60,
+      timeTroubleMoves: 2,
+      errorRate: { timeTrouble: 100, normal: 0 },
+      pressureCorrelation: 1,
+    });
+    expect(report.black.averageTimeOnBlunders).toBeNull();
+    expect(report.black.timeTroubleMoves).toBe(1);
+    expect(report.black.errorRate).toEqual({ timeTrouble: 0, normal: 0 });
+    // Todas las jugadas tienen la misma gravedad: no hay correlación que medir
+    expect(report.black.pressureCorrelation).toBeNull();
+  });
+});
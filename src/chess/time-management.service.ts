@@ -0,0 +1,172 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  Classification,
+  ColorTimeStats,
+  EvaluatedPosition,
+  Position,
+  TimeReport,
+} from '../interfaces/analysis.interfaces';
+
+const DEFAULT_TIME_TROUBLE_SECONDS = 30;
+
+const GOOD_MOVES: Classification[] = [
+  'brilliant',
+  'great',
+  'best',
+  'excellent',
+  'good',
+];
+
+// Gravedad de cada clasificación; book y forced no dicen nada del tiempo usado
+const SEVERITY: Partial<Record<Classification, number>> = {
+  brilliant: 0,
+  great: 0,
+  best: 0,
+  excellent: 0,
+  good: 1,
+  inaccuracy: 2,
+  miss: 3,
+  mistake: 3,
+  blunder: 4,
+};
+const ERROR_SEVERITY = SEVERITY.inaccuracy!;
+
+/**
+ * Gestión del tiempo a partir de los relojes del PGN ([%clk]).
+ */
+@Injectable()
+export class TimeManagementService {
+  readonly timeTroubleThreshold: number;
+
+  constructor(private readonly configService: ConfigService) {
+    const configured = parseFloat(
+      this.configService.get<string>('TIME_TROUBLE_SECONDS') ?? '',
+    );
+    this.timeTroubleThreshold =
+      configured > 0 ? configured : DEFAULT_TIME_TROUBLE_SECONDS;
+  }
+
+  /**
+   * Apuros de tiempo: quedaban menos segundos que el umbral tras la jugada.
+   * undefined si la jugada no tiene reloj.
+   */
+  isTimeTrouble(position: Position): boolean | undefined {
+    return position.clock === undefined
+      ? undefined
+      : position.clock < this.timeTroubleThreshold;
+  }
+
+  /**
+   * null si ninguna jugada tiene reloj.
+   */
+  buildTimeReport(positions: EvaluatedPosition[]): TimeReport | null {
+    if (!positions.some((position) => position.clock !== undefined)) {
+      return null;
+    }
+    return {
+      timeTroubleThreshold: this.timeTroubleThreshold,
+      white: this.buildColorStats(positions.filter((_, i) => i % 2 === 0)),
+      black: this.buildColorStats(positions.filter((_, i) => i % 2 === 1)),
+    };
+  }
+
+  private buildColorStats(positions: EvaluatedPosition[]): ColorTimeStats {
+    const timed = positions.filter((position) => position.clock !== undefined);
+    const spent = (filter: (position: EvaluatedPosition) => boolean) =>
+      this.average(
+        timed
+          .filter(filter)
+          .map((position) => position.timeSpent)
+          .filter((time): time is number => time !== undefined),
+      );
+
+    // Solo jugadas con gravedad: sin libro ni forzadas
+    const rated = timed.filter(
+      (position) => SEVERITY[position.classification] !== undefined,
+    );
+    const errorRate = (inTrouble: boolean) => {
+      const moves = rated.filter(
+        (position) => this.isTimeTrouble(position) === inTrouble,
+      );
+      if (moves.length === 0) return null;
+      const errors = moves.filter(
+        (position) => SEVERITY[position.classification]! >= ERROR_SEVERITY,
+      ).length;
+      return Math.round((errors / moves.length) * 1000) / 10;
+    };
+
+    const correlation = this.spearman(
+      rated.map((position) => -position.clock!),
+      rated.map((position) => SEVERITY[position.classification]!),
+    );
+
+    return {
+      moves: timed.length,
+      averageTimePerMove: spent(() => true),
+      averageTimeOnBlunders: spent(
+        (position) => position.classification === 'blunder',
+      ),
+      averageTimeOnGoodMoves: spent((position) =>
+        GOOD_MOVES.includes(position.classification),
+      ),
+      timeTroubleMoves: timed.filter((position) => this.isTimeTrouble(position))
+        .length,
+      errorRate: { timeTrouble: errorRate(true), normal: errorRate(false) },
+      pressureCorrelation:
+        correlation === null ? null : Math.round(correlation * 100) / 100,
+    };
+  }
+
+  private average(values: number[]): number | null {
+    if (values.length === 0) return null;
+    const sum = values.reduce((a, b) => a + b, 0);
+    return Math.round((sum / values.length) * 10) / 10;
+  }
+
+  /**
+   * Correlación de Pearson entre los rangos (empates con rango medio).
+   * null con menos de 3 pares o si alguna serie es constante.
+   */
+  private spearman(xs: number[], ys: number[]): number | null {
+    if (xs.length < 3) return null;
+    const rx = this.ranks(xs);
+    const ry = this.ranks(ys);
+    const mean = (values: number[]) =>
+      values.reduce((a, b) => a + b, 0) / values.length;
+    const mx = mean(rx);
+    const my = mean(ry);
+
+    let covariance = 0;
+    let varianceX = 0;
+    let varianceY = 0;
+    rx.forEach((x, i) => {
+      covariance += (x - mx) * (ry[i] - my);
+      varianceX += (x - mx) ** 2;
+      varianceY += (ry[i] - my) ** 2;
+    });
+    if (varianceX === 0 || varianceY === 0) return null;
+    return covariance / Math.sqrt(varianceX * varianceY);
+  }
+
+  private ranks(values: number[]): number[] {
+    const order = values
+      .map((value, index) => ({ value, index }))
+      .sort((a, b) => a.value - b.value);
+    const ranks = new Array<number>(values.length);
+    let start = 0;
+    while (start < order.length) {
+      let end = start;
+      while (
+        end + 1 < order.length &&
+        order[end + 1].value === order[start].value
+      ) {
+        end++;
+      }
+      for (let k = start; k <= end; k++)
+        ranks[order[k].index] = (start + end) / 2;
+      start = end + 1;
+    }
+    return ranks;
+  }
+}
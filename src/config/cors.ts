@@ -0,0 +1,10 @@
+// src/config/cors.ts
+
+/**
+ * Orígenes permitidos por CORS (HTTP y WebSocket), desde CORS_ORIGINS separados por coma.
+ */
+export function getCorsOrigins(): string[] {
+  return process.env.CORS_ORIGINS
+    ? process.env.CORS_ORIGINS.split(',').map((origin) => origin.trim())
+    : ['http://localhost:5173'];
+}
@@ -0,0 +1,129 @@
+import { existsSync } from 'fs';
+import { join } from 'path';
+import { Chess } from 'chess.js';
+import {
+  EngineAdapter,
+  NativeEngineAdapter,
+  WasmEngineAdapter,
+} from './engine-adapter';
+import { EngineWorker } from './engine-worker';
+
+// Mismo binario que usa EngineService; sin él solo se prueba WASM
+const NATIVE_PATH =
+  process.env.STOCKFISH_PATH ?? join(__dirname, 'stockfish', 'stockfish');
+const START_FEN = 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1';
+// Mate en una: Ra8#
+const MATE_IN_ONE_FEN = '6k1/5ppp/8/8/8/8/8/R5K1 w - - 0 1';
+
+const adapters: [string, boolean, () => EngineAdapter][] = [
+  [
+    'native',
+    existsSync(NATIVE_PATH),
+    () => new NativeEngineAdapter(NATIVE_PATH),
+  ],
+  ['wasm', true, () => new WasmEngineAdapter()],
+];
+
+/**
+ * Las dos implementaciones tienen que comportarse igual para EngineWorker.
+ */
+describe.each(adapters)('%s engine adapter', (kind, available, create) => {
+  const test = available ? it : it.skip;
+  let worker: EngineWorker;
+
+  beforeAll(async () => {
+    if (!available) return;
+    jest.spyOn(console, 'log').mockImplementation();
+    worker = new EngineWorker(1, create(), 2);
+    await worker.start();
+  }, 30000);
+
+  afterAll(() => {
+    worker?.quit();
+    jest.restoreAllMocks();
+  });
+
+  test('completes the UCI handshake and reports its name', () => {
+    expect(worker.kind).toBe(kind);
+    expect(worker.isAlive).toBe(true);
+    expect(worker.name).toMatch(/^Stockfish \S+/);
+  });
+
+  test('returns the MultiPV lines of a fixed-depth search', async () => {
+    const lines = await worker.evaluate(START_FEN, 8);
+
+    expect(lines.map(({ id }) => id)).toEqual([1, 2]);
+    const legal = new Chess(START_FEN).moves({ verbose: true });
+    for (const line of lines) {
+      expect(line.depth).toBe(8);
+      expect(legal.some(({ lan }) => lan === line.moveUCI)).toBe(true);
+      expect(line.nodes).toBeGreaterThan(0);
+    }
+  }, 30000);
+
+  test('finds a mate in one', async () => {
+    const [best] = await worker.evaluate(MATE_IN_ONE_FEN, 6);
+
+    expect(best.moveUCI).toBe('a1a8');
+    expect(best.evaluation).toEqual({ type: 'mate', value: 1 });
+  }, 30000);
+
+  test('honours node limits, MultiPV and searchmoves', async () => {
+    const lines = await worker.analyze(START_FEN, { nodes: 20000 }, 3, [
+      'a2a3',
+      'h2h3',
+      'g1f3',
+    ]);
+
+    expect(lines.map(({ moveUCI }) => moveUCI).sort()).toEqual([
+      'a2a3',
+      'g1f3',
+      'h2h3',
+    ]);
+    // MultiPV vuelve a 2 para la siguiente búsqueda
+    expect(await worker.evaluate(START_FEN, 4)).toHaveLength(2);
+  }, 30000);
+
+  test('stops a search when the signal aborts', async () => {
+    const controller = new AbortController();
+    const started = Date.now();
+    setTimeout(() => controller.abort(), 300);
+
+    const lines = await worker.analyze(
+      START_FEN,
+      { movetime: 20000 },
+      2,
+      [],
+      controller.signal,
+    );
+
+    expect(Date.now() - started).toBeLessThan(10000);
+    expect(lines.length).toBeGreaterThan(0);
+  }, 30000);
+
+  test('plays a legal move at reduced strength', async () => {
+    const move = await worker.playMove(START_FEN, { skillLevel: 1 }, 100);
+
+    const legal = new Chess(START_FEN).moves({ verbose: true });
+    expect(legal.some(({ lan }) => lan === move)).toBe(true);
+  }, 30000);
+
+  test('rejects a running search when it quits', async () => {
+    const search = worker.analyze(START_FEN, { movetime: 20000 }, 2);
+    await new Promise((r) => setTimeout(r, 300));
+
+    worker.quit();
+    await expect(search).rejects.toThrow('was stopped');
+    await worker.start();
+    expect(await worker.evaluate(START_FEN, 4)).toHaveLength(2);
+  }, 30000);
+
+  test('restarts after quitting', async () => {
+    worker.quit();
+    expect(worker.isAlive).toBe(false);
+
+    await worker.restart();
+    expect(worker.isAlive).toBe(true);
+    expect(await worker.evaluate(START_FEN, 4)).toHaveLength(2);
+  }, 30000);
+});
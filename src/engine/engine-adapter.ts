@@ -0,0 +1,234 @@
+import { spawn, ChildProcessWithoutNullStreams } from 'child_process';
+import { existsSync } from 'fs';
+import { join } from 'path';
+import { Worker } from 'worker_threads';
+import { EngineAdapterKind } from '../interfaces/engine.interfaces';
+
+const WASM_ENGINE_PATH = join(__dirname, 'stockfish', 'stockfish-nnue-16.js');
+const WASM_BINARY_PATH = join(
+  __dirname,
+  'stockfish',
+  'stockfish-nnue-16-single.wasm',
+);
+
+/**
+ * UCI transport to one Stockfish instance. The EngineWorker speaks UCI on top
+ * of it, so both implementations must behave the same line by line.
+ */
+export interface EngineAdapter {
+  readonly kind: EngineAdapterKind;
+
+  /**
+   * Start the engine; resolves once it is running and rejects if it cannot
+   * start. `onLine` receives every non-empty output line and `onExit` fires
+   * if the engine exits on its own (not after terminate()).
+   * Callable again after terminate() to restart.
+   */
+  start(
+    onLine: (line: string) => void,
+    onExit: (code: number) => void,
+  ): Promise<void>;
+
+  send(command: string): Promise<void>;
+
+  terminate(): void;
+}
+
+/**
+ * Native Stockfish binary as a child process (stdin/stdout)
+ */
+export class NativeEngineAdapter implements EngineAdapter {
+  readonly kind = 'native';
+  private process: ChildProcessWithoutNullStreams | null = null;
+
+  constructor(readonly path: string) {}
+
+  start(
+    onLine: (line: string) => void,
+    onExit: (code: number) => void,
+  ): Promise<void> {
+    if (!existsSync(this.path)) {
+      console.error(`Stockfish binary not found at: ${this.path}`);
+      return Promise.reject(
+        new Error(
+          'Stockfish binary not found. Please ensure stockfish is installed.',
+        ),
+      );
+    }
+
+    const child = spawn(this.path);
+    this.process = child;
+
+    // stdout chunks can split a line in two, so keep the tail until the next chunk
+    let buffer = '';
+    child.stdout.on('data', (data: Buffer) => {
+      buffer += data.toString();
+      const lines = buffer.split('\n');
+      buffer = lines.pop() ?? '';
+      for (const line of lines) {
+        if (line.trim()) onLine(line.trim());
+      }
+    });
+
+    child.stderr.on('data', (data: Buffer) => {
+      console.error(`Stockfish stderr: ${data}`);
+    });
+
+    // Writing to a dead process fails in send(); without a listener the
+    // stream error would also crash the app
+    child.stdin.on('error', () => undefined);
+
+    child.on('close', (code) => {
+      if (this.process !== child) return;
+      this.process = null;
+      onExit(code);
+    });
+
+    // A binary that cannot run (EACCES, ENOENT, wrong format) only reports it
+    // through `error`, which has to be listened to
+    return new Promise((resolve, reject) => {
+      let spawned = false;
+      child.once('spawn', () => {
+        spawned = true;
+        resolve();
+      });
+      child.on('error', (error) => {
+        console.error(`Stockfish process error: ${error.message}`);
+        if (this.process !== child) return;
+        this.process = null;
+        if (spawned) onExit(null);
+        else reject(error);
+      });
+    });
+  }
+
+  send(command: string): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (!this.process) {
+        reject(new Error('Stockfish not initialized'));
+        return;
+      }
+      this.process.stdin.write(`${command}\n`, (err) => {
+        if (err) reject(err);
+        else resolve();
+      });
+    });
+  }
+
+  terminate(): void {
+    if (this.process) {
+      this.process.stdin.write('quit\n');
+      this.process.kill();
+      this.process = null;
+    }
+  }
+}
+
+/**
+ * Runs the Emscripten build in a worker thread. The build treats any worker
+ * thread as one of its own pthreads and exports nothing there, so it is
+ * loaded with a `require` that reports the main thread.
+ */
+const WASM_WORKER_SOURCE = `
+const Module = require('module');
+const { readFileSync } = require('fs');
+const { dirname } = require('path');
+const { runInThisContext } = require('vm');
+const threads = require('worker_threads');
+const { enginePath, wasmPath } = threads.workerData;
+
+const engineModule = new Module(enginePath);
+engineModule.filename = enginePath;
+const load = runInThisContext(Module.wrap(readFileSync(enginePath, 'utf8')), {
+  filename: enginePath,
+});
+load(
+  engineModule.exports,
+  (id) => (id === 'worker_threads' ? { ...threads, isMainThread: true } : require(id)),
+  engineModule,
+  enginePath,
+  dirname(enginePath),
+);
+
+// Commands that arrive while the WASM compiles wait in the queue
+const queue = [];
+let engine = null;
+threads.parentPort.on('message', (command) =>
+  engine ? engine.onCustomMessage(command) : queue.push(command),
+);
+engineModule.exports()({
+  locateFile: (file) => (file.endsWith('.wasm') ? wasmPath : enginePath),
+}).then((instance) => {
+  engine = instance;
+  engine.addMessageListener((line) => threads.parentPort.postMessage(line));
+  queue.splice(0).forEach((command) => engine.onCustomMessage(command));
+});
+`;
+
+/**
+ * Stockfish WASM build (src/engine/stockfish) in a worker thread, for when
+ * there is no native binary. Single-threaded and slower, but the searches
+ * stay off the main event loop.
+ */
+export class WasmEngineAdapter implements EngineAdapter {
+  readonly kind = 'wasm';
+  private worker: Worker | null = null;
+
+  constructor(
+    private readonly enginePath = WASM_ENGINE_PATH,
+    private readonly wasmPath = WASM_BINARY_PATH,
+  ) {}
+
+  start(
+    onLine: (line: string) => void,
+    onExit: (code: number) => void,
+  ): Promise<void> {
+    if (!existsSync(this.enginePath) || !existsSync(this.wasmPath)) {
+      return Promise.reject(
+        new Error(`Stockfish WASM build not found at: ${this.enginePath}`),
+      );
+    }
+
+    const worker = new Worker(WASM_WORKER_SOURCE, {
+      eval: true,
+      workerData: { enginePath: this.enginePath, wasmPath: this.wasmPath },
+    });
+    this.worker = worker;
+
+    worker.on('message', (message: string) => {
+      for (const line of String(message).split('\n')) {
+        if (line.trim()) onLine(line.trim());
+      }
+    });
+
+    worker.on('error', (error) => {
+      console.error(`Stockfish WASM error: ${error.message}`);
+    });
+
+    worker.on('exit', (code) => {
+      if (this.worker !== worker) return;
+      this.worker = null;
+      onExit(code);
+    });
+
+    return new Promise((resolve, reject) => {
+      worker.once('online', resolve);
+      worker.once('error', reject);
+    });
+  }
+
+  send(command: string): Promise<void> {
+    if (!this.worker) {
+      return Promise.reject(new Error('Stockfish not initialized'));
+    }
+    this.worker.postMessage(command);
+    return Promise.resolve();
+  }
+
+  terminate(): void {
+    if (this.worker) {
+      void this.worker.terminate();
+      this.worker = null;
+    }
+  }
+}
@@ -0,0 +1,30 @@
+import { Schema, Prop, SchemaFactory } from '@nestjs/mongoose';
+import { HydratedDocument, Schema as MongooseSchema } from 'mongoose';
+import { EngineLine } from '../interfaces/engine.interfaces';
+
+export type EngineEvaluationDocument = HydratedDocument<EngineEvaluation>;
+
+@Schema({ timestamps: true, collection: 'engine_evaluations' })
+export class EngineEvaluation {
+  // FEN normalizado + parámetros de búsqueda (ver EvaluationCacheService.buildKey)
+  @Prop({ required: true, unique: true })
+  key: string;
+
+  @Prop({ required: true })
+  fen: string;
+
+  @Prop({ required: true })
+  multiPv: number;
+
+  @Prop({ required: true })
+  engineVersion: string;
+
+  @Prop({ required: true })
+  depth: number;
+
+  @Prop({ type: [MongooseSchema.Types.Mixed], default: [] })
+  lines: EngineLine[];
+}
+
+export const EngineEvaluationSchema =
+  SchemaFactory.createForClass(EngineEvaluation);
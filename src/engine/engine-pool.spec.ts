@@ -0,0 +1,72 @@
+import { EnginePool } from './engine-pool';
+
+describe('EnginePool', () => {
+  it('leases idle workers without waiting', async () => {
+    const pool = new EnginePool(['a', 'b']);
+
+    await expect(pool.acquire()).resolves.toBe('a');
+    await expect(pool.acquire()).resolves.toBe('b');
+    expect(pool.idleCount).toBe(0);
+  });
+
+  it('hands released workers to waiters in FIFO order', async () => {
+    const pool = new EnginePool(['a']);
+    const order: string[] = [];
+
+    const first = await pool.acquire();
+    const second = pool.acquire().then((w) => order.push(`second:${w}`));
+    const third = pool.acquire().then((w) => order.push(`third:${w}`));
+    expect(pool.waitingCount).toBe(2);
+
+    pool.release(first);
+    await second;
+    pool.release('a');
+    await third;
+
+    expect(order).toEqual(['second:a', 'third:a']);
+    expect(pool.idleCount).toBe(0);
+  });
+
+  it('never runs more tasks than workers and keeps results isolated', async () => {
+    const pool = new EnginePool([1, 2]);
+    let running = 0;
+    let maxRunning = 0;
+
+    const results = await Promise.all(
+      [10, 20, 30, 40, 50].map((value) =>
+        pool.use(async (worker) => {
+          running++;
+          maxRunning = Math.max(maxRunning, running);
+          await new Promise((r) => setTimeout(r, 5));
+          running--;
+          return { worker, value };
+        }),
+      ),
+    );
+
+    expect(maxRunning).toBe(2);
+    expect(results.map((r) => r.value)).toEqual([10, 20, 30, 40, 50]);
+    expect(pool.idleCount).toBe(2);
+  });
+
+  it('returns the worker to the pool when the task throws', async () => {
+    const pool = new EnginePool(['a']);
+
+    await expect(
+      pool.use(async () => {
+        throw new Error('boom');
+      }),
+    ).rejects.toThrow('boom');
+    expect(pool.idleCount).toBe(1);
+  });
+
+  it('ignores double releases', async () => {
+    const pool = new EnginePool(['a']);
+    const worker = await pool.acquire();
+
+    pool.release(worker);
+    pool.release(worker);
+
+    expect(pool.idleCount).toBe(1);
+  });
+});
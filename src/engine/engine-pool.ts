@@ -0,0 +1,67 @@
+/**
+ * Fixed-size pool of engine workers.
+ * Callers lease an idle worker; when none is free they wait in FIFO order and
+ * a released worker is handed straight to the oldest waiter.
+ */
+export class EnginePool<T> {
+  private readonly idle: T[];
+  private readonly waiters: Array<(worker: T) => void> = [];
+
+  constructor(private readonly workers: T[]) {
+    if (workers.length === 0) {
+      throw new Error('Engine pool needs at least one worker');
+    }
+    this.idle = [...workers];
+  }
+
+  get size(): number {
+    return this.workers.length;
+  }
+
+  get idleCount(): number {
+    return this.idle.length;
+  }
+
+  get waitingCount(): number {
+    return this.waiters.length;
+  }
+
+  /**
+   * All workers, busy or not (for shutdown and broadcast commands)
+   */
+  get all(): readonly T[] {
+    return this.workers;
+  }
+
+  acquire(): Promise<T> {
+    const worker = this.idle.shift();
+    if (worker !== undefined) {
+      return Promise.resolve(worker);
+    }
+    return new Promise((resolve) => this.waiters.push(resolve));
+  }
+
+  release(worker: T): void {
+    if (!this.workers.includes(worker) || this.idle.includes(worker)) {
+      return;
+    }
+    const next = this.waiters.shift();
+    if (next) {
+      next(worker);
+    } else {
+      this.idle.push(worker);
+    }
+  }
+
+  /**
+   * Lease a worker for the duration of `task` and always give it back
+   */
+  async use<R>(task: (worker: T) => Promise<R>): Promise<R> {
+    const worker = await this.acquire();
+    try {
+      return await task(worker);
+    } finally {
+      this.release(worker);
+    }
+  }
+}
@@ -0,0 +1,385 @@
+import {
+  EngineAdapterKind,
+  EngineLine,
+  EngineStrength,
+  SearchLimit,
+} from '../interfaces/engine.interfaces';
+import { UciUtils } from './uci.util';
+import { EngineAdapter } from './engine-adapter';
+
+const MAX_SKILL_LEVEL = 20;
+
+/**
+ * A single Stockfish instance (native process or WASM, see EngineAdapter)
+ * with its own UCI state.
+ * Workers are never shared: the EnginePool leases one to a caller at a time,
+ * so the message buffer and the pending search belong to that caller only.
+ */
+export class EngineWorker {
+  private running = false;
+  private isReady = false;
+  private pendingResolve: ((lines: EngineLine[]) => void) | null = null;
+  private pendingReject: ((error: Error) => void) | null = null;
+  private pendingTimeout: NodeJS.Timeout | null = null;
+  private pendingAbort: (() => void) | null = null;
+  private currentMessages: string[] = [];
+  private currentFen = '';
+  private engineName: string | null = null;
+  private lastBestMove: string | null = null;
+
+  constructor(
+    readonly id: number,
+    private readonly adapter: EngineAdapter,
+    private readonly multiPv = 2,
+  ) {}
+
+  get isAlive(): boolean {
+    return this.running;
+  }
+
+  /**
+   * Native binary or WASM build
+   */
+  get kind(): EngineAdapterKind {
+    return this.adapter.kind;
+  }
+
+  /**
+   * Engine name as reported by `id name` during the UCI handshake
+   */
+  get name(): string | null {
+    return this.engineName;
+  }
+
+  /**
+   * Start the engine and complete the UCI handshake
+   */
+  async start(): Promise<void> {
+    console.log(`🔧 Starting Stockfish worker #${this.id} (${this.kind})`);
+
+    this.currentMessages = [];
+    await this.adapter.start(
+      (line) => this.handleMessage(line),
+      (code) => {
+        console.log(`Stockfish worker #${this.id} exited with code ${code}`);
+        this.running = false;
+        this.isReady = false;
+      },
+    );
+    this.running = true;
+
+    await this.sendCommand('uci');
+    await this.waitForMessage('uciok', 10000);
+
+    await this.sendCommand(`setoption name MultiPV value ${this.multiPv}`);
+    await this.sendCommand('setoption name UCI_ShowWDL value true');
+    await this.sendCommand('isready');
+    await this.waitForMessage('readyok', 10000);
+
+    this.isReady = true;
+  }
+
+  /**
+   * Run a fixed-depth search on a position.
+   * Resolves with the deepest complete set of lines, or partial results on timeout.
+   * Aborting `signal` stops the search; the lines found so far are still returned.
+   */
+  async evaluate(
+    fen: string,
+    depth: number,
+    signal?: AbortSignal,
+  ): Promise<EngineLine[]> {
+    // Timeout scales with depth (5 seconds + 2 seconds per depth level, max 60s)
+    const timeoutMs = Math.min(60000, Math.max(15000, 5000 + depth * 2000));
+    return this.search(fen, `go depth ${depth}`, timeoutMs, signal);
+  }
+
+  /**
+   * Search with a caller-chosen limit, MultiPV and optional searchmoves.
+   * MultiPV is set for this search only and restored afterwards, so the next
+   * caller leasing this worker gets the default number of lines.
+   */
+  async analyze(
+    fen: string,
+    limit: SearchLimit,
+    multiPv: number,
+    searchMoves: string[] = [],
+    signal?: AbortSignal,
+  ): Promise<EngineLine[]> {
+    if (!this.running || !this.isReady) {
+      await this.start();
+    }
+
+    let goCommand: string;
+    let timeoutMs: number;
+    if ('depth' in limit) {
+      goCommand = `go depth ${limit.depth}`;
+      timeoutMs = Math.min(60000, Math.max(15000, 5000 + limit.depth * 2000));
+    } else if ('movetime' in limit) {
+      goCommand = `go movetime ${limit.movetime}`;
+      timeoutMs = limit.movetime + 5000;
+    } else {
+      goCommand = `go nodes ${limit.nodes}`;
+      timeoutMs = 60000;
+    }
+    if (searchMoves.length > 0) {
+      goCommand += ` searchmoves ${searchMoves.join(' ')}`;
+    }
+
+    if (multiPv !== this.multiPv) {
+      await this.sendCommand(`setoption name MultiPV value ${multiPv}`);
+    }
+    try {
+      return await this.search(fen, goCommand, timeoutMs, signal);
+    } finally {
+      if (multiPv !== this.multiPv) {
+        await this.sendCommand(
+          `setoption name MultiPV value ${this.multiPv}`,
+        ).catch(() => undefined);
+      }
+    }
+  }
+
+  /**
+   * Pick a move to play with limited strength: UCI_LimitStrength/UCI_Elo when
+   * `elo` is set, otherwise Skill Level. The move comes from `bestmove`, which
+   * at reduced strength is not always the first line. The options are reset
+   * afterwards so the next evaluation on this worker runs at full strength.
+   * Resolves with null when there is no legal move.
+   */
+  async playMove(
+    fen: string,
+    strength: EngineStrength,
+    moveTimeMs: number,
+    signal?: AbortSignal,
+  ): Promise<string | null> {
+    if (!this.running || !this.isReady) {
+      await this.start();
+    }
+
+    if (strength.elo !== undefined) {
+      await this.sendCommand('setoption name UCI_LimitStrength value true');
+      await this.sendCommand(`setoption name UCI_Elo value ${strength.elo}`);
+    } else {
+      await this.sendCommand(
+        `setoption name Skill Level value ${strength.skillLevel ?? MAX_SKILL_LEVEL}`,
+      );
+    }
+
+    try {
+      this.lastBestMove = null;
+      await this.search(
+        fen,
+        `go movetime ${moveTimeMs}`,
+        moveTimeMs + 5000,
+        signal,
+      );
+      return this.lastBestMove;
+    } finally {
+      await this.sendCommand(
+        'setoption name UCI_LimitStrength value false',
+      ).catch(() => undefined);
+      await this.sendCommand(
+        `setoption name Skill Level value ${MAX_SKILL_LEVEL}`,
+      ).catch(() => undefined);
+    }
+  }
+
+  /**
+   * Send `go` for a position and resolve when `bestmove` arrives.
+   */
+  private async search(
+    fen: string,
+    goCommand: string,
+    timeoutMs: number,
+    signal?: AbortSignal,
+  ): Promise<EngineLine[]> {
+    if (!this.running || !this.isReady) {
+      await this.start();
+    }
+
+    this.clearSearchState();
+
+    try {
+      // Sync with engine before each position (without ucinewgame which is slow)
+      this.isReady = false;
+      await this.sendCommand('isready');
+      await this.waitForReady(10000);
+    } catch (error) {
+      console.error(
+        `Worker #${this.id} sync timeout, restarting...`,
+        error.message,
+      );
+      await this.restart();
+    }
+
+    this.currentMessages = [];
+    this.currentFen = fen;
+
+    await this.sendCommand(`position fen ${fen}`);
+    await this.sendCommand(goCommand);
+
+    return new Promise((resolve, reject) => {
+      this.pendingResolve = resolve;
+      this.pendingReject = reject;
+
+      if (signal) {
+        const onAbort = () => {
+          this.stop().catch(() => undefined);
+        };
+        signal.addEventListener('abort', onAbort, { once: true });
+        this.pendingAbort = () => signal.removeEventListener('abort', onAbort);
+        if (signal.aborted) onAbort();
+      }
+
+      // Timeout - return partial results instead of rejecting
+      this.pendingTimeout = setTimeout(async () => {
+        this.pendingTimeout = null;
+        if (!this.pendingResolve) return;
+
+        await this.sendCommand('stop').catch(() => undefined);
+        // Small delay for final results
+        await new Promise((r) => setTimeout(r, 200));
+        if (!this.pendingResolve) return;
+
+        const partialResults = this.parseAnalysisResults();
+        const pending = this.pendingResolve;
+        this.clearSearchState();
+        pending(partialResults);
+      }, timeoutMs);
+    });
+  }
+
+  /**
+   * Interrupt the running search; the pending evaluation resolves with what it has
+   */
+  async stop(): Promise<void> {
+    if (this.running) {
+      await this.sendCommand('stop');
+    }
+  }
+
+  /**
+   * Restart the process (for recovery)
+   */
+  async restart(): Promise<void> {
+    this.quit();
+    await new Promise((r) => setTimeout(r, 500));
+    await this.start();
+  }
+
+  /**
+   * Kill the engine; a search still running is rejected so its caller gives
+   * the worker back to the pool
+   */
+  quit(): void {
+    const reject = this.pendingReject;
+    this.clearSearchState();
+    reject?.(new Error(`Stockfish worker #${this.id} was stopped`));
+    if (this.running) {
+      this.adapter.terminate();
+      this.running = false;
+      this.isReady = false;
+    }
+  }
+
+  private clearSearchState(): void {
+    if (this.pendingTimeout) {
+      clearTimeout(this.pendingTimeout);
+      this.pendingTimeout = null;
+    }
+    if (this.pendingAbort) {
+      this.pendingAbort();
+      this.pendingAbort = null;
+    }
+    this.pendingResolve = null;
+    this.pendingReject = null;
+    this.currentMessages = [];
+  }
+
+  /**
+   * Handle a message from Stockfish
+   */
+  private handleMessage(message: string): void {
+    this.currentMessages.push(message);
+
+    if (message === 'readyok') {
+      this.isReady = true;
+    }
+
+    if (message.startsWith('id name ')) {
+      this.engineName = message.substring('id name '.length).trim();
+    }
+
+    // Check for bestmove (analysis complete)
+    if (message.startsWith('bestmove')) {
+      const move = message.split(/\s+/)[1];
+      this.lastBestMove = move && move !== '(none)' ? move : null;
+    }
+    if (message.startsWith('bestmove') && this.pendingResolve) {
+      const lines = this.parseAnalysisResults();
+      const resolve = this.pendingResolve;
+      this.clearSearchState();
+      resolve(lines);
+    }
+  }
+
+  /**
+   * Parse analysis results from accumulated messages
+   * Returns best available results even if target depth not reached
+   */
+  private parseAnalysisResults(): EngineLine[] {
+    return UciUtils.buildLines(this.currentMessages, this.currentFen);
+  }
+
+  /**
+   * Send a command to Stockfish
+   */
+  private sendCommand(command: string): Promise<void> {
+    if (!this.running) {
+      return Promise.reject(new Error('Stockfish not initialized'));
+    }
+    return this.adapter.send(command);
+  }
+
+  /**
+   * Wait for Stockfish to be ready
+   */
+  private waitForReady(timeout = 5000): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const startTime = Date.now();
+      const check = () => {
+        if (this.isReady) {
+          resolve();
+        } else if (Date.now() - startTime > timeout) {
+          reject(new Error('Stockfish ready timeout'));
+        } else {
+          setTimeout(check, 50);
+        }
+      };
+      check();
+    });
+  }
+
+  /**
+   * Wait for a specific message from Stockfish
+   */
+  private waitForMessage(
+    expectedMessage: string,
+    timeout = 10000,
+  ): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const startTime = Date.now();
+      const check = () => {
+        if (this.currentMessages.some((msg) => msg.includes(expectedMessage))) {
+          resolve();
+        } else if (Date.now() - startTime > timeout) {
+          reject(new Error(`Timeout waiting for: ${expectedMessage}`));
+        } else {
+          setTimeout(check, 50);
+        }
+      };
+      check();
+    });
+  }
+}
@@ -0,0 +1,19 @@
+import { Controller, Delete, Get } from '@nestjs/common';
+import { EvaluationCacheService } from './evaluation-cache.service';
+import { Auth } from '../auth/auth.decorators';
+
+@Controller('engine')
+@Auth('admin')
+export class EngineController {
+  constructor(private readonly evaluationCache: EvaluationCacheService) {}
+
+  @Get('cache/stats')
+  getCacheStats() {
+    return this.evaluationCache.getStats();
+  }
+
+  @Delete('cache')
+  async clearCache() {
+    return await this.evaluationCache.clear();
+  }
+}
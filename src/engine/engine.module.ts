@@ -1,8 +1,21 @@
 import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
 import { EngineService } from './engine.service';
+import { EvaluationCacheService } from './evaluation-cache.service';
+import { EngineController } from './engine.controller';
+import {
+  EngineEvaluation,
+  EngineEvaluationSchema,
+} from './engine-evaluation.schema';
 
 @Module({
-  providers: [EngineService],
+  imports: [
+    MongooseModule.forFeature([
+      { name: EngineEvaluation.name, schema: EngineEvaluationSchema },
+    ]),
+  ],
+  controllers: [EngineController],
+  providers: [EngineService, EvaluationCacheService],
   exports: [EngineService], // Exportamos el servicio para otros módulos
 })
 export class EngineModule {}
@@ -1,18 +1,169 @@
+import { BadRequestException } from '@nestjs/common';
 import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
 import { EngineService } from './engine.service';
+import { EvaluationCacheService } from './evaluation-cache.service';
+import { EnginePool } from './engine-pool';
+
+const START_FEN = 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1';
+const MATED_FEN =
+  'rnb1kbnr/pppp1ppp/8/4p3/6Pq/5P2/PPPPP2P/RNBQKBNR w KQkq - 1 3';
 
 describe('EngineService', () => {
   let service: EngineService;
+  let evaluationCache: { get: jest.Mock; set: jest.Mock };
+  let worker: { name: string; analyze: jest.Mock };
 
   beforeEach(async () => {
+    evaluationCache = { get: jest.fn(), set: jest.fn() };
     const module: TestingModule = await Test.createTestingModule({
-      providers: [EngineService],
+      providers: [
+        EngineService,
+        { provide: ConfigService, useValue: new ConfigService() },
+        { provide: EvaluationCacheService, useValue: evaluationCache },
+      ],
     }).compile();
 
     service = module.get<EngineService>(EngineService);
+    // Sin Stockfish: un worker falso en lugar del pool real
+    worker = {
+      name: 'Stockfish 17',
+      analyze: jest.fn().mockResolvedValue([{ id: 1, moveUCI: 'e2e4' }]),
+    };
+    Object.assign(service, { pool: new EnginePool([worker]) });
   });
 
   it('should be defined', () => {
     expect(service).toBeDefined();
   });
+
+  it('searches one position with its own limit, MultiPV and searchmoves', async () => {
+    const evaluation = await service.analyzePosition({
+      fen: START_FEN,
+      movetime: 500,
+      multiPv: 3,
+      searchmoves: ['e4', 'd2d4', 'e2e4'],
+    });
+
+    expect(worker.analyze).toHaveBeenCalledWith(
+      START_FEN,
+      { movetime: 500 },
+      3,
+      ['e2e4', 'd2d4'],
+      undefined,
+    );
+    expect(evaluation).toMatchObject({
+      turn: 'white',
+      limit: { movetime: 500 },
+      multiPv: 3,
+      searchMoves: ['e2e4', 'd2d4'],
+      terminal: null,
+      lines: [{ id: 1, moveUCI: 'e2e4' }],
+    });
+    // Solo las búsquedas por profundidad se guardan en la caché
+    expect(evaluationCache.get).not.toHaveBeenCalled();
+    expect(evaluationCache.set).not.toHaveBeenCalled();
+  });
+
+  it('caches depth searches per MultiPV and skips terminal positions', async () => {
+    await service.analyzePosition({ fen: START_FEN });
+
+    expect(worker.analyze).toHaveBeenCalledWith(
+      START_FEN,
+      { depth: 18 },
+      1,
+      [],
+      undefined,
+    );
+    expect(evaluationCache.set).toHaveBeenCalledWith(
+      START_FEN,
+      { multiPv: 1, engineVersion: 'Stockfish 17' },
+      [{ id: 1, moveUCI: 'e2e4' }],
+    );
+
+    expect(await service.analyzePosition({ fen: MATED_FEN })).toMatchObject({
+      terminal: 'checkmate',
+      lines: [],
+    });
+    expect(worker.analyze).toHaveBeenCalledTimes(1);
+  });
+
+  it('rejects invalid requests', async () => {
+    for (const request of [
+      { fen: 'not a fen' },
+      { fen: START_FEN, depth: 10, nodes: 1000 },
+      { fen: START_FEN, depth: 0 },
+      { fen: START_FEN, multiPv: 11 },
+      { fen: START_FEN, searchmoves: ['e5'] },
+      { fen: START_FEN, searchmoves: 'e4' as unknown as string[] },
+    ]) {
+      await expect(service.analyzePosition(request)).rejects.toThrow(
+        BadRequestException,
+      );
+    }
+    expect(worker.analyze).not.toHaveBeenCalled();
+  });
+
+  describe('engine selection', () => {
+    const startWith = async (config: Record<string, string>) => {
+      const engine = new EngineService(
+        new ConfigService({ ENGINE_POOL_SIZE: '1', ...config }),
+        evaluationCache as unknown as EvaluationCacheService,
+      );
+      await engine.onModuleInit();
+      return engine;
+    };
+
+    beforeEach(() => {
+      jest.spyOn(console, 'log').mockImplementation();
+      jest.spyOn(console, 'warn').mockImplementation();
+      jest.spyOn(console, 'error').mockImplementation();
+    });
+
+    afterEach(() => jest.restoreAllMocks());
+
+    it('falls back to the WASM build when the native binary is missing', async () => {
+      const engine = await startWith({ STOCKFISH_PATH: '/missing/stockfish' });
+
+      expect(engine.engineInfo).toEqual({
+        adapter: 'wasm',
+        name: expect.stringMatching(/^Stockfish 16 .*WASM/),
+        version: '16',
+      });
+      expect(console.warn).toHaveBeenCalledWith(
+        expect.stringContaining('using the WASM build'),
+      );
+      engine.onModuleDestroy();
+    }, 30000);
+
+    it('falls back to the WASM build when the native binary cannot run', async () => {
+      const dir = mkdtempSync(join(tmpdir(), 'stockfish-'));
+      const binary = join(dir, 'stockfish');
+      writeFileSync(binary, 'not a binary', { mode: 0o644 });
+
+      try {
+        const engine = await startWith({ STOCKFISH_PATH: binary });
+
+        expect(engine.engineInfo.adapter).toBe('wasm');
+        expect(console.warn).toHaveBeenCalledWith(
+          expect.stringContaining('Native Stockfish failed to start'),
+        );
+        engine.onModuleDestroy();
+      } finally {
+        rmSync(dir, { recursive: true, force: true });
+      }
+    }, 30000);
+
+    it('fails to start when ENGINE_ADAPTER=native and there is no binary', async () => {
+      await expect(
+        startWith({
+          STOCKFISH_PATH: '/missing/stockfish',
+          ENGINE_ADAPTER: 'native',
+        }),
+      ).rejects.toThrow('Stockfish binary not found');
+    });
+  });
 });
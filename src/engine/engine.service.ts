@@ -1,373 +1,503 @@
-import { Injectable, OnModuleDestroy, OnModuleInit } from '@nestjs/common';
+import {
+  BadRequestException,
+  Injectable,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 import { Chess, validateFen } from 'chess.js';
-import { spawn, ChildProcessWithoutNullStreams } from 'child_process';
-import { join } from 'path';
 import { existsSync } from 'fs';
-
-interface Evaluation {
-  type: 'cp' | 'mate';
-  value: number;
-}
-
-interface EngineLine {
-  id: number;
-  depth: number;
-  evaluation: Evaluation;
-  moveUCI: string;
-  moveSAN?: string;
+import { join } from 'path';
+import { Evaluation } from '../interfaces/analysis.interfaces';
+import {
+  EngineAdapterKind,
+  EngineInfo,
+  EngineLine,
+  EngineStrength,
+  PositionEvaluation,
+  PositionEvaluationRequest,
+  SearchLimit,
+} from '../interfaces/engine.interfaces';
+import { EngineWorker } from './engine-worker';
+import {
+  EngineAdapter,
+  NativeEngineAdapter,
+  WasmEngineAdapter,
+} from './engine-adapter';
+import { EnginePool } from './engine-pool';
+import { EvaluationCacheService } from './evaluation-cache.service';
+
+const DEFAULT_POOL_SIZE = 2;
+const DEFAULT_MULTI_PV = 2;
+const MAX_MULTI_PV = 10;
+const DEFAULT_EVALUATE_DEPTH = 18;
+// Upper bounds for POST /chess/evaluate so one request cannot hold a worker for minutes
+const MAX_DEPTH = 40;
+const MAX_MOVETIME_MS = 60000;
+const MAX_NODES = 50_000_000;
+const ENGINE_ADAPTERS = ['auto', 'native', 'wasm'] as const;
+
+export interface EvaluateOptions {
+  /** Aborting stops the search (or skips it if still queued for a worker) */
+  signal?: AbortSignal;
 }
 
 @Injectable()
 export class EngineService implements OnModuleInit, OnModuleDestroy {
-  private stockfish: ChildProcessWithoutNullStreams | null = null;
+  private pool: EnginePool<EngineWorker> | null = null;
+  private poolStarting: Promise<EnginePool<EngineWorker>> | null = null;
   private stockfishPath: string;
-  private isReady = false;
-  private pendingResolve: ((lines: EngineLine[]) => void) | null = null;
-  private currentMessages: string[] = [];
-  private currentDepth = 0;
-
-  constructor() {
-    // Determine stockfish path based on OS
+  private poolSize: number;
+  private adapterMode: (typeof ENGINE_ADAPTERS)[number];
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly evaluationCache: EvaluationCacheService,
+  ) {
+    // Determine stockfish path based on OS (STOCKFISH_PATH overrides it)
     const isWindows = process.platform === 'win32';
-    const binaryName = isWindows ? 'stockfish-windows-x86-64-avx2.exe' : 'stockfish';
-    this.stockfishPath = join(__dirname, 'stockfish', binaryName);
+    const binaryName = isWindows
+      ? 'stockfish-windows-x86-64-avx2.exe'
+      : 'stockfish';
+    this.stockfishPath =
+      this.configService.get<string>('STOCKFISH_PATH') ??
+      join(__dirname, 'stockfish', binaryName);
+
+    const configuredSize = parseInt(
+      this.configService.get<string>('ENGINE_POOL_SIZE') ?? '',
+      10,
+    );
+    this.poolSize =
+      Number.isInteger(configuredSize) && configuredSize > 0
+        ? configuredSize
+        : DEFAULT_POOL_SIZE;
+
+    // auto: el binario nativo si existe y arranca, si no la versión WASM
+    const configuredAdapter =
+      this.configService.get<string>('ENGINE_ADAPTER') ?? 'auto';
+    this.adapterMode = ENGINE_ADAPTERS.find(
+      (mode) => mode === configuredAdapter,
+    );
+    if (!this.adapterMode) {
+      console.warn(
+        `⚠️ ENGINE_ADAPTER "${configuredAdapter}" is not auto, native or wasm, using auto`,
+      );
+      this.adapterMode = 'auto';
+    }
   }
 
   async onModuleInit() {
-    await this.initEngine();
+    await this.getPool();
   }
 
   /**
-   * Initialize the Stockfish engine
+   * Number of Stockfish processes available for concurrent searches
    */
-  private async initEngine(): Promise<void> {
-    // Check if binary exists
-    if (!existsSync(this.stockfishPath)) {
-      console.error(`Stockfish binary not found at: ${this.stockfishPath}`);
-      throw new Error('Stockfish binary not found. Please ensure stockfish is installed.');
-    }
-
-    console.log(`🔧 Starting Stockfish from: ${this.stockfishPath}`);
-
-    // Spawn the stockfish process
-    this.stockfish = spawn(this.stockfishPath);
-
-    // Handle stdout
-    this.stockfish.stdout.on('data', (data: Buffer) => {
-      const lines = data.toString().split('\n').filter(line => line.trim());
-      for (const line of lines) {
-        this.handleMessage(line);
-      }
-    });
-
-    // Handle stderr
-    this.stockfish.stderr.on('data', (data: Buffer) => {
-      console.error(`Stockfish stderr: ${data}`);
-    });
-
-    // Handle exit
-    this.stockfish.on('close', (code) => {
-      console.log(`Stockfish process exited with code ${code}`);
-      this.stockfish = null;
-      this.isReady = false;
-    });
-
-    // Initialize UCI protocol - wait for 'uciok'
-    this.sendCommand('uci');
-    await this.waitForMessage('uciok', 10000);
-
-    // Configure MultiPV
-    this.sendCommand('setoption name MultiPV value 2');
-    this.sendCommand('isready');
-    await this.waitForMessage('readyok', 10000);
-
-    this.isReady = true;
-    console.log('✅ Stockfish engine initialized successfully');
+  get concurrency(): number {
+    return this.poolSize;
   }
 
   /**
-   * Handle a message from Stockfish
+   * Engine name reported by the workers (part of the evaluation cache key)
    */
-  private handleMessage(message: string): void {
-    // Store messages for analysis parsing
-    this.currentMessages.push(message);
+  get engineVersion(): string {
+    return this.pool?.all[0]?.name ?? 'unknown';
+  }
 
-    // Check for ready state
-    if (message === 'readyok') {
-      this.isReady = true;
-    }
+  /**
+   * Engine behind the pool, as recorded in each report
+   */
+  get engineInfo(): EngineInfo {
+    const name = this.engineVersion;
+    return {
+      adapter: this.pool?.all[0]?.kind ?? null,
+      name,
+      version: /^\S+\s+(\S+)/.exec(name)?.[1] ?? null,
+    };
+  }
 
-    // Parse depth from info messages
-    const depthMatch = message.match(/depth (\d+)/);
-    if (depthMatch) {
-      this.currentDepth = parseInt(depthMatch[1]);
+  /**
+   * Start the worker pool once; concurrent callers share the same startup
+   */
+  private getPool(): Promise<EnginePool<EngineWorker>> {
+    if (this.pool) {
+      return Promise.resolve(this.pool);
     }
-
-    // Check for bestmove (analysis complete)
-    if (message.startsWith('bestmove') && this.pendingResolve) {
-      const lines = this.parseAnalysisResults();
-      this.pendingResolve(lines);
-      this.pendingResolve = null;
-      this.currentMessages = [];
+    if (!this.poolStarting) {
+      this.poolStarting = this.initPool().finally(() => {
+        this.poolStarting = null;
+      });
     }
+    return this.poolStarting;
   }
 
   /**
-   * Parse analysis results from accumulated messages
-   * Returns best available results even if target depth not reached
+   * Initialize the Stockfish worker pool on the configured adapter. In auto
+   * mode a missing or broken native binary falls back to WASM.
    */
-  private parseAnalysisResults(): EngineLine[] {
-    const linesByDepth: Map<number, EngineLine[]> = new Map();
-
-    for (const message of this.currentMessages) {
-      if (!message.startsWith('info depth')) continue;
-
-      const depthMatch = message.match(/depth (\d+)/);
-      const multipvMatch = message.match(/multipv (\d+)/);
-      const moveMatch = message.match(/ pv ([a-h][1-8][a-h][1-8][qrbnQRBN]?)/);
-      const cpMatch = message.match(/score cp (-?\d+)/);
-      const mateMatch = message.match(/score mate (-?\d+)/);
+  private async initPool(): Promise<EnginePool<EngineWorker>> {
+    if (this.adapterMode !== 'auto') {
+      return this.startPool(this.adapterMode);
+    }
+    if (!existsSync(this.stockfishPath)) {
+      console.warn(
+        `⚠️ Stockfish binary not found at ${this.stockfishPath}, using the WASM build`,
+      );
+      return this.startPool('wasm');
+    }
+    try {
+      return await this.startPool('native');
+    } catch (error) {
+      console.warn(
+        `⚠️ Native Stockfish failed to start (${error.message}), using the WASM build`,
+      );
+      return this.startPool('wasm');
+    }
+  }
 
-      if (!depthMatch || !moveMatch) continue;
+  private async startPool(
+    kind: EngineAdapterKind,
+  ): Promise<EnginePool<EngineWorker>> {
+    const createAdapter = (): EngineAdapter =>
+      kind === 'native'
+        ? new NativeEngineAdapter(this.stockfishPath)
+        : new WasmEngineAdapter();
+    const workers = Array.from(
+      { length: this.poolSize },
+      (_, i) => new EngineWorker(i + 1, createAdapter(), DEFAULT_MULTI_PV),
+    );
 
-      const depth = parseInt(depthMatch[1]);
-      const id = multipvMatch ? parseInt(multipvMatch[1]) : 1;
-      const moveUCI = moveMatch[1];
+    try {
+      await Promise.all(workers.map((worker) => worker.start()));
+    } catch (error) {
+      workers.forEach((worker) => worker.quit());
+      throw error;
+    }
 
-      const evaluation: Evaluation = {
-        type: mateMatch ? 'mate' : 'cp',
-        value: mateMatch ? parseInt(mateMatch[1]) : (cpMatch ? parseInt(cpMatch[1]) : 0),
-      };
+    this.pool = new EnginePool(workers);
+    console.log(
+      `✅ Stockfish pool initialized with ${this.poolSize} ${kind} worker(s)`,
+    );
+    return this.pool;
+  }
 
-      if (!linesByDepth.has(depth)) {
-        linesByDepth.set(depth, []);
+  /**
+   * Check if position is terminal (checkmate or stalemate)
+   */
+  private isTerminalPosition(fen: string): {
+    isTerminal: boolean;
+    result?: string;
+  } {
+    try {
+      const chess = new Chess(fen);
+      if (chess.isCheckmate()) {
+        return { isTerminal: true, result: 'checkmate' };
       }
-
-      const depthLines = linesByDepth.get(depth)!;
-      if (!depthLines.some(l => l.id === id)) {
-        depthLines.push({ id, depth, evaluation, moveUCI });
+      if (chess.isStalemate()) {
+        return { isTerminal: true, result: 'stalemate' };
+      }
+      if (chess.isDraw()) {
+        return { isTerminal: true, result: 'draw' };
       }
+      return { isTerminal: false };
+    } catch {
+      return { isTerminal: false };
     }
+  }
 
-    // Get the highest depth that has results
-    const depths = Array.from(linesByDepth.keys()).sort((a, b) => b - a);
-    const bestDepth = depths[0];
+  /**
+   * Evaluate a position using Stockfish
+   * The search runs on whichever pool worker is leased first.
+   */
+  async evaluatePosition(
+    fen: string,
+    depth: number,
+    options: EvaluateOptions = {},
+  ): Promise<EngineLine[]> {
+    const terminalResult = this.getTerminalResult(fen, depth);
+    if (terminalResult) {
+      return terminalResult;
+    }
 
-    if (!bestDepth) {
-      return [];
+    const pool = await this.getPool();
+    const cacheParams = {
+      multiPv: DEFAULT_MULTI_PV,
+      engineVersion: this.engineVersion,
+    };
+    const cached = await this.evaluationCache.get(fen, depth, cacheParams);
+    if (cached) {
+      return cached;
     }
 
-    const lines = linesByDepth.get(bestDepth) || [];
-    lines.sort((a, b) => a.id - b.id);
+    const lines = await pool.use(async (worker) => {
+      if (options.signal?.aborted) {
+        return [];
+      }
+      return worker.evaluate(fen, depth, options.signal);
+    });
+
+    await this.evaluationCache.set(fen, cacheParams, lines);
     return lines;
   }
 
   /**
-   * Send a command to Stockfish
+   * Search with any limit at the default MultiPV. Depth limits go through
+   * evaluatePosition and its cache; node and time limits always search.
    */
-  private sendCommand(command: string): Promise<void> {
-    return new Promise((resolve, reject) => {
-      if (!this.stockfish) {
-        reject(new Error('Stockfish not initialized'));
-        return;
+  async searchPosition(
+    fen: string,
+    limit: SearchLimit,
+    options: EvaluateOptions = {},
+  ): Promise<EngineLine[]> {
+    if ('depth' in limit) {
+      return this.evaluatePosition(fen, limit.depth, options);
+    }
+    const terminalResult = this.getTerminalResult(fen, 0);
+    if (terminalResult) {
+      return terminalResult;
+    }
+
+    const pool = await this.getPool();
+    return pool.use(async (worker) => {
+      if (options.signal?.aborted) {
+        return [];
       }
-      this.stockfish.stdin.write(`${command}\n`, (err) => {
-        if (err) reject(err);
-        else resolve();
-      });
+      return worker.analyze(fen, limit, DEFAULT_MULTI_PV, [], options.signal);
     });
   }
 
   /**
-   * Wait for Stockfish to be ready
+   * Evaluate a single position with the limit, MultiPV and searchmoves of the
+   * request. Depth searches over every move share the evaluation cache; time
+   * and node limits depend on the machine, so those are never cached.
    */
-  private waitForReady(timeout = 5000): Promise<void> {
-    return new Promise((resolve, reject) => {
-      const startTime = Date.now();
-      const check = () => {
-        if (this.isReady) {
-          resolve();
-        } else if (Date.now() - startTime > timeout) {
-          reject(new Error('Stockfish ready timeout'));
-        } else {
-          setTimeout(check, 50);
-        }
-      };
-      check();
+  async analyzePosition(
+    request: PositionEvaluationRequest,
+    options: EvaluateOptions = {},
+  ): Promise<PositionEvaluation> {
+    const fen = typeof request?.fen === 'string' ? request.fen.trim() : '';
+    if (!this.isValidFen(fen)) {
+      throw new BadRequestException('Envía una posición FEN válida en fen.');
+    }
+    const limit = this.parseSearchLimit(request);
+    const multiPv = this.parseMultiPv(request.multiPv);
+    const searchMoves = this.parseSearchMoves(fen, request.searchmoves);
+
+    const chess = new Chess(fen);
+    const evaluation: PositionEvaluation = {
+      fen,
+      turn: chess.turn() === 'w' ? 'white' : 'black',
+      limit,
+      multiPv,
+      searchMoves: searchMoves.length > 0 ? searchMoves : null,
+      terminal: null,
+      lines: [],
+    };
+    const terminalCheck = this.isTerminalPosition(fen);
+    if (terminalCheck.isTerminal) {
+      evaluation.terminal =
+        terminalCheck.result as PositionEvaluation['terminal'];
+      return evaluation;
+    }
+
+    const pool = await this.getPool();
+    const cachedDepth =
+      'depth' in limit && searchMoves.length === 0 ? limit.depth : null;
+    const cacheParams = { multiPv, engineVersion: this.engineVersion };
+    const cached =
+      cachedDepth !== null &&
+      (await this.evaluationCache.get(fen, cachedDepth, cacheParams));
+    if (cached) {
+      return { ...evaluation, lines: cached };
+    }
+
+    const lines = await pool.use(async (worker) => {
+      if (options.signal?.aborted) {
+        return [];
+      }
+      return worker.analyze(fen, limit, multiPv, searchMoves, options.signal);
     });
+    if (cachedDepth !== null && lines.length > 0) {
+      await this.evaluationCache.set(fen, cacheParams, lines);
+    }
+    return { ...evaluation, lines };
   }
 
   /**
-   * Wait for a specific message from Stockfish
+   * Exactly one of depth, movetime or nodes; depth 18 when none is given
    */
-  private waitForMessage(expectedMessage: string, timeout = 10000): Promise<void> {
-    return new Promise((resolve, reject) => {
-      const startTime = Date.now();
-      const check = () => {
-        // Check if any accumulated message contains expected message
-        if (this.currentMessages.some(msg => msg.includes(expectedMessage))) {
-          resolve();
-        } else if (Date.now() - startTime > timeout) {
-          reject(new Error(`Timeout waiting for: ${expectedMessage}`));
-        } else {
-          setTimeout(check, 50);
-        }
-      };
-      check();
-    });
+  private parseSearchLimit(request: PositionEvaluationRequest): SearchLimit {
+    const given = (['depth', 'movetime', 'nodes'] as const).filter(
+      (key) => request[key] !== undefined && request[key] !== null,
+    );
+    if (given.length > 1) {
+      throw new BadRequestException('Usa solo uno de depth, movetime o nodes.');
+    }
+    const [key = 'depth'] = given;
+    const max = {
+      depth: MAX_DEPTH,
+      movetime: MAX_MOVETIME_MS,
+      nodes: MAX_NODES,
+    }[key];
+    const value = Number(request[key] ?? DEFAULT_EVALUATE_DEPTH);
+    if (!Number.isInteger(value) || value < 1 || value > max) {
+      throw new BadRequestException(
+        `${key} debe ser un entero entre 1 y ${max}.`,
+      );
+    }
+    return { [key]: value } as SearchLimit;
+  }
+
+  private parseMultiPv(multiPv: unknown): number {
+    const value = Number(multiPv ?? 1);
+    if (!Number.isInteger(value) || value < 1 || value > MAX_MULTI_PV) {
+      throw new BadRequestException(
+        `multiPv debe ser un entero entre 1 y ${MAX_MULTI_PV}.`,
+      );
+    }
+    return value;
   }
 
   /**
-   * Check if position is terminal (checkmate or stalemate)
+   * Legal moves in UCI; each one may be sent in UCI or SAN
    */
-  private isTerminalPosition(fen: string): { isTerminal: boolean; result?: string } {
-    try {
-      const chess = new Chess(fen);
-      if (chess.isCheckmate()) {
-        return { isTerminal: true, result: 'checkmate' };
-      }
-      if (chess.isStalemate()) {
-        return { isTerminal: true, result: 'stalemate' };
-      }
-      if (chess.isDraw()) {
-        return { isTerminal: true, result: 'draw' };
+  private parseSearchMoves(fen: string, searchMoves: unknown): string[] {
+    if (searchMoves === undefined || searchMoves === null) {
+      return [];
+    }
+    if (!Array.isArray(searchMoves)) {
+      throw new BadRequestException(
+        'searchmoves debe ser una lista de jugadas.',
+      );
+    }
+
+    const legal = new Chess(fen).moves({ verbose: true });
+    const uciMoves = searchMoves.map((input) => {
+      const move = legal.find(
+        (candidate) =>
+          candidate.san === input ||
+          candidate.lan === String(input).toLowerCase(),
+      );
+      if (!move) {
+        throw new BadRequestException(`Jugada ilegal en searchmoves: ${input}`);
       }
-      return { isTerminal: false };
-    } catch {
-      return { isTerminal: false };
+      return move.lan;
+    });
+    return [...new Set(uciMoves)];
+  }
+
+  /**
+   * Choose a move to play at the given strength, searching for moveTimeMs.
+   * Never cached: at reduced strength the choice is deliberately random.
+   * Returns null in terminal positions.
+   */
+  async playMove(
+    fen: string,
+    strength: EngineStrength,
+    moveTimeMs: number,
+    options: EvaluateOptions = {},
+  ): Promise<{ uci: string; san: string } | null> {
+    if (this.getTerminalResult(fen, 0)) {
+      return null;
     }
+
+    const pool = await this.getPool();
+    const uci = await pool.use(async (worker) => {
+      if (options.signal?.aborted) {
+        return null;
+      }
+      return worker.playMove(fen, strength, moveTimeMs, options.signal);
+    });
+    return uci ? { uci, san: this.convertUCItoSAN(uci, fen) } : null;
   }
 
   /**
-   * Evaluate a position using Stockfish
+   * Validate the FEN and return a synthetic evaluation for terminal positions
+   * (checkmate, stalemate, draw), or null when a search is needed.
    */
-  async evaluatePosition(fen: string, depth: number): Promise<EngineLine[]> {
+  private getTerminalResult(fen: string, depth: number): EngineLine[] | null {
     if (!this.isValidFen(fen)) {
       throw new Error('Invalid FEN format');
     }
 
-    // Check for terminal position (checkmate, stalemate, draw)
     const terminalCheck = this.isTerminalPosition(fen);
-    if (terminalCheck.isTerminal) {
-      // Return a synthetic evaluation for terminal positions
-      const chess = new Chess(fen);
-      const evaluation: Evaluation = terminalCheck.result === 'checkmate'
+    if (!terminalCheck.isTerminal) {
+      return null;
+    }
+
+    const evaluation: Evaluation =
+      terminalCheck.result === 'checkmate'
         ? { type: 'mate', value: 0 } // Already mated
         : { type: 'cp', value: 0 }; // Draw
 
-      return [{
+    return [
+      {
         id: 1,
         depth: depth,
         evaluation,
         moveUCI: '', // No legal moves in terminal position
-      }];
-    }
-
-    return this.evaluatePositionInternal(fen, depth);
+        pv: [],
+        pvSAN: [],
+      },
+    ];
   }
 
   /**
-   * Internal position evaluation
+   * Evaluate position with retry logic
+   * Tries up to 3 times with decreasing depth if no results, on the same leased worker
    */
-  private async evaluatePositionInternal(fen: string, depth: number): Promise<EngineLine[]> {
-    // Ensure engine is ready
-    if (!this.stockfish || !this.isReady) {
-      await this.initEngine();
+  async evaluatePositionWithRetry(
+    fen: string,
+    depth: number,
+    maxRetries = 3,
+  ): Promise<EngineLine[]> {
+    const terminalResult = this.getTerminalResult(fen, depth);
+    if (terminalResult) {
+      return terminalResult;
     }
 
-    // CRITICAL: Clear state BEFORE sending new position
-    this.currentMessages = [];
-    this.currentDepth = 0;
-    this.pendingResolve = null;
-
-    try {
-      // Sync with engine before each position (without ucinewgame which is slow)
-      await this.sendCommand('isready');
-      await this.waitForReady(10000);
-    } catch (error) {
-      console.error('Engine sync timeout, restarting...', error.message);
-      await this.restartEngine();
+    const pool = await this.getPool();
+    const cacheParams = {
+      multiPv: DEFAULT_MULTI_PV,
+      engineVersion: this.engineVersion,
+    };
+    const cached = await this.evaluationCache.get(fen, depth, cacheParams);
+    if (cached) {
+      return cached;
     }
 
-    // Clear messages again after sync
-    this.currentMessages = [];
-
-    // Set position and start analysis
-    await this.sendCommand(`position fen ${fen}`);
-    await this.sendCommand(`go depth ${depth}`);
-
-    // Timeout scales with depth (5 seconds + 2 seconds per depth level, max 60s)
-    const timeoutMs = Math.min(60000, Math.max(15000, 5000 + depth * 2000));
-
-    // Wait for analysis to complete
-    return new Promise((resolve) => {
-      this.pendingResolve = resolve;
-
-      // Timeout - return partial results instead of rejecting
-      setTimeout(async () => {
-        if (this.pendingResolve) {
-          await this.sendCommand('stop');
-          // Small delay for final results
-          await new Promise(r => setTimeout(r, 200));
-          const partialResults = this.parseAnalysisResults();
-          const resolve = this.pendingResolve;
-          // CRITICAL: Clear state BEFORE resolving to prevent race conditions
-          this.pendingResolve = null;
-          this.currentMessages = [];
-          if (resolve) {
-            resolve(partialResults);
-          }
-        }
-      }, timeoutMs);
-    });
-  }
+    return pool.use(async (worker) => {
+      let currentDepth = depth;
 
-  /**
-   * Evaluate position with retry logic
-   * Tries up to 3 times with decreasing depth if no results
-   */
-  async evaluatePositionWithRetry(fen: string, depth: number, maxRetries = 3): Promise<EngineLine[]> {
-    let currentDepth = depth;
-
-    for (let attempt = 0; attempt < maxRetries; attempt++) {
-      try {
-        const results = await this.evaluatePosition(fen, currentDepth);
+      for (let attempt = 0; attempt < maxRetries; attempt++) {
+        try {
+          const results = await worker.evaluate(fen, currentDepth);
 
-        if (results && results.length > 0) {
-          return results;
-        }
+          if (results && results.length > 0) {
+            await this.evaluationCache.set(fen, cacheParams, results);
+            return results;
+          }
 
-        // No results - try with lower depth
-        console.warn(`Attempt ${attempt + 1}: No results for ${fen.substring(0, 30)}... at depth ${currentDepth}`);
-        currentDepth = Math.max(8, currentDepth - 4); // Reduce depth, minimum 8
+          // No results - try with lower depth
+          console.warn(
+            `Attempt ${attempt + 1}: No results for ${fen.substring(0, 30)}... at depth ${currentDepth}`,
+          );
+          currentDepth = Math.max(8, currentDepth - 4); // Reduce depth, minimum 8
 
-        // Reset engine if it seems stuck
-        if (attempt > 0) {
-          console.log('Restarting engine...');
-          await this.restartEngine();
+          // Reset worker if it seems stuck
+          if (attempt > 0) {
+            console.log(`Restarting worker #${worker.id}...`);
+            await worker.restart();
+          }
+        } catch (error) {
+          console.error(`Attempt ${attempt + 1} failed:`, error.message);
+          currentDepth = Math.max(8, currentDepth - 4);
         }
-      } catch (error) {
-        console.error(`Attempt ${attempt + 1} failed:`, error.message);
-        currentDepth = Math.max(8, currentDepth - 4);
       }
-    }
 
-    // Final fallback - return empty (will be handled by AnalysisService)
-    return [];
-  }
-
-  /**
-   * Restart the engine (for recovery)
-   */
-  private async restartEngine(): Promise<void> {
-    if (this.stockfish) {
-      this.stockfish.stdin.write('quit\n');
-      this.stockfish.kill();
-      this.stockfish = null;
-      this.isReady = false;
-    }
-    await new Promise(r => setTimeout(r, 500));
-    await this.initEngine();
+      // Final fallback - return empty (will be handled by AnalysisService)
+      return [];
+    });
   }
 
   /**
@@ -393,7 +523,10 @@ export class EngineService implements OnModuleInit, OnModuleDestroy {
   /**
    * Get the suggested best move
    */
-  getSuggestedMove(engineLines: EngineLine[], fen: string): { san: string; uci: string } {
+  getSuggestedMove(
+    engineLines: EngineLine[],
+    fen: string,
+  ): { san: string; uci: string } {
     if (!engineLines || engineLines.length === 0) {
       throw new Error('No engine lines available');
     }
@@ -425,11 +558,11 @@ export class EngineService implements OnModuleInit, OnModuleDestroy {
   }
 
   /**
-   * Stop any running analysis
+   * Stop any running analysis on every worker
    */
   async stopAnalysis(): Promise<void> {
-    if (this.stockfish) {
-      await this.sendCommand('stop');
+    if (this.pool) {
+      await Promise.all(this.pool.all.map((worker) => worker.stop()));
     }
   }
 
@@ -437,10 +570,9 @@ export class EngineService implements OnModuleInit, OnModuleDestroy {
    * Cleanup on module destroy
    */
   onModuleDestroy(): void {
-    if (this.stockfish) {
-      this.stockfish.stdin.write('quit\n');
-      this.stockfish.kill();
-      this.stockfish = null;
+    if (this.pool) {
+      this.pool.all.forEach((worker) => worker.quit());
+      this.pool = null;
     }
   }
 }
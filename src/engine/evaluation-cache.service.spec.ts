@@ -0,0 +1,132 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { getModelToken } from '@nestjs/mongoose';
+import { EvaluationCacheService } from './evaluation-cache.service';
+import { EngineEvaluation } from './engine-evaluation.schema';
+import { EngineLine } from '../interfaces/engine.interfaces';
+
+const exec = <T>(value: T) => ({ exec: jest.fn().mockResolvedValue(value) });
+const params = { multiPv: 2, engineVersion: 'Stockfish 17' };
+const line = (depth: number): EngineLine => ({
+  id: 1,
+  depth,
+  evaluation: { type: 'cp', value: 20 },
+  moveUCI: 'e2e4',
+  pv: ['e2e4'],
+  pvSAN: ['e4'],
+});
+const START = 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1';
+
+describe('EvaluationCacheService', () => {
+  let service: EvaluationCacheService;
+  let evaluationModel: Record<string, jest.Mock>;
+
+  const createService = async (env: Record<string, string> = {}) => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        EvaluationCacheService,
+        { provide: ConfigService, useValue: new ConfigService(env) },
+        {
+          provide: getModelToken(EngineEvaluation.name),
+          useValue: evaluationModel,
+        },
+      ],
+    }).compile();
+    return module.get<EvaluationCacheService>(EvaluationCacheService);
+  };
+
+  beforeEach(async () => {
+    evaluationModel = {
+      findOne: jest.fn().mockReturnValue({
+        lean: () => exec(null),
+      }),
+      updateOne: jest.fn().mockReturnValue(exec({})),
+      deleteMany: jest.fn().mockReturnValue(exec({ deletedCount: 3 })),
+    };
+    service = await createService();
+  });
+
+  it('ignores move counters when building keys', () => {
+    expect(
+      EvaluationCacheService.buildKey(
+        'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 4 12',
+        params,
+      ),
+    ).toBe(EvaluationCacheService.buildKey(START, params));
+  });
+
+  it('serves a deeper cached search for a shallower request', async () => {
+    await service.set(START, params, [line(20)]);
+
+    await expect(service.get(START, 18, params)).resolves.toEqual([line(20)]);
+    await expect(service.get(START, 22, params)).resolves.toBeNull();
+    expect(service.getStats()).toMatchObject({ memoryHits: 1, misses: 1 });
+  });
+
+  it('keeps entries for different parameters apart', async () => {
+    await service.set(START, params, [line(20)]);
+
+    await expect(
+      service.get(START, 10, { ...params, multiPv: 3 }),
+    ).resolves.toBeNull();
+    await expect(
+      service.get(START, 10, { ...params, engineVersion: 'Stockfish 16' }),
+    ).resolves.toBeNull();
+  });
+
+  it('falls back to Mongo and promotes the entry to memory', async () => {
+    evaluationModel.findOne.mockReturnValueOnce({
+      lean: () => exec({ depth: 24, lines: [line(24)] }),
+    });
+
+    await expect(service.get(START, 18, params)).resolves.toEqual([line(24)]);
+    await expect(service.get(START, 18, params)).resolves.toEqual([line(24)]);
+    expect(evaluationModel.findOne).toHaveBeenCalledTimes(1);
+    expect(service.getStats()).toMatchObject({
+      persistentHits: 1,
+      memoryHits: 1,
+    });
+  });
+
+  it('evicts the least recently used entry', async () => {
+    service = await createService({ ENGINE_CACHE_SIZE: '2' });
+    const fens = [
+      '8/8/8/8/8/8/8/K6k w - - 0 1',
+      '8/8/8/8/8/8/8/K5k1 w - - 0 1',
+    ];
+
+    await service.set(START, params, [line(20)]);
+    await service.set(fens[0], params, [line(20)]);
+    await service.get(START, 20, params); // START is now the most recent
+    await service.set(fens[1], params, [line(20)]);
+
+    await expect(service.get(START, 20, params)).resolves.not.toBeNull();
+    await expect(service.get(fens[0], 20, params)).resolves.toBeNull();
+    expect(service.getStats().memoryEntries).toBe(2);
+  });
+
+  it('only overwrites shallower stored searches', async () => {
+    await service.set(START, params, [line(20)]);
+
+    expect(evaluationModel.updateOne).toHaveBeenCalledWith(
+      {
+        key: EvaluationCacheService.buildKey(START, params),
+        depth: { $lt: 20 },
+      },
+      expect.anything(),
+      { upsert: true },
+    );
+  });
+
+  it('clears memory, Mongo and statistics', async () => {
+    await service.set(START, params, [line(20)]);
+    await service.get(START, 20, params);
+
+    await expect(service.clear()).resolves.toEqual({ deleted: 3 });
+    expect(service.getStats()).toMatchObject({
+      memoryHits: 0,
+      writes: 0,
+      memoryEntries: 0,
+    });
+  });
+});
@@ -0,0 +1,176 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import { EngineLine } from '../interfaces/engine.interfaces';
+import {
+  EngineEvaluation,
+  EngineEvaluationDocument,
+} from './engine-evaluation.schema';
+
+const DEFAULT_MEMORY_ENTRIES = 5000;
+// Bump when the stored EngineLine shape changes so old entries are not served
+const CACHE_FORMAT = 'lines-v3';
+
+export interface CacheParams {
+  multiPv: number;
+  engineVersion: string;
+}
+
+export interface CacheStats {
+  memoryHits: number;
+  persistentHits: number;
+  misses: number;
+  writes: number;
+  memoryEntries: number;
+  memoryCapacity: number;
+  hitRate: number;
+}
+
+interface CacheEntry {
+  depth: number;
+  lines: EngineLine[];
+}
+
+/**
+ * Two-level cache of engine searches: an in-memory LRU in front of a Mongo
+ * collection shared by every game. An entry searched at depth N satisfies any
+ * request for depth <= N.
+ */
+@Injectable()
+export class EvaluationCacheService {
+  // Map keeps insertion order: the first key is the least recently used
+  private readonly memory = new Map<string, CacheEntry>();
+  private readonly capacity: number;
+  private stats = { memoryHits: 0, persistentHits: 0, misses: 0, writes: 0 };
+
+  constructor(
+    @InjectModel(EngineEvaluation.name)
+    private readonly evaluationModel: Model<EngineEvaluationDocument>,
+    private readonly configService: ConfigService,
+  ) {
+    const configured = parseInt(
+      this.configService.get<string>('ENGINE_CACHE_SIZE') ?? '',
+      10,
+    );
+    this.capacity =
+      Number.isInteger(configured) && configured >= 0
+        ? configured
+        : DEFAULT_MEMORY_ENTRIES;
+  }
+
+  /**
+   * Move counters don't change the search, so only the first four FEN fields count
+   */
+  static normalizeFen(fen: string): string {
+    return fen.trim().split(/\s+/).slice(0, 4).join(' ');
+  }
+
+  static buildKey(fen: string, params: CacheParams): string {
+    return [
+      EvaluationCacheService.normalizeFen(fen),
+      `multipv=${params.multiPv}`,
+      params.engineVersion,
+      CACHE_FORMAT,
+    ].join('|');
+  }
+
+  async get(
+    fen: string,
+    depth: number,
+    params: CacheParams,
+  ): Promise<EngineLine[] | null> {
+    const key = EvaluationCacheService.buildKey(fen, params);
+
+    const cached = this.memory.get(key);
+    if (cached && cached.depth >= depth) {
+      this.touch(key, cached);
+      this.stats.memoryHits++;
+      return cached.lines;
+    }
+
+    try {
+      const stored = await this.evaluationModel
+        .findOne({ key, depth: { $gte: depth } })
+        .lean()
+        .exec();
+      if (stored) {
+        this.touch(key, { depth: stored.depth, lines: stored.lines });
+        this.stats.persistentHits++;
+        return stored.lines;
+      }
+    } catch (error) {
+      console.warn('Evaluation cache lookup failed:', error.message);
+    }
+
+    this.stats.misses++;
+    return null;
+  }
+
+  async set(
+    fen: string,
+    params: CacheParams,
+    lines: EngineLine[],
+  ): Promise<void> {
+    if (!lines || lines.length === 0) return;
+
+    const key = EvaluationCacheService.buildKey(fen, params);
+    const depth = Math.min(...lines.map((line) => line.depth));
+
+    const cached = this.memory.get(key);
+    if (!cached || cached.depth <= depth) {
+      this.touch(key, { depth, lines });
+    }
+    this.stats.writes++;
+
+    try {
+      // Only replace a shallower stored search; a deeper one makes the upsert hit the unique key
+      await this.evaluationModel
+        .updateOne(
+          { key, depth: { $lt: depth } },
+          {
+            $set: {
+              fen: EvaluationCacheService.normalizeFen(fen),
+              multiPv: params.multiPv,
+              engineVersion: params.engineVersion,
+              depth,
+              lines,
+            },
+          },
+          { upsert: true },
+        )
+        .exec();
+    } catch (error) {
+      if (error.code !== 11000) {
+        console.warn('Evaluation cache write failed:', error.message);
+      }
+    }
+  }
+
+  async clear(): Promise<{ deleted: number }> {
+    this.memory.clear();
+    this.stats = { memoryHits: 0, persistentHits: 0, misses: 0, writes: 0 };
+    const { deletedCount } = await this.evaluationModel.deleteMany({}).exec();
+    return { deleted: deletedCount };
+  }
+
+  getStats(): CacheStats {
+    const hits = this.stats.memoryHits + this.stats.persistentHits;
+    const lookups = hits + this.stats.misses;
+    return {
+      ...this.stats,
+      memoryEntries: this.memory.size,
+      memoryCapacity: this.capacity,
+      hitRate: lookups === 0 ? 0 : Math.round((hits / lookups) * 1000) / 1000,
+    };
+  }
+
+  private touch(key: string, entry: CacheEntry): void {
+    if (this.capacity === 0) return;
+    this.memory.delete(key);
+    this.memory.set(key, entry);
+    while (this.memory.size > this.capacity) {
+      this.memory.delete(this.memory.keys().next().value);
+    }
+  }
+}
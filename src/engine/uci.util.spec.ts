@@ -0,0 +1,116 @@
+import { UciUtils } from './uci.util';
+
+const AFTER_E4_E5 =
+  'rnbqkbnr/pppp1ppp/8/4p3/4P3/8/PPPP1PPP/RNBQKBNR w KQkq - 0 2';
+
+describe('UciUtils', () => {
+  it('parses the full PV and search statistics', () => {
+    const info = UciUtils.parseInfoLine(
+      'info depth 18 seldepth 24 multipv 1 score cp 35 nodes 123456 nps 654321 hashfull 87 tbhits 0 time 189 pv g1f3 b8c6 f1b5',
+    );
+
+    expect(info).toEqual({
+      depth: 18,
+      seldepth: 24,
+      multipv: 1,
+      evaluation: { type: 'cp', value: 35 },
+      nodes: 123456,
+      nps: 654321,
+      hashfull: 87,
+      time: 189,
+      pv: ['g1f3', 'b8c6', 'f1b5'],
+    });
+  });
+
+  it('keeps lowerbound and upperbound markers', () => {
+    expect(
+      UciUtils.parseInfoLine(
+        'info depth 12 seldepth 15 multipv 1 score mate 3 lowerbound nodes 10 pv d1h5',
+      ),
+    ).toMatchObject({
+      evaluation: { type: 'mate', value: 3 },
+      bound: 'lowerbound',
+    });
+    expect(
+      UciUtils.parseInfoLine('info depth 12 score cp -40 upperbound pv e7e5'),
+    ).toMatchObject({
+      evaluation: { type: 'cp', value: -40 },
+      bound: 'upperbound',
+    });
+  });
+
+  it('parses win/draw/loss statistics', () => {
+    expect(
+      UciUtils.parseInfoLine(
+        'info depth 20 seldepth 28 multipv 1 score cp 41 wdl 112 861 27 nodes 5 pv e2e4',
+      ),
+    ).toMatchObject({
+      evaluation: { type: 'cp', value: 41 },
+      wdl: { win: 112, draw: 861, loss: 27 },
+      pv: ['e2e4'],
+    });
+  });
+
+  it('ignores info lines without score or pv', () => {
+    expect(
+      UciUtils.parseInfoLine('info depth 10 currmove e2e4 currmovenumber 1'),
+    ).toBeNull();
+    expect(
+      UciUtils.parseInfoLine('info string NNUE evaluation using nn.nnue'),
+    ).toBeNull();
+  });
+
+  it('converts the PV to SAN and stops at an illegal move', () => {
+    expect(
+      UciUtils.pvToSan(AFTER_E4_E5, ['g1f3', 'b8c6', 'f1b5', 'a7a6']),
+    ).toEqual(['Nf3', 'Nc6', 'Bb5', 'a6']);
+    expect(UciUtils.pvToSan(AFTER_E4_E5, ['g1f3', 'e2e4', 'b8c6'])).toEqual([
+      'Nf3',
+    ]);
+  });
+
+  it('builds lines from the deepest iteration, preferring the exact score', () => {
+    const lines = UciUtils.buildLines(
+      [
+        'info depth 9 multipv 1 score cp 30 pv b1c3',
+        'info depth 10 multipv 1 score cp 60 lowerbound pv g1f3',
+        'info depth 10 multipv 1 score cp 41 nodes 900 pv g1f3 b8c6 f1b5',
+        'info depth 10 multipv 2 score cp 20 nodes 900 pv f1c4 g8f6',
+        'bestmove g1f3 ponder b8c6',
+      ],
+      AFTER_E4_E5,
+    );
+
+    expect(lines).toHaveLength(2);
+    expect(lines[0]).toMatchObject({
+      id: 1,
+      depth: 10,
+      evaluation: { type: 'cp', value: 41 },
+      moveUCI: 'g1f3',
+      moveSAN: 'Nf3',
+      pv: ['g1f3', 'b8c6', 'f1b5'],
+      pvSAN: ['Nf3', 'Nc6', 'Bb5'],
+    });
+    expect(lines[0].bound).toBeUndefined();
+    expect(lines[1]).toMatchObject({ id: 2, pvSAN: ['Bc4', 'Nf6'] });
+  });
+
+  it('keeps the last complete iteration when the search stops mid-depth', () => {
+    const lines = UciUtils.buildLines(
+      [
+        'info depth 11 multipv 1 score cp 35 pv g1f3 b8c6',
+        'info depth 11 multipv 2 score cp 25 pv f1c4 g8f6',
+        'info depth 11 multipv 3 score cp 15 pv b1c3 g8f6',
+        'info depth 12 multipv 1 score cp 38 pv g1f3 b8c6',
+        'bestmove g1f3 ponder b8c6',
+      ],
+      AFTER_E4_E5,
+    );
+
+    expect(lines.map(({ id, depth }) => [id, depth])).toEqual([
+      [1, 11],
+      [2, 11],
+      [3, 11],
+    ]);
+  });
+});
@@ -0,0 +1,143 @@
+import { Chess } from 'chess.js';
+import { Evaluation } from '../interfaces/analysis.interfaces';
+import { EngineLine } from '../interfaces/engine.interfaces';
+
+const INTEGER_FIELDS = [
+  'depth',
+  'seldepth',
+  'multipv',
+  'nodes',
+  'nps',
+  'time',
+  'hashfull',
+] as const;
+
+type InfoLine = Omit<EngineLine, 'id' | 'moveUCI' | 'pvSAN'> & {
+  multipv?: number;
+};
+
+export class UciUtils {
+  /**
+   * Parse one `info` line into its fields. Returns null for lines without a
+   * score or a principal variation (currmove, string, etc.).
+   */
+  static parseInfoLine(message: string): InfoLine | null {
+    const tokens = message.trim().split(/\s+/);
+    if (tokens[0] !== 'info') return null;
+
+    const info: Partial<InfoLine> = {};
+    let evaluation: Evaluation | null = null;
+    let pv: string[] | null = null;
+
+    for (let i = 1; i < tokens.length; i++) {
+      const token = tokens[i];
+
+      if ((INTEGER_FIELDS as readonly string[]).includes(token)) {
+        info[token] = parseInt(tokens[++i], 10);
+      } else if (token === 'score') {
+        const type = tokens[++i];
+        const value = parseInt(tokens[++i], 10);
+        if ((type === 'cp' || type === 'mate') && !isNaN(value)) {
+          evaluation = { type, value };
+        }
+        // Stockfish appends the bound marker right after the score
+        if (tokens[i + 1] === 'lowerbound' || tokens[i + 1] === 'upperbound') {
+          info.bound = tokens[++i] as EngineLine['bound'];
+        }
+      } else if (token === 'wdl') {
+        const [win, draw, loss] = tokens
+          .slice(i + 1, i + 4)
+          .map((value) => parseInt(value, 10));
+        if (![win, draw, loss].some(isNaN)) {
+          info.wdl = { win, draw, loss };
+        }
+        i += 3;
+      } else if (token === 'pv') {
+        // pv is always the last field of the line
+        pv = tokens.slice(i + 1);
+        break;
+      }
+    }
+
+    if (info.depth === undefined || !evaluation || !pv || pv.length === 0) {
+      return null;
+    }
+
+    return { ...info, depth: info.depth, evaluation, pv } as InfoLine;
+  }
+
+  /**
+   * Play a UCI move list from `fen` and return it in SAN.
+   * Stops at the first move that is not legal in the resulting position.
+   */
+  static pvToSan(fen: string, pv: string[]): string[] {
+    const san: string[] = [];
+    try {
+      const chess = new Chess(fen);
+      for (const uci of pv) {
+        const move = chess.move({
+          from: uci.substring(0, 2),
+          to: uci.substring(2, 4),
+          promotion: uci.length > 4 ? uci[4].toLowerCase() : undefined,
+        });
+        if (!move) break;
+        san.push(move.san);
+      }
+    } catch {
+      // chess.js throws on illegal moves: keep the legal prefix
+    }
+    return san;
+  }
+
+  /**
+   * Build the engine lines of the deepest iteration that reported every line.
+   * Later info lines for the same depth and MultiPV index replace earlier ones
+   * (Stockfish sends the exact score after any fail-high/fail-low bound).
+   */
+  static buildLines(messages: string[], fen: string): EngineLine[] {
+    const linesByDepth: Map<number, Map<number, EngineLine>> = new Map();
+
+    for (const message of messages) {
+      if (!message.startsWith('info depth')) continue;
+
+      const info = UciUtils.parseInfoLine(message);
+      if (!info) continue;
+
+      const { multipv, ...fields } = info;
+      const id = multipv ?? 1;
+
+      if (!linesByDepth.has(info.depth)) {
+        linesByDepth.set(info.depth, new Map());
+      }
+      linesByDepth.get(info.depth)!.set(id, {
+        id,
+        ...fields,
+        moveUCI: info.pv[0],
+        pvSAN: [],
+      });
+    }
+
+    // A search stopped mid-iteration (movetime, nodes, timeout) reports only
+    // some lines at its last depth: keep the deepest one with all of them
+    const lineCount = Math.max(
+      0,
+      ...Array.from(linesByDepth.values(), (lines) => lines.size),
+    );
+    const bestDepth = Math.max(
+      0,
+      ...Array.from(linesByDepth.entries())
+        .filter(([, lines]) => lines.size === lineCount)
+        .map(([depth]) => depth),
+    );
+    if (!bestDepth) {
+      return [];
+    }
+
+    return Array.from(linesByDepth.get(bestDepth)!.values())
+      .sort((a, b) => a.id - b.id)
+      .map((line) => {
+        const pvSAN = UciUtils.pvToSan(fen, line.pv);
+        return { ...line, pvSAN, moveSAN: pvSAN[0] };
+      });
+  }
+}
@@ -0,0 +1,182 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { HttpService } from '@nestjs/axios';
+import { ConfigService } from '@nestjs/config';
+import { lastValueFrom } from 'rxjs';
+import {
+  GameFilters,
+  GameSourceProvider,
+  NormalizedGame,
+} from '../interfaces/game-source.interfaces';
+
+const DEFAULT_BASE_URL = 'https://api.chess.com';
+
+// Resultados de chess.com que significan tablas
+const DRAW_RESULTS = [
+  'agreed',
+  'repetition',
+  'stalemate',
+  'insufficient',
+  '50move',
+  'timevsinsufficient',
+];
+
+interface ArchivesResponse {
+  archives: string[];
+}
+
+export interface ChessComPlayer {
+  username: string;
+  rating?: number;
+  result: string;
+}
+
+export interface ChessComGame {
+  url: string;
+  uuid?: string;
+  pgn?: string;
+  time_control?: string;
+  time_class?: string;
+  end_time?: number; // Segundos desde epoch.
+  rated?: boolean;
+  white: ChessComPlayer;
+  black: ChessComPlayer;
+}
+
+interface GamesResponse {
+  games: ChessComGame[];
+}
+
+@Injectable()
+export class ChessComProvider implements GameSourceProvider {
+  readonly name = 'chesscom';
+  private readonly baseUrl: string;
+
+  constructor(
+    private readonly httpService: HttpService,
+    private readonly configService: ConfigService,
+  ) {
+    this.baseUrl = (
+      this.configService.get<string>('CHESSCOM_API_URL') ?? DEFAULT_BASE_URL
+    ).replace(/\/+$/, '');
+  }
+
+  async getArchives(username: string): Promise<string[]> {
+    const url = `${this.baseUrl}/pub/player/${username}/games/archives`;
+    try {
+      const response = await lastValueFrom(
+        this.httpService.get<ArchivesResponse>(url),
+      );
+      return response.data.archives;
+    } catch (error) {
+      throw new NotFoundException(
+        'No se pudieron obtener los archivos del jugador.',
+      );
+    }
+  }
+
+  async getMonthlyGames(
+    username: string,
+    year: number,
+    month: number,
+  ): Promise<ChessComGame[]> {
+    const url = this.monthUrl(username, year, month);
+    try {
+      const response = await lastValueFrom(
+        this.httpService.get<GamesResponse>(url),
+      );
+      return response.data.games;
+    } catch (error) {
+      throw new NotFoundException(
+        'No se pudieron obtener las partidas para el mes especificado.',
+      );
+    }
+  }
+
+  async getMonthlyPgn(
+    username: string,
+    year: number,
+    month: number,
+  ): Promise<string> {
+    const url = `${this.monthUrl(username, year, month)}/pgn`;
+    try {
+      const response = await lastValueFrom(this.httpService.get<string>(url));
+      return response.data;
+    } catch (error) {
+      throw new NotFoundException('No se pudo obtener el archivo PGN.');
+    }
+  }
+
+  /**
+   * chess.com agrupa las partidas por mes: se recorren los archivos del más
+   * reciente al más antiguo hasta reunir `max` partidas o salir del rango.
+   */
+  async getGames(
+    username: string,
+    filters: GameFilters,
+  ): Promise<NormalizedGame[]> {
+    const { since, until, perfType, max } = filters;
+    const games: NormalizedGame[] = [];
+
+    for (const archive of [...(await this.getArchives(username))].reverse()) {
+      const [year, month] = archive.split('/').slice(-2).map(Number);
+      if (since && Date.UTC(year, month, 1) <= since.getTime()) break;
+      if (until && Date.UTC(year, month - 1, 1) > until.getTime()) continue;
+
+      const monthly = (await this.getMonthlyGames(username, year, month))
+        .map((game) => this.normalize(game))
+        .filter((game) => {
+          const endedAt = game.endedAt ? Date.parse(game.endedAt) : NaN;
+          return (
+            (!since || endedAt >= since.getTime()) &&
+            (!until || endedAt <= until.getTime()) &&
+            (!perfType || perfType.includes(game.perfType ?? ''))
+          );
+        })
+        .sort((a, b) => (b.endedAt ?? '').localeCompare(a.endedAt ?? ''));
+
+      games.push(...monthly);
+      if (games.length >= max) break;
+    }
+    return games.slice(0, max);
+  }
+
+  async getPgn(username: string, filters: GameFilters): Promise<string> {
+    const games = await this.getGames(username, filters);
+    return games.map((game) => game.pgn).join('\n\n');
+  }
+
+  private normalize(game: ChessComGame): NormalizedGame {
+    return {
+      id: game.uuid ?? game.url.split('/').pop()!,
+      source: 'chesscom',
+      url: game.url,
+      white: {
+        username: game.white.username,
+        rating: game.white.rating ?? null,
+      },
+      black: {
+        username: game.black.username,
+        rating: game.black.rating ?? null,
+      },
+      result:
+        game.white.result === 'win'
+          ? '1-0'
+          : game.black.result === 'win'
+            ? '0-1'
+            : DRAW_RESULTS.includes(game.white.result)
+              ? '1/2-1/2'
+              : '*',
+      perfType: game.time_class ?? null,
+      timeControl: game.time_control ?? null,
+      rated: game.rated ?? false,
+      endedAt: game.end_time
+        ? new Date(game.end_time * 1000).toISOString()
+        : null,
+      pgn: game.pgn ?? '',
+    };
+  }
+
+  private monthUrl(username: string, year: number, month: number): string {
+    return `${this.baseUrl}/pub/player/${username}/games/${year}/${month.toString().padStart(2, '0')}`;
+  }
+}
@@ -0,0 +1,37 @@
+import { Controller, Get, Header, Param, Query } from '@nestjs/common';
+import { GameFiltersQuery, GameSourcesService } from './game-sources.service';
+
+/**
+ * Partidas de un usuario en cualquier plataforma (:provider = chesscom | lichess).
+ */
+@Controller('games')
+export class GameSourcesController {
+  constructor(private readonly gameSourcesService: GameSourcesService) {}
+
+  @Get(':provider/:username')
+  async getGames(
+    @Param('provider') provider: string,
+    @Param('username') username: string,
+    @Query() query: GameFiltersQuery,
+  ) {
+    const source = this.gameSourcesService.get(provider);
+    return await source.getGames(
+      username,
+      this.gameSourcesService.parseFilters(query),
+    );
+  }
+
+  @Get(':provider/:username/pgn')
+  @Header('Content-Type', 'application/x-chess-pgn')
+  async getPgn(
+    @Param('provider') provider: string,
+    @Param('username') username: string,
+    @Query() query: GameFiltersQuery,
+  ) {
+    const source = this.gameSourcesService.get(provider);
+    return await source.getPgn(
+      username,
+      this.gameSourcesService.parseFilters(query),
+    );
+  }
+}
@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { HttpModule } from '@nestjs/axios';
+import { ChessComProvider } from './chess-com.provider';
+import { LichessProvider } from './lichess.provider';
+import { GameSourcesService } from './game-sources.service';
+import { GameSourcesController } from './game-sources.controller';
+
+@Module({
+  imports: [HttpModule],
+  controllers: [GameSourcesController],
+  providers: [ChessComProvider, LichessProvider, GameSourcesService],
+  exports: [GameSourcesService, ChessComProvider],
+})
+export class GameSourcesModule {}
@@ -0,0 +1,77 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { ChessComProvider } from './chess-com.provider';
+import { LichessProvider } from './lichess.provider';
+import {
+  GameFilters,
+  GameSourceName,
+  GameSourceProvider,
+} from '../interfaces/game-source.interfaces';
+
+const DEFAULT_MAX_GAMES = 50;
+const MAX_GAMES = 300;
+
+export interface GameFiltersQuery {
+  since?: string;
+  until?: string;
+  perfType?: string;
+  max?: string;
+}
+
+/**
+ * Registro de plataformas de partidas, por nombre.
+ */
+@Injectable()
+export class GameSourcesService {
+  private readonly providers: Record<GameSourceName, GameSourceProvider>;
+
+  constructor(chessCom: ChessComProvider, lichess: LichessProvider) {
+    this.providers = { chesscom: chessCom, lichess };
+  }
+
+  get(name: string): GameSourceProvider {
+    // Solo claves propias: "constructor" o "toString" no son plataformas
+    const provider = Object.prototype.hasOwnProperty.call(this.providers, name)
+      ? this.providers[name as GameSourceName]
+      : undefined;
+    if (!provider) {
+      throw new BadRequestException(
+        `Plataforma desconocida: ${name}. Usa ${Object.keys(this.providers).join(' o ')}.`,
+      );
+    }
+    return provider;
+  }
+
+  /**
+   * Fechas en ISO 8601 o milisegundos; perfType separado por comas.
+   */
+  parseFilters(query: GameFiltersQuery = {}): GameFilters {
+    const max = query.max ? parseInt(query.max, 10) : DEFAULT_MAX_GAMES;
+    if (!Number.isInteger(max) || max < 1) {
+      throw new BadRequestException('max debe ser un entero positivo.');
+    }
+
+    const perfType = query.perfType
+      ?.split(',')
+      .map((perf) => perf.trim())
+      .filter(Boolean);
+
+    return {
+      since: this.parseDate(query.since, 'since'),
+      until: this.parseDate(query.until, 'until'),
+      perfType: perfType?.length ? perfType : undefined,
+      max: Math.min(max, MAX_GAMES),
+    };
+  }
+
+  private parseDate(
+    value: string | undefined,
+    field: string,
+  ): Date | undefined {
+    if (!value) return undefined;
+    const date = new Date(/^\d+$/.test(value) ? Number(value) : value);
+    if (isNaN(date.getTime())) {
+      throw new BadRequestException(`Fecha inválida en ${field}.`);
+    }
+    return date;
+  }
+}
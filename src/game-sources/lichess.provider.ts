@@ -0,0 +1,163 @@
+import {
+  BadGatewayException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { HttpService } from '@nestjs/axios';
+import { isAxiosError } from 'axios';
+import { ConfigService } from '@nestjs/config';
+import { lastValueFrom } from 'rxjs';
+import {
+  GameFilters,
+  GameSourceProvider,
+  NormalizedGame,
+  NormalizedPlayer,
+} from '../interfaces/game-source.interfaces';
+
+const DEFAULT_BASE_URL = 'https://lichess.org';
+
+// Estados de Lichess en los que la partida no llegó a terminar
+const UNFINISHED_STATUSES = [
+  'created',
+  'started',
+  'aborted',
+  'noStart',
+  'unknownFinish',
+];
+
+interface LichessPlayer {
+  user?: { name: string; id: string };
+  rating?: number;
+  aiLevel?: number;
+}
+
+export interface LichessGame {
+  id: string;
+  rated?: boolean;
+  speed?: string;
+  perf?: string;
+  lastMoveAt?: number; // Milisegundos desde epoch.
+  status: string;
+  winner?: 'white' | 'black';
+  players: { white: LichessPlayer; black: LichessPlayer };
+  clock?: { initial: number; increment: number };
+  daysPerTurn?: number;
+  pgn?: string;
+}
+
+/**
+ * Exportación de partidas de un usuario de Lichess (/api/games/user).
+ */
+@Injectable()
+export class LichessProvider implements GameSourceProvider {
+  readonly name = 'lichess';
+  private readonly baseUrl: string;
+
+  constructor(
+    private readonly httpService: HttpService,
+    private readonly configService: ConfigService,
+  ) {
+    this.baseUrl = (
+      this.configService.get<string>('LICHESS_API_URL') ?? DEFAULT_BASE_URL
+    ).replace(/\/+$/, '');
+  }
+
+  /**
+   * NDJSON: una partida por línea, con el PGN incluido (pgnInJson).
+   */
+  async getGames(
+    username: string,
+    filters: GameFilters,
+  ): Promise<NormalizedGame[]> {
+    const body = await this.export(username, filters, 'application/x-ndjson', {
+      pgnInJson: true,
+    });
+    return body
+      .split('\n')
+      .filter((line) => line.trim())
+      .map((line) => this.normalize(this.parseLine(line)));
+  }
+
+  async getPgn(username: string, filters: GameFilters): Promise<string> {
+    return (
+      await this.export(username, filters, 'application/x-chess-pgn')
+    ).trim();
+  }
+
+  private async export(
+    username: string,
+    filters: GameFilters,
+    accept: string,
+    extraParams: Record<string, string | number | boolean> = {},
+  ): Promise<string> {
+    const url = `${this.baseUrl}/api/games/user/${encodeURIComponent(username)}`;
+    const params: Record<string, string | number | boolean> = {
+      max: filters.max,
+      clocks: true,
+      ...extraParams,
+    };
+    if (filters.since) params.since = filters.since.getTime();
+    if (filters.until) params.until = filters.until.getTime();
+    if (filters.perfType) params.perfType = filters.perfType.join(',');
+
+    try {
+      const response = await lastValueFrom(
+        this.httpService.get<string>(url, {
+          params,
+          headers: { Accept: accept },
+          responseType: 'text',
+        }),
+      );
+      return response.data;
+    } catch (error) {
+      // Solo un 404 de Lichess es un usuario inexistente; lo demás es un fallo suyo
+      if (isAxiosError(error) && error.response?.status === 404) {
+        throw new NotFoundException(
+          'No se pudieron obtener las partidas de Lichess.',
+        );
+      }
+      throw new BadGatewayException('Lichess no respondió correctamente.');
+    }
+  }
+
+  private parseLine(line: string): LichessGame {
+    try {
+      return JSON.parse(line);
+    } catch {
+      throw new BadGatewayException('Lichess devolvió una partida ilegible.');
+    }
+  }
+
+  private normalize(game: LichessGame): NormalizedGame {
+    return {
+      id: game.id,
+      source: 'lichess',
+      url: `${this.baseUrl}/${game.id}`,
+      white: this.normalizePlayer(game.players.white),
+      black: this.normalizePlayer(game.players.black),
+      result: game.winner
+        ? game.winner === 'white'
+          ? '1-0'
+          : '0-1'
+        : UNFINISHED_STATUSES.includes(game.status)
+          ? '*'
+          : '1/2-1/2',
+      perfType: game.perf ?? game.speed ?? null,
+      timeControl: game.clock
+        ? `${game.clock.initial}+${game.clock.increment}`
+        : game.daysPerTurn
+          ? `1/${game.daysPerTurn * 86400}`
+          : null,
+      rated: game.rated ?? false,
+      endedAt: game.lastMoveAt ? new Date(game.lastMoveAt).toISOString() : null,
+      pgn: game.pgn?.trim() ?? '',
+    };
+  }
+
+  private normalizePlayer(player: LichessPlayer): NormalizedPlayer {
+    const username =
+      player.user?.name ??
+      (player.aiLevel ? `Stockfish level ${player.aiLevel}` : 'Anonymous');
+    return { username, rating: player.rating ?? null };
+  }
+}
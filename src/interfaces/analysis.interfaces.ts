@@ -1,12 +1,136 @@
+import { EngineInfo, EngineLine, SearchLimit } from './engine.interfaces';
+
 export interface Position {
   fen: string; // La posición en formato FEN.
   move: { san: string; uci: string }; // Detalles del movimiento.
+  clock?: number; // Segundos en el reloj tras la jugada (comentario [%clk]).
+  timeSpent?: number; // Segundos usados en la jugada, descontado el incremento.
 }
 
 export interface EvaluatedPosition extends Position {
   evaluation: Evaluation; // Evaluación del motor.
   classification: Classification; // Clasificación del movimiento.
   suggestedMove: { san: string; uci: string }; // Movimiento sugerido.
+  bestLine?: EngineLine; // Mejor línea del motor desde la posición previa.
+  playedLine?: EngineLine; // Línea que sigue a la jugada realmente jugada.
+  expectedScore?: number; // Puntuación esperada de las blancas tras la jugada (0 a 1).
+  cpLoss?: number; // Centipawns perdidos frente a la mejor jugada (sin libro ni forzadas).
+  sacrifice?: SacrificeCheck; // Análisis de intercambio de la jugada (base de 'brilliant').
+  phase?: GamePhase; // Fase de la partida tras la jugada.
+  timeTrouble?: boolean; // Jugada con el reloj por debajo del umbral de apuros de tiempo.
+  search?: PlySearch; // Lo que el motor gastó en esta jugada.
+}
+
+/**
+ * Presupuesto de motor para toda la partida, repartido entre las jugadas.
+ */
+export type SearchBudget = { nodes: number } | { movetime: number }; // movetime en milisegundos.
+
+export interface PlySearch {
+  limit: SearchLimit | null; // Límite de la búsqueda de la posición previa; null si no hubo (libro).
+  depth: number | null; // Profundidad alcanzada en esa búsqueda.
+  nodes: number; // Nodos de la búsqueda previa y, si hizo falta, de la posición tras la jugada.
+  time: number; // Milisegundos de motor.
+}
+
+export interface SearchReport {
+  profile: string | null; // Perfil de análisis ("quick", "standard", "deep"); null con profundidad fija.
+  budget: SearchBudget | null;
+  depth: number | null; // Profundidad fija pedida; null con perfil.
+  nodes: number; // Total de la partida.
+  time: number;
+  averageDepth: number | null; // Media de las jugadas con búsqueda.
+}
+
+/**
+ * Cabeceras del PGN: Seven Tag Roster y las etiquetas extra más comunes.
+ * null si la etiqueta falta, es "?" o está mal formada.
+ */
+export interface GameMetadata {
+  event: string | null;
+  site: string | null;
+  date: string | null; // Tal como viene en el PGN: "2024.03.05".
+  round: string | null;
+  white: string | null;
+  black: string | null;
+  result: '1-0' | '0-1' | '1/2-1/2' | '*' | null;
+  whiteElo: number | null;
+  blackElo: number | null;
+  timeControl: string | null; // "180+2", "-" o "1/86400".
+  eco: string | null; // Código ECO declarado en el PGN (puede no coincidir con el detectado).
+  termination: string | null; // "hikaru won by resignation", "Normal", "Time forfeit"...
+  link: string | null;
+}
+
+export interface ParsedGame {
+  positions: Position[];
+  metadata: GameMetadata;
+}
+
+export interface ColorTimeStats {
+  moves: number; // Jugadas con reloj.
+  averageTimePerMove: number | null; // Segundos.
+  averageTimeOnBlunders: number | null;
+  averageTimeOnGoodMoves: number | null; // brilliant, great, best, excellent y good.
+  timeTroubleMoves: number;
+  // Porcentaje de jugadas imprecisas o peores, con y sin apuros de tiempo.
+  errorRate: { timeTrouble: number | null; normal: number | null };
+  // Correlación de Spearman entre presión de tiempo (menos reloj) y gravedad del error:
+  // positiva si se falla más con poco tiempo. null sin datos suficientes.
+  pressureCorrelation: number | null;
+}
+
+export interface TimeReport {
+  timeTroubleThreshold: number; // Segundos.
+  white: ColorTimeStats;
+  black: ColorTimeStats;
+}
+
+/**
+ * Elo estimado de un bando en la partida (PerformanceRatingService).
+ */
+export interface PerformanceRating {
+  elo: number | null; // null con muy pocas jugadas valoradas.
+  range: { low: number; high: number } | null; // Intervalo de confianza; más estrecho en partidas largas.
+  moves: number; // Jugadas valoradas: sin libro ni forzadas.
+  averageCentipawnLoss: number | null;
+  accuracy: number | null; // Media de las jugadas valoradas.
+  blunderRate: number | null; // % de las jugadas valoradas.
+  mistakeRate: number | null; // % de las jugadas valoradas (mistake o miss).
+}
+
+export interface PerformanceReport {
+  white: PerformanceRating;
+  black: PerformanceRating;
+}
+
+export type GamePhase = 'opening' | 'middlegame' | 'endgame';
+
+export interface PhaseReport {
+  accuracies: {
+    white: number | null; // null si el bando no jugó en esta fase.
+    black: number | null;
+  };
+  classifications: {
+    white: Record<Classification, number>;
+    black: Record<Classification, number>;
+  };
+}
+
+/**
+ * none: el rival no gana material con intercambios (SEE).
+ * accepted: la línea del motor toma el material y no se recupera.
+ * declined: la línea del motor deja la pieza ofrecida sin tomar.
+ * won-back: la línea del motor recupera el material enseguida.
+ * unconfirmed: SEE lo marca, pero no hay línea del motor para confirmarlo.
+ */
+export type SacrificeReason = 'none' | 'accepted' | 'declined' | 'won-back' | 'unconfirmed';
+
+export interface SacrificeCheck {
+  isSacrifice: boolean;
+  material: number; // Material neto (en peones) que el rival puede ganar.
+  square?: string; // Casilla de la pieza en juego.
+  reason: SacrificeReason;
 }
 
 export interface Report {
@@ -19,6 +143,90 @@ export interface Report {
     black: Record<Classification, number>;
   };
   positions: EvaluatedPosition[];
+  expectedScores: (number | null)[]; // Por jugada, desde las blancas (gráfica de probabilidad).
+  phases: Record<GamePhase, PhaseReport>;
+  opening: OpeningMatch;
+  metadata: GameMetadata;
+  time: TimeReport | null; // null si el PGN no trae relojes.
+  performance: PerformanceReport; // Elo estimado de cada bando.
+  summary: GameSummary; // Momentos clave de la partida.
+  search: SearchReport; // Profundidad o presupuesto usado y lo que costó.
+  engine: EngineInfo; // Motor y versión que hicieron el análisis.
+}
+
+/**
+ * Una jugada destacada del resumen (GameSummaryService), con la alternativa del motor.
+ */
+export interface GameMoment {
+  ply: number; // Índice en positions (desde 0).
+  moveNumber: number; // Número de jugada: 12 en "12... Nf6".
+  color: 'white' | 'black'; // Quién movió.
+  move: { san: string; uci: string };
+  suggestedMove: { san: string; uci: string }; // Mejor jugada del motor en la posición previa.
+  classification: Classification;
+  expectedScoreBefore: number; // De las blancas (0 a 1).
+  expectedScoreAfter: number;
+}
+
+export interface TurningPoint extends GameMoment {
+  swing: number; // expectedScoreAfter - expectedScoreBefore: positivo si favorece a las blancas.
+}
+
+export type AdvantageLevel = 'advantage' | 'winning' | 'decisive';
+
+export interface WorseStretch {
+  plies: number; // Medias jugadas seguidas en posición peor.
+  from: GameMoment; // Jugada que dejó al bando peor.
+  to: GameMoment; // Última jugada con el bando aún peor.
+}
+
+export interface GameSummary {
+  turningPoints: TurningPoint[]; // Los mayores cambios de puntuación esperada, de mayor a menor.
+  // Primera jugada tras la que la puntuación de cada bando alcanza cada umbral; null si nunca.
+  advantages: Record<'white' | 'black', Record<AdvantageLevel, GameMoment | null>>;
+  longestWorseStretch: Record<'white' | 'black', WorseStretch | null>; // null si nunca estuvo peor.
+}
+
+export interface Opening {
+  fen: string; // Colocación de piezas (primer campo del FEN).
+  name: string;
+  eco: string | null; // Código ECO (A00-E99).
+  moves: string | null; // Orden de jugadas en SAN ("1. e4 e5 2. Nf3"), si se conoce.
+}
+
+export interface OpeningMatch {
+  opening: Opening | null; // Última apertura con nombre alcanzada.
+  ply: number | null; // Media jugada (desde 1) en la que se alcanzó.
+  leftTheoryAtPly: number | null; // Primera media jugada fuera de la teoría; null si nunca salió.
+}
+
+export interface BatchGameResult {
+  index: number; // Posición de la partida dentro del PGN mensual.
+  white: string | null;
+  black: string | null;
+  link: string | null; // Cabecera Link de chess.com.
+  status: 'completed' | 'failed';
+  report?: Report;
+  error?: string; // Motivo del fallo si status es 'failed'.
+}
+
+export interface MonthlySummary {
+  games: number;
+  analyzed: number;
+  failed: number;
+  // Precisión media del jugador con cada color; null si no jugó con ese color.
+  accuracies: { white: number | null; black: number | null };
+  blunders: number;
+  blunderRate: number | null; // Porcentaje de las jugadas del jugador que fueron blunders.
+  openings: { name: string; eco: string | null; games: number }[]; // Las más jugadas primero.
+}
+
+export interface BatchAnalysisResult {
+  username: string;
+  year: number;
+  month: number;
+  games: BatchGameResult[];
+  summary: MonthlySummary;
 }
 
 export type Classification =
@@ -0,0 +1,32 @@
+export type Role = 'user' | 'admin';
+
+/**
+ * Quien hace la petición, tras pasar AuthGuard (request.user).
+ */
+export interface AuthenticatedUser {
+  id: string;
+  username: string;
+  roles: string[];
+  via: 'jwt' | 'api-key';
+}
+
+export interface AccessTokenPayload {
+  sub: string; // Id del usuario.
+  username: string;
+  roles: string[];
+}
+
+export interface AuthTokens {
+  accessToken: string;
+  refreshToken: string;
+  tokenType: 'Bearer';
+  expiresIn: number; // Segundos de validez del accessToken.
+}
+
+export interface ApiKeyInfo {
+  id: string;
+  name: string;
+  prefix: string; // Primeros caracteres de la clave, para reconocerla.
+  createdAt: Date;
+  lastUsedAt: Date | null;
+}
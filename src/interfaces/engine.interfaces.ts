@@ -0,0 +1,76 @@
+import { Evaluation } from './analysis.interfaces';
+
+export interface Wdl {
+  win: number; // Por mil, desde el bando que mueve.
+  draw: number;
+  loss: number;
+}
+
+export interface EngineLine {
+  id: number; // Índice MultiPV (1 = mejor línea).
+  depth: number; // Profundidad alcanzada por el motor.
+  seldepth?: number; // Profundidad selectiva máxima.
+  evaluation: Evaluation; // Evaluación desde el bando que mueve.
+  bound?: 'lowerbound' | 'upperbound'; // La evaluación es solo una cota.
+  wdl?: Wdl; // Probabilidades de victoria/tablas/derrota (UCI_ShowWDL).
+  moveUCI: string; // Primera jugada de la línea.
+  moveSAN?: string;
+  pv: string[]; // Variante principal completa en UCI.
+  pvSAN: string[]; // La misma variante en SAN (desde el FEN raíz).
+  nodes?: number;
+  nps?: number;
+  time?: number; // Milisegundos de búsqueda.
+  hashfull?: number; // Ocupación de la tabla hash, en por mil.
+}
+
+/**
+ * Fuerza del motor al jugar: elo tiene prioridad sobre skillLevel.
+ */
+export interface EngineStrength {
+  skillLevel?: number; // Skill Level de Stockfish, 0 a 20.
+  elo?: number; // UCI_Elo con UCI_LimitStrength, 1320 a 3190.
+}
+
+/**
+ * Límite de una búsqueda: exactamente uno de los tres.
+ */
+export type SearchLimit =
+  | { depth: number }
+  | { movetime: number } // Milisegundos.
+  | { nodes: number };
+
+/**
+ * Cuerpo de POST /chess/evaluate.
+ */
+export interface PositionEvaluationRequest {
+  fen?: string;
+  depth?: number;
+  movetime?: number;
+  nodes?: number;
+  multiPv?: number; // Líneas a devolver, 1 a 10.
+  searchmoves?: string[]; // Solo estas jugadas (UCI o SAN).
+}
+
+export interface PositionEvaluation {
+  fen: string;
+  turn: 'white' | 'black'; // Bando que mueve: las evaluaciones son desde su lado.
+  limit: SearchLimit;
+  multiPv: number;
+  searchMoves: string[] | null; // En UCI.
+  terminal: 'checkmate' | 'stalemate' | 'draw' | null; // Sin búsqueda si la partida ha terminado.
+  lines: EngineLine[]; // Ordenadas de mejor a peor.
+}
+
+/**
+ * native: binario de Stockfish para la plataforma. wasm: la versión WASM en un worker thread.
+ */
+export type EngineAdapterKind = 'native' | 'wasm';
+
+/**
+ * Motor que produjo un informe.
+ */
+export interface EngineInfo {
+  adapter: EngineAdapterKind | null; // null si el motor aún no ha arrancado.
+  name: string; // Tal como lo anuncia el motor (id name), p. ej. "Stockfish 16".
+  version: string | null; // "16" en "Stockfish 16"; null si el nombre no la trae.
+}
@@ -0,0 +1,36 @@
+export type GameSourceName = 'chesscom' | 'lichess';
+
+export interface GameFilters {
+  since?: Date; // Partidas terminadas a partir de esta fecha.
+  until?: Date; // Partidas terminadas hasta esta fecha.
+  perfType?: string[]; // Ritmos: bullet, blitz, rapid, daily (chess.com) o classical, correspondence... (Lichess).
+  max: number; // Número máximo de partidas, las más recientes primero.
+}
+
+export interface NormalizedPlayer {
+  username: string;
+  rating: number | null;
+}
+
+export interface NormalizedGame {
+  id: string;
+  source: GameSourceName;
+  url: string | null;
+  white: NormalizedPlayer;
+  black: NormalizedPlayer;
+  result: '1-0' | '0-1' | '1/2-1/2' | '*';
+  perfType: string | null; // Ritmo tal como lo nombra la plataforma.
+  timeControl: string | null; // "180+2" (segundos + incremento) o "1/86400" en diarias.
+  rated: boolean;
+  endedAt: string | null; // ISO 8601.
+  pgn: string;
+}
+
+/**
+ * Plataforma de la que se importan partidas.
+ */
+export interface GameSourceProvider {
+  readonly name: GameSourceName;
+  getGames(username: string, filters: GameFilters): Promise<NormalizedGame[]>;
+  getPgn(username: string, filters: GameFilters): Promise<string>;
+}
@@ -0,0 +1,62 @@
+import { Classification, GamePhase } from './analysis.interfaces';
+import { GameSourceName } from './game-source.interfaces';
+
+export interface LinkedAccount {
+  source: GameSourceName;
+  username: string; // En minúsculas.
+}
+
+export type TrendInterval = 'day' | 'week' | 'month';
+
+export interface ProfileQuery {
+  from?: string; // Fecha ISO; partidas jugadas desde ese día.
+  to?: string;
+  interval?: string; // 'day', 'week' o 'month' (por defecto).
+  limit?: string; // Aperturas por lista en /openings.
+  minGames?: string; // Partidas mínimas para que una apertura entre en las listas.
+}
+
+export interface AccuracyTrendPoint {
+  period: string; // "2024-03", "2024-W09" o "2024-03-05".
+  games: number;
+  accuracy: number;
+}
+
+export interface ClassificationRatesPoint {
+  period: string; // "2024-03".
+  moves: number;
+  rates: Record<Classification, number>; // % de las jugadas del mes.
+}
+
+export interface OpeningStats {
+  name: string;
+  eco: string | null;
+  games: number;
+  score: number; // Puntos por partida (1 ganar, 0.5 tablas, 0 perder), 0-1.
+  accuracy: number | null;
+}
+
+export interface OpeningsProfile {
+  strongest: OpeningStats[];
+  weakest: OpeningStats[];
+}
+
+export interface PhaseBlunders {
+  games: number; // Partidas con alguna jugada propia en la fase.
+  moves: number;
+  blunders: number;
+  blunderRate: number | null; // % de las jugadas de la fase.
+  blundersPerGame: number | null;
+}
+
+export interface PlayerProfile {
+  id: string;
+  username: string;
+  eloRating: number;
+  linkedAccounts: LinkedAccount[];
+  games: number; // Partidas analizadas en el periodo.
+  accuracyTrend: AccuracyTrendPoint[];
+  classificationRates: ClassificationRatesPoint[];
+  openings: OpeningsProfile;
+  blundersByPhase: Record<GamePhase, PhaseBlunders>;
+}
@@ -0,0 +1,54 @@
+import { GamePhase } from './analysis.interfaces';
+
+/**
+ * Temas del puzzle, con los nombres de Lichess cuando existen.
+ */
+export type PuzzleTheme =
+  | 'mate'
+  | 'mateIn1'
+  | 'mateIn2'
+  | 'mateIn3'
+  | 'mateIn4'
+  | 'advantage'
+  | 'crushing'
+  | 'oneMove'
+  | 'short'
+  | 'long'
+  | 'fork'
+  | 'hangingPiece'
+  | 'sacrifice'
+  | 'promotion'
+  | 'quietMove'
+  | GamePhase;
+
+/**
+ * Partida y jugada de la que sale el puzzle.
+ */
+export interface PuzzleSource {
+  ply: number; // Índice de la jugada errónea en la partida (0 = primera jugada de las blancas).
+  move: { san: string; uci: string }; // La jugada errónea del rival.
+  classification: 'blunder' | 'mistake';
+  white: string | null;
+  black: string | null;
+  link: string | null;
+}
+
+/**
+ * Lo que ve quien resuelve: nunca incluye la solución.
+ */
+export interface PublicPuzzle {
+  id: string;
+  fen: string; // Posición tras el error; mueve quien resuelve.
+  lastMove: { san: string; uci: string }; // El error, para mostrarlo antes de empezar.
+  color: 'white' | 'black'; // Bando de quien resuelve.
+  moves: number; // Jugadas que tiene que encontrar.
+  themes: PuzzleTheme[];
+  rating: number;
+}
+
+export interface PuzzleAttemptResult {
+  correct: boolean; // Todas las jugadas enviadas son de la solución.
+  solved: boolean; // Correcto y ya no quedan jugadas por encontrar.
+  reply: { san: string; uci: string } | null; // Respuesta del rival a la última jugada, si sigue el puzzle.
+  solution?: string[]; // La solución completa en SAN, al terminar (resuelto o fallado).
+}
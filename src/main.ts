@@ -2,6 +2,7 @@ import { NestFactory } from '@nestjs/core';
 import { AppModule } from './app.module';
 import * as fs from 'fs-extra';
 import { join } from 'path';
+import { getCorsOrigins } from './config/cors';
 
 async function copyStockfishFiles() {
   try {
@@ -32,9 +33,7 @@ async function bootstrap() {
     app.setGlobalPrefix('api');
 
     // Configuración de CORS - usando variable de entorno
-    const corsOrigins = process.env.CORS_ORIGINS
-      ? process.env.CORS_ORIGINS.split(',').map(origin => origin.trim())
-      : ['http://localhost:5173'];
+    const corsOrigins = getCorsOrigins();
 
     app.enableCors({
       origin: corsOrigins,
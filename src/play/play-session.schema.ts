@@ -0,0 +1,71 @@
+import { Schema, Prop, SchemaFactory } from '@nestjs/mongoose';
+import { HydratedDocument, Schema as MongooseSchema } from 'mongoose';
+import { EngineStrength } from '../interfaces/engine.interfaces';
+
+export type PlaySessionDocument = HydratedDocument<PlaySession>;
+
+export type PlayColor = 'white' | 'black';
+
+export type PlayStatus = 'active' | 'finished';
+
+export type PlayTermination =
+  | 'checkmate'
+  | 'stalemate'
+  | 'insufficient-material'
+  | 'threefold-repetition'
+  | 'fifty-moves'
+  | 'resignation'
+  | 'draw-agreement'
+  | 'timeout';
+
+export interface PlayedMove {
+  san: string;
+  uci: string;
+  by: 'user' | 'engine';
+  clock?: number; // Segundos que le quedan a quien movió, si hay reloj.
+}
+
+// Concurrencia optimista: save() falla si otra petición guardó la partida antes
+@Schema({ timestamps: true, optimisticConcurrency: true })
+export class PlaySession {
+  // Color de la persona; el motor lleva el otro
+  @Prop({ type: String, required: true })
+  color: PlayColor;
+
+  @Prop({ type: MongooseSchema.Types.Mixed, required: true })
+  strength: EngineStrength;
+
+  // Milisegundos que piensa el motor cada jugada
+  @Prop({ required: true })
+  moveTime: number;
+
+  // Ritmo "300+3" (segundos + incremento); null sin reloj
+  @Prop({ type: String, default: null })
+  timeControl: string | null;
+
+  @Prop({ type: [MongooseSchema.Types.Mixed], default: [] })
+  moves: PlayedMove[];
+
+  // Posición actual
+  @Prop({ required: true })
+  fen: string;
+
+  // Segundos restantes de cada bando; null sin reloj
+  @Prop({ type: MongooseSchema.Types.Mixed, default: null })
+  clocks: { white: number; black: number } | null;
+
+  // Desde aquí corre el reloj de quien tiene el turno
+  @Prop({ type: Date, default: () => new Date() })
+  turnStartedAt: Date;
+
+  @Prop({ type: String, default: 'active', index: true })
+  status: PlayStatus;
+
+  @Prop({ type: String, default: '*' })
+  result: '1-0' | '0-1' | '1/2-1/2' | '*';
+
+  @Prop({ type: String, default: null })
+  termination: PlayTermination | null;
+}
+
+export const PlaySessionSchema = SchemaFactory.createForClass(PlaySession);
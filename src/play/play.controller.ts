@@ -0,0 +1,92 @@
+import {
+  Body,
+  ConflictException,
+  Controller,
+  Get,
+  Header,
+  Param,
+  Post,
+} from '@nestjs/common';
+import { CreatePlaySessionDto, PlayService } from './play.service';
+import { AnalysisService } from '../chess/AnalysisService';
+import { AnalysisJobsService } from '../chess/analysis-jobs.service';
+
+const DEFAULT_ANALYSIS_DEPTH = 16;
+
+@Controller('play')
+export class PlayController {
+  constructor(
+    private readonly playService: PlayService,
+    private readonly analysisService: AnalysisService,
+    private readonly analysisJobsService: AnalysisJobsService,
+  ) {}
+
+  @Post()
+  async create(@Body() body: CreatePlaySessionDto) {
+    return await this.playService.create(body ?? {});
+  }
+
+  @Get(':id')
+  async get(@Param('id') id: string) {
+    return await this.playService.get(id);
+  }
+
+  /**
+   * Devuelve la partida con la jugada enviada y la respuesta del motor
+   */
+  @Post(':id/move')
+  async move(@Param('id') id: string, @Body() body: { move: string }) {
+    return await this.playService.move(id, body?.move);
+  }
+
+  @Post(':id/resign')
+  async resign(@Param('id') id: string) {
+    return await this.playService.resign(id);
+  }
+
+  @Post(':id/draw')
+  async offerDraw(@Param('id') id: string) {
+    return await this.playService.offerDraw(id);
+  }
+
+  @Get(':id/pgn')
+  @Header('Content-Type', 'application/x-chess-pgn')
+  async getPgn(@Param('id') id: string) {
+    return this.playService.toPgn(await this.playService.get(id));
+  }
+
+  /**
+   * Analiza una partida terminada, igual que POST chess/analyze
+   */
+  @Post(':id/analyze')
+  async analyze(
+    @Param('id') id: string,
+    @Body() body: { depth?: number; profile?: string; async?: boolean },
+  ) {
+    const session = await this.playService.get(id);
+    if (session.status !== 'finished') {
+      throw new ConflictException('La partida todavía no ha terminado.');
+    }
+    const pgn = this.playService.toPgn(session);
+    // Con perfil no hay profundidad por defecto
+    const depth = body?.profile
+      ? body.depth
+      : (body?.depth ?? DEFAULT_ANALYSIS_DEPTH);
+    if (body?.async) {
+      const job = await this.analysisJobsService.create(
+        pgn,
+        depth,
+        undefined,
+        body.profile,
+      );
+      return {
+        jobId: job._id.toString(),
+        status: job.status,
+        totalPlies: job.totalPlies,
+      };
+    }
+    return await this.analysisService.analyzeGame(pgn, depth, {
+      profile: body?.profile,
+    });
+  }
+}
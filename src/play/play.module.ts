@@ -0,0 +1,20 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { EngineModule } from '../engine/engine.module';
+import { ChessModule } from '../chess/chess.module';
+import { PlaySession, PlaySessionSchema } from './play-session.schema';
+import { PlayService } from './play.service';
+import { PlayController } from './play.controller';
+
+@Module({
+  imports: [
+    EngineModule,
+    ChessModule,
+    MongooseModule.forFeature([
+      { name: PlaySession.name, schema: PlaySessionSchema },
+    ]),
+  ],
+  controllers: [PlayController],
+  providers: [PlayService],
+})
+export class PlayModule {}
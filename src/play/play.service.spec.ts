@@ -0,0 +1,213 @@
+import {
+  BadRequestException,
+  ConflictException,
+  ServiceUnavailableException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { Document, Error as MongooseError, Types } from 'mongoose';
+import { PlayService } from './play.service';
+import { PlaySession, PlaySessionDocument } from './play-session.schema';
+import { EngineService } from '../engine/engine.service';
+import { ChessService } from '../chess/chess.service';
+
+const exec = <T>(value: T) => ({ exec: jest.fn().mockResolvedValue(value) });
+const reply = (uci: string) => ({ uci, san: '' });
+
+describe('PlayService', () => {
+  let service: PlayService;
+  let sessionModel: jest.Mock & { findById: jest.Mock };
+  let engineService: { playMove: jest.Mock; evaluatePosition: jest.Mock };
+  let session: Record<string, any>;
+  const id = new Types.ObjectId().toString();
+
+  beforeEach(async () => {
+    // Documento en memoria: new y findById devuelven siempre el mismo
+    sessionModel = Object.assign(
+      jest.fn((data) => {
+        session = {
+          moves: [],
+          status: 'active',
+          result: '*',
+          termination: null,
+          ...data,
+          save: jest.fn().mockResolvedValue(undefined),
+          get: () => new Date('2024-03-05T10:00:00Z'),
+        };
+        return session;
+      }),
+      { findById: jest.fn(() => exec(session)) },
+    );
+    engineService = { playMove: jest.fn(), evaluatePosition: jest.fn() };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PlayService,
+        { provide: getModelToken(PlaySession.name), useValue: sessionModel },
+        { provide: EngineService, useValue: engineService },
+        { provide: ConfigService, useValue: new ConfigService({}) },
+      ],
+    }).compile();
+
+    service = module.get<PlayService>(PlayService);
+  });
+
+  it('creates a game where the engine opens when the user has black', async () => {
+    engineService.playMove.mockResolvedValueOnce(reply('e2e4'));
+
+    await service.create({ color: 'black', elo: 1500, moveTime: 500 });
+
+    expect(engineService.playMove).toHaveBeenCalledWith(
+      'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1',
+      { elo: 1500 },
+      500,
+    );
+    expect(session.moves).toEqual([{ san: 'e4', uci: 'e2e4', by: 'engine' }]);
+    expect(session.save).toHaveBeenCalled();
+  });
+
+  it('saves no game when the engine cannot make its first move', async () => {
+    engineService.playMove.mockRejectedValueOnce(new Error('engine crashed'));
+    await expect(service.create({ color: 'black' })).rejects.toThrow(
+      'engine crashed',
+    );
+    expect(session.save).not.toHaveBeenCalled();
+
+    engineService.playMove.mockResolvedValueOnce(null);
+    await expect(service.create({ color: 'black' })).rejects.toThrow(
+      ServiceUnavailableException,
+    );
+    expect(session.save).not.toHaveBeenCalled();
+  });
+
+  it('validates the strength, move time and time control', async () => {
+    await service.create({});
+    expect(session).toMatchObject({
+      color: 'white',
+      strength: { skillLevel: 10 },
+      moveTime: 1000,
+      clocks: null,
+    });
+
+    await expect(service.create({ elo: 900 })).rejects.toThrow(
+      BadRequestException,
+    );
+    await expect(service.create({ skillLevel: 21 })).rejects.toThrow(
+      BadRequestException,
+    );
+    await expect(service.create({ moveTime: 60000 })).rejects.toThrow(
+      BadRequestException,
+    );
+    await expect(service.create({ timeControl: '5 min' })).rejects.toThrow(
+      BadRequestException,
+    );
+    // {"timeControl":300} en el JSON
+    await expect(
+      service.create({ timeControl: 300 as unknown as string }),
+    ).rejects.toThrow(BadRequestException);
+  });
+
+  it('answers every user move and ends the game on checkmate', async () => {
+    engineService.playMove
+      .mockResolvedValueOnce(reply('f2f3'))
+      .mockResolvedValueOnce(reply('g2g4'));
+    await service.create({ color: 'black' });
+
+    await service.move(id, 'e5');
+    expect(session.moves.map((move) => move.san)).toEqual(['f3', 'e5', 'g4']);
+
+    await service.move(id, 'd8h4');
+    expect(session).toMatchObject({
+      status: 'finished',
+      result: '0-1',
+      termination: 'checkmate',
+    });
+    expect(engineService.playMove).toHaveBeenCalledTimes(2);
+    await expect(service.move(id, 'e4')).rejects.toThrow(ConflictException);
+  });
+
+  it('rejects illegal moves without calling the engine', async () => {
+    await service.create({});
+    await expect(service.move(id, 'e5')).rejects.toThrow(BadRequestException);
+    await expect(service.move(id, '')).rejects.toThrow(BadRequestException);
+    expect(engineService.playMove).not.toHaveBeenCalled();
+  });
+
+  it('rejects a move when another one was saved first', async () => {
+    engineService.playMove.mockResolvedValue(reply('e7e5'));
+    await service.create({});
+    // Otra petición guardó una jugada desde que esta leyó la partida
+    // (VersionError solo lee el _id del documento)
+    const document = { _doc: { _id: id } } as unknown as Document;
+    session.save.mockRejectedValueOnce(
+      new MongooseError.VersionError(document, 0, ['moves']),
+    );
+
+    await expect(service.move(id, 'e4')).rejects.toThrow(ConflictException);
+  });
+
+  it('keeps the clocks with increment and flags a user out of time', async () => {
+    engineService.playMove.mockResolvedValue(reply('e7e5'));
+    await service.create({ timeControl: '60+2' });
+
+    session.turnStartedAt = new Date(Date.now() - 10000);
+    await service.move(id, 'e4');
+    expect(session.moves[0].clock).toBeCloseTo(52, 0);
+    expect(session.clocks.white).toBeCloseTo(52, 0);
+
+    session.turnStartedAt = new Date(Date.now() - 60000);
+    await service.move(id, 'Nf3');
+    expect(session).toMatchObject({
+      status: 'finished',
+      result: '0-1',
+      termination: 'timeout',
+      clocks: { white: 0 },
+    });
+    expect(session.moves).toHaveLength(2);
+  });
+
+  it('lets the engine accept a draw only when it is not better', async () => {
+    await service.create({});
+    // Mueven las blancas (la persona): +3 para ellas
+    engineService.evaluatePosition.mockResolvedValueOnce([
+      { evaluation: { type: 'cp', value: 300 } },
+    ]);
+    expect((await service.offerDraw(id)).accepted).toBe(true);
+    expect(session).toMatchObject({
+      result: '1/2-1/2',
+      termination: 'draw-agreement',
+    });
+
+    await service.create({});
+    engineService.evaluatePosition.mockResolvedValueOnce([
+      { evaluation: { type: 'cp', value: 20 } },
+    ]);
+    expect((await service.offerDraw(id)).accepted).toBe(false);
+    expect(session.status).toBe('active');
+  });
+
+  it('exports a PGN with clocks that parses back for analysis', async () => {
+    engineService.playMove.mockResolvedValue(reply('e7e5'));
+    await service.create({ skillLevel: 5, timeControl: '180+0' });
+    await service.move(id, 'e4');
+    await service.resign(id);
+
+    const { positions, metadata } = new ChessService().parsePgn(
+      service.toPgn(session as unknown as PlaySessionDocument),
+    );
+    expect(positions.map((position) => position.move.san)).toEqual([
+      'e4',
+      'e5',
+    ]);
+    expect(positions[0].clock).toBeGreaterThan(179);
+    expect(metadata).toMatchObject({
+      white: 'Anonymous',
+      black: 'Stockfish (Skill Level 5)',
+      result: '0-1',
+      date: '2024.03.05',
+      timeControl: '180+0',
+      termination: 'resignation',
+    });
+  });
+});
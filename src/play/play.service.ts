@@ -0,0 +1,436 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  NotFoundException,
+  ServiceUnavailableException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectModel } from '@nestjs/mongoose';
+import { Chess, Move } from 'chess.js';
+import { Error as MongooseError, isValidObjectId, Model } from 'mongoose';
+import {
+  PlayColor,
+  PlayedMove,
+  PlaySession,
+  PlaySessionDocument,
+  PlayTermination,
+} from './play-session.schema';
+import { EngineService } from '../engine/engine.service';
+import { EvaluationUtils } from '../chess/evaluation.util';
+import { EngineStrength } from '../interfaces/engine.interfaces';
+
+const STARTING_FEN = 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1';
+
+const DEFAULT_MOVE_TIME_MS = 1000;
+const MAX_MOVE_TIME_MS = 10000;
+const DEFAULT_SKILL_LEVEL = 10;
+const MAX_SKILL_LEVEL = 20;
+// Límites de UCI_Elo en Stockfish 16
+const MIN_ELO = 1320;
+const MAX_ELO = 3190;
+// Con reloj, el motor no gasta más de esta fracción de su tiempo en una jugada
+const MAX_CLOCK_FRACTION = 0.05;
+
+// El motor acepta tablas si su puntuación esperada no pasa de aquí
+const DRAW_ACCEPT_SCORE = 0.45;
+const DRAW_EVAL_DEPTH = 12;
+
+export interface CreatePlaySessionDto {
+  color?: PlayColor | 'random';
+  skillLevel?: number;
+  elo?: number;
+  moveTime?: number; // Milisegundos por jugada del motor.
+  timeControl?: string; // "300+3"; sin él la partida no tiene reloj.
+}
+
+/**
+ * Partidas contra Stockfish: tras cada jugada de la persona responde el motor
+ * con la fuerza elegida (Skill Level o UCI_Elo).
+ */
+@Injectable()
+export class PlayService {
+  private readonly defaultMoveTime: number;
+
+  constructor(
+    @InjectModel(PlaySession.name)
+    private readonly sessionModel: Model<PlaySessionDocument>,
+    private readonly engineService: EngineService,
+    private readonly configService: ConfigService,
+  ) {
+    const configured = parseInt(
+      this.configService.get<string>('ENGINE_MOVE_TIME_MS') ?? '',
+      10,
+    );
+    this.defaultMoveTime =
+      configured > 0
+        ? Math.min(configured, MAX_MOVE_TIME_MS)
+        : DEFAULT_MOVE_TIME_MS;
+  }
+
+  /**
+   * Con negras, el motor hace su primera jugada antes de devolver la partida.
+   * La partida solo se guarda con esa jugada hecha: si el motor falla no queda
+   * ninguna esperando al motor.
+   */
+  async create(dto: CreatePlaySessionDto = {}): Promise<PlaySessionDocument> {
+    const color = this.parseColor(dto.color);
+    const strength = this.parseStrength(dto);
+    const moveTime = this.parseMoveTime(dto.moveTime);
+    const base =
+      dto.timeControl === undefined || dto.timeControl === null
+        ? null
+        : this.parseTimeControl(dto.timeControl).base;
+
+    const session = new this.sessionModel({
+      color,
+      strength,
+      moveTime,
+      timeControl: base === null ? null : dto.timeControl,
+      fen: STARTING_FEN,
+      clocks: base === null ? null : { white: base, black: base },
+      turnStartedAt: new Date(),
+    });
+
+    if (color === 'black') {
+      await this.engineMove(session, new Chess());
+    }
+    await this.save(session);
+    return session;
+  }
+
+  async findOne(id: string): Promise<PlaySessionDocument> {
+    const session = isValidObjectId(id)
+      ? await this.sessionModel.findById(id).exec()
+      : null;
+    if (!session) {
+      throw new NotFoundException('No existe la partida.');
+    }
+    return session;
+  }
+
+  /**
+   * La partida, dándola por perdida si a quien tiene el turno se le acabó el tiempo.
+   */
+  async get(id: string): Promise<PlaySessionDocument> {
+    const session = await this.findOne(id);
+    if (this.flagIfOutOfTime(session)) await this.save(session);
+    return session;
+  }
+
+  /**
+   * Jugada de la persona (UCI o SAN) y respuesta del motor.
+   */
+  async move(id: string, input: unknown): Promise<PlaySessionDocument> {
+    if (typeof input !== 'string' || !input.trim()) {
+      throw new BadRequestException('Envía la jugada en move (UCI o SAN).');
+    }
+    const session = await this.findOne(id);
+    this.assertActive(session);
+    const chess = this.replay(session);
+    if (chess.turn() !== session.color[0]) {
+      throw new ConflictException('No es tu turno.');
+    }
+
+    if (this.flagIfOutOfTime(session)) {
+      await this.save(session);
+      return session;
+    }
+
+    this.record(session, chess, this.playMove(chess, input), 'user');
+    if (session.status === 'active') await this.engineMove(session, chess);
+    await this.save(session);
+    return session;
+  }
+
+  async resign(id: string): Promise<PlaySessionDocument> {
+    const session = await this.findOne(id);
+    this.assertActive(session);
+    this.finish(
+      session,
+      session.color === 'white' ? '0-1' : '1-0',
+      'resignation',
+    );
+    await this.save(session);
+    return session;
+  }
+
+  /**
+   * El motor acepta las tablas si no está mejor según una búsqueda a
+   * profundidad DRAW_EVAL_DEPTH (a plena fuerza).
+   */
+  async offerDraw(
+    id: string,
+  ): Promise<{ accepted: boolean; session: PlaySessionDocument }> {
+    const session = await this.findOne(id);
+    this.assertActive(session);
+
+    const [best] = await this.engineService.evaluatePosition(
+      session.fen,
+      DRAW_EVAL_DEPTH,
+    );
+    const score = best
+      ? EvaluationUtils.getExpectedScore(best.evaluation, best.wdl)
+      : 0.5;
+    // La evaluación es desde el bando que mueve
+    const engineToMove = session.fen.split(' ')[1] !== session.color[0];
+    const engineScore = engineToMove ? score : 1 - score;
+
+    const accepted = engineScore <= DRAW_ACCEPT_SCORE;
+    if (accepted) {
+      this.finish(session, '1/2-1/2', 'draw-agreement');
+      await this.save(session);
+    }
+    return { accepted, session };
+  }
+
+  /**
+   * PGN de la partida con [%clk] si tiene reloj, listo para analyzeGame.
+   */
+  toPgn(session: PlaySessionDocument): string {
+    const chess = new Chess();
+    const engine = this.engineName(session.strength);
+    const date = (session.get('createdAt') as Date | undefined) ?? new Date();
+
+    chess.setHeader('Event', 'Chessmaster 360 vs Stockfish');
+    chess.setHeader('Site', 'Chessmaster 360');
+    chess.setHeader('Date', date.toISOString().slice(0, 10).replace(/-/g, '.'));
+    chess.setHeader('White', session.color === 'white' ? 'Anonymous' : engine);
+    chess.setHeader('Black', session.color === 'black' ? 'Anonymous' : engine);
+    chess.setHeader('Result', session.result);
+    chess.setHeader('TimeControl', session.timeControl ?? '-');
+    if (session.termination) {
+      chess.setHeader('Termination', session.termination);
+    }
+
+    for (const move of session.moves) {
+      chess.move(this.toMove(move.uci));
+      if (move.clock !== undefined) {
+        chess.setComment(`[%clk ${this.formatClock(move.clock)}]`);
+      }
+    }
+    return chess.pgn();
+  }
+
+  private async engineMove(
+    session: PlaySessionDocument,
+    chess: Chess,
+  ): Promise<void> {
+    let moveTime = session.moveTime;
+    if (session.clocks) {
+      const remaining =
+        session.clocks[session.color === 'white' ? 'black' : 'white'];
+      moveTime = Math.max(
+        50,
+        Math.min(moveTime, Math.floor(remaining * 1000 * MAX_CLOCK_FRACTION)),
+      );
+    }
+
+    const reply = await this.engineService.playMove(
+      chess.fen(),
+      session.strength,
+      moveTime,
+    );
+    // Solo se llama con la partida en juego: sin jugada, el motor falló
+    if (!reply) {
+      throw new ServiceUnavailableException(
+        'El motor no devolvió ninguna jugada; inténtalo de nuevo.',
+      );
+    }
+    this.record(session, chess, chess.move(this.toMove(reply.uci)), 'engine');
+  }
+
+  /**
+   * Añade la jugada ya hecha en `chess`, descuenta el tiempo usado y suma el
+   * incremento, y cierra la partida si ha terminado.
+   */
+  private record(
+    session: PlaySessionDocument,
+    chess: Chess,
+    move: Move,
+    by: PlayedMove['by'],
+  ): void {
+    const now = new Date();
+    const entry: PlayedMove = { san: move.san, uci: move.lan, by };
+
+    if (session.clocks && session.timeControl) {
+      const side = move.color === 'w' ? 'white' : 'black';
+      const spent = (now.getTime() - session.turnStartedAt.getTime()) / 1000;
+      const { increment } = this.parseTimeControl(session.timeControl);
+      const clock =
+        Math.round(Math.max(0, session.clocks[side] - spent + increment) * 10) /
+        10;
+      session.clocks = { ...session.clocks, [side]: clock };
+      entry.clock = clock;
+    }
+
+    session.moves = [...session.moves, entry];
+    session.fen = chess.fen();
+    session.turnStartedAt = now;
+
+    const mover = move.color === 'w' ? '1-0' : '0-1';
+    if (chess.isCheckmate()) this.finish(session, mover, 'checkmate');
+    else if (chess.isStalemate()) this.finish(session, '1/2-1/2', 'stalemate');
+    else if (chess.isInsufficientMaterial()) {
+      this.finish(session, '1/2-1/2', 'insufficient-material');
+    } else if (chess.isThreefoldRepetition()) {
+      this.finish(session, '1/2-1/2', 'threefold-repetition');
+    } else if (chess.isDrawByFiftyMoves()) {
+      this.finish(session, '1/2-1/2', 'fifty-moves');
+    }
+  }
+
+  /**
+   * true si el bando que tiene el turno se ha quedado sin tiempo.
+   */
+  private flagIfOutOfTime(session: PlaySessionDocument): boolean {
+    if (session.status !== 'active' || !session.clocks) return false;
+    const side = session.moves.length % 2 === 0 ? 'white' : 'black';
+    const spent = (Date.now() - session.turnStartedAt.getTime()) / 1000;
+    if (session.clocks[side] - spent > 0) return false;
+
+    session.clocks = { ...session.clocks, [side]: 0 };
+    this.finish(session, side === 'white' ? '0-1' : '1-0', 'timeout');
+    return true;
+  }
+
+  private finish(
+    session: PlaySessionDocument,
+    result: PlaySession['result'],
+    termination: PlayTermination,
+  ): void {
+    session.status = 'finished';
+    session.result = result;
+    session.termination = termination;
+  }
+
+  private assertActive(session: PlaySessionDocument): void {
+    if (session.status !== 'active') {
+      throw new ConflictException('La partida ya terminó.');
+    }
+  }
+
+  /**
+   * Rehace la partida desde el principio, para detectar repeticiones.
+   */
+  private replay(session: PlaySessionDocument): Chess {
+    const chess = new Chess();
+    session.moves.forEach((move) => chess.move(this.toMove(move.uci)));
+    return chess;
+  }
+
+  private playMove(chess: Chess, input: string): Move {
+    const uci = input.trim();
+    try {
+      return /^[a-h][1-8][a-h][1-8][qrbn]?$/.test(uci)
+        ? chess.move(this.toMove(uci))
+        : chess.move(uci);
+    } catch {
+      throw new BadRequestException(`Jugada ilegal: ${input}`);
+    }
+  }
+
+  private toMove(uci: string) {
+    return { from: uci.slice(0, 2), to: uci.slice(2, 4), promotion: uci[4] };
+  }
+
+  private parseColor(color: CreatePlaySessionDto['color']): PlayColor {
+    if (color === undefined) return 'white';
+    if (color === 'random') return Math.random() < 0.5 ? 'white' : 'black';
+    if (color !== 'white' && color !== 'black') {
+      throw new BadRequestException(
+        'color debe ser "white", "black" o "random".',
+      );
+    }
+    return color;
+  }
+
+  /**
+   * elo tiene prioridad; sin ninguno de los dos, Skill Level 10.
+   */
+  private parseStrength(dto: CreatePlaySessionDto): EngineStrength {
+    if (dto.elo !== undefined) {
+      const elo = Number(dto.elo);
+      if (!Number.isInteger(elo) || elo < MIN_ELO || elo > MAX_ELO) {
+        throw new BadRequestException(
+          `elo debe ser un entero entre ${MIN_ELO} y ${MAX_ELO}.`,
+        );
+      }
+      return { elo };
+    }
+    const skillLevel = Number(dto.skillLevel ?? DEFAULT_SKILL_LEVEL);
+    if (
+      !Number.isInteger(skillLevel) ||
+      skillLevel < 0 ||
+      skillLevel > MAX_SKILL_LEVEL
+    ) {
+      throw new BadRequestException(
+        `skillLevel debe ser un entero entre 0 y ${MAX_SKILL_LEVEL}.`,
+      );
+    }
+    return { skillLevel };
+  }
+
+  private parseMoveTime(moveTime: number | undefined): number {
+    if (moveTime === undefined) return this.defaultMoveTime;
+    const value = Number(moveTime);
+    if (!Number.isInteger(value) || value < 1 || value > MAX_MOVE_TIME_MS) {
+      throw new BadRequestException(
+        `moveTime debe estar entre 1 y ${MAX_MOVE_TIME_MS} ms.`,
+      );
+    }
+    return value;
+  }
+
+  private parseTimeControl(timeControl: unknown): {
+    base: number;
+    increment: number;
+  } {
+    // Un número en el JSON ({"timeControl":300}) también es un 400
+    const match =
+      typeof timeControl === 'string'
+        ? timeControl.match(/^(\d+)(?:\+(\d+))?$/)
+        : null;
+    if (!match || Number(match[1]) === 0) {
+      throw new BadRequestException(
+        'timeControl debe tener la forma "300+3" (segundos + incremento).',
+      );
+    }
+    return { base: Number(match[1]), increment: Number(match[2] ?? 0) };
+  }
+
+  private engineName(strength: EngineStrength): string {
+    return strength.elo !== undefined
+      ? `Stockfish (Elo ${strength.elo})`
+      : `Stockfish (Skill Level ${strength.skillLevel ?? MAX_SKILL_LEVEL})`;
+  }
+
+  /**
+   * Guarda la partida. El esquema usa concurrencia optimista, así que si otra
+   * petición la guardó desde que se leyó (dos jugadas a la vez), falla con 409
+   * en lugar de pisarla.
+   */
+  private async save(session: PlaySessionDocument): Promise<void> {
+    try {
+      await session.save();
+    } catch (error) {
+      if (error instanceof MongooseError.VersionError) {
+        throw new ConflictException(
+          'La partida cambió mientras tanto; vuelve a cargarla.',
+        );
+      }
+      throw error;
+    }
+  }
+
+  private formatClock(clock: number): string {
+    const seconds = Math.round(clock * 10) / 10;
+    const hours = Math.floor(seconds / 3600);
+    const minutes = Math.floor((seconds % 3600) / 60);
+    const rest = seconds % 60;
+    const secs = Number.isInteger(rest)
+      ? String(rest).padStart(2, '0')
+      : rest.toFixed(1).padStart(4, '0');
+    return `${hours}:${String(minutes).padStart(2, '0')}:${secs}`;
+  }
+}
@@ -0,0 +1,60 @@
+import { Schema, Prop, SchemaFactory } from '@nestjs/mongoose';
+import { HydratedDocument, Schema as MongooseSchema, Types } from 'mongoose';
+import {
+  Classification,
+  GamePhase,
+  Report,
+} from '../interfaces/analysis.interfaces';
+
+export type GameReportDocument = HydratedDocument<GameReport>;
+
+/**
+ * Reporte de análisis guardado para un usuario. Los campos sueltos son el
+ * resumen desde su lado del tablero, para agregar sin recorrer las posiciones.
+ */
+@Schema({ timestamps: true })
+export class GameReport {
+  @Prop({ type: MongooseSchema.Types.ObjectId, ref: 'User', required: true })
+  user: Types.ObjectId;
+
+  // Color del usuario; null si no se pudo saber (la partida no cuenta en el perfil)
+  @Prop({ type: String, default: null })
+  color: 'white' | 'black' | null;
+
+  // Fecha del PGN o, sin ella, la del análisis
+  @Prop({ type: Date, required: true })
+  playedAt: Date;
+
+  // Cabecera Link; la misma partida no se guarda dos veces
+  @Prop({ type: String, default: null })
+  link: string | null;
+
+  // Puntos del usuario: 1, 0.5 o 0; null sin resultado o sin color
+  @Prop({ type: Number, default: null })
+  score: number | null;
+
+  @Prop({ type: MongooseSchema.Types.Mixed, default: null })
+  opening: { name: string; eco: string | null } | null;
+
+  @Prop({ type: Number, default: null })
+  accuracy: number | null;
+
+  @Prop({ type: MongooseSchema.Types.Mixed, default: null })
+  classifications: Record<Classification, number> | null;
+
+  // Jugadas y blunders del usuario en cada fase
+  @Prop({ type: MongooseSchema.Types.Mixed, default: null })
+  phases: Record<GamePhase, { moves: number; blunders: number }> | null;
+
+  @Prop({ type: MongooseSchema.Types.Mixed, required: true })
+  report: Report;
+}
+
+export const GameReportSchema = SchemaFactory.createForClass(GameReport);
+
+// Todas las consultas del perfil filtran por usuario y fecha
+GameReportSchema.index({ user: 1, playedAt: 1 });
+GameReportSchema.index(
+  { user: 1, link: 1 },
+  { unique: true, partialFilterExpression: { link: { $type: 'string' } } },
+);
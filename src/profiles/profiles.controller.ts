@@ -0,0 +1,68 @@
+import { Controller, Get, Param, Query, UseGuards } from '@nestjs/common';
+import { ProfilesService } from './profiles.service';
+import { ProfileQuery } from '../interfaces/profile.interfaces';
+import { AuthGuard } from '../auth/auth.guard';
+import { SelfOrAdminGuard } from '../auth/self-or-admin.guard';
+
+/**
+ * Todas las rutas aceptan ?from=2024-01-01&to=2024-06-30 (opcionales). Solo
+ * para el propio usuario o un admin
+ */
+@Controller('users/:id')
+@UseGuards(AuthGuard, SelfOrAdminGuard)
+export class ProfilesController {
+  constructor(private readonly profilesService: ProfilesService) {}
+
+  @Get('profile')
+  async getProfile(@Param('id') id: string, @Query() query: ProfileQuery) {
+    return await this.profilesService.getProfile(id, query);
+  }
+
+  /**
+   * ?interval=day|week|month (por defecto month)
+   */
+  @Get('profile/accuracy')
+  async getAccuracyTrend(
+    @Param('id') id: string,
+    @Query() query: ProfileQuery,
+  ) {
+    return await this.profilesService.accuracyTrend(id, query);
+  }
+
+  @Get('profile/classifications')
+  async getClassificationRates(
+    @Param('id') id: string,
+    @Query() query: ProfileQuery,
+  ) {
+    return await this.profilesService.classificationRates(id, query);
+  }
+
+  /**
+   * ?limit=5&minGames=2
+   */
+  @Get('profile/openings')
+  async getOpenings(@Param('id') id: string, @Query() query: ProfileQuery) {
+    return await this.profilesService.openings(id, query);
+  }
+
+  @Get('profile/blunders')
+  async getBlundersByPhase(
+    @Param('id') id: string,
+    @Query() query: ProfileQuery,
+  ) {
+    return await this.profilesService.blundersByPhase(id, query);
+  }
+
+  /**
+   * Reportes guardados, los más recientes primero, sin las posiciones
+   */
+  @Get('games')
+  async getGames(@Param('id') id: string, @Query() query: ProfileQuery) {
+    return await this.profilesService.findGames(id, query);
+  }
+
+  @Get('games/:reportId')
+  async getGame(@Param('id') id: string, @Param('reportId') reportId: string) {
+    return await this.profilesService.findGame(id, reportId);
+  }
+}
@@ -0,0 +1,19 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { UsersModule } from '../users/users.module';
+import { GameReport, GameReportSchema } from './game-report.schema';
+import { ProfilesService } from './profiles.service';
+import { ProfilesController } from './profiles.controller';
+
+@Module({
+  imports: [
+    UsersModule,
+    MongooseModule.forFeature([
+      { name: GameReport.name, schema: GameReportSchema },
+    ]),
+  ],
+  controllers: [ProfilesController],
+  providers: [ProfilesService],
+  exports: [ProfilesService],
+})
+export class ProfilesModule {}
@@ -0,0 +1,251 @@
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { Types } from 'mongoose';
+import { ProfilesService } from './profiles.service';
+import { GameReport } from './game-report.schema';
+import { UsersService } from '../users/users.service';
+import { Classification, Report } from '../interfaces/analysis.interfaces';
+
+const exec = <T>(value: T) => ({ exec: jest.fn().mockResolvedValue(value) });
+
+const counts = (overrides: Partial<Record<Classification, number>>) =>
+  ({
+    brilliant: 0,
+    great: 0,
+    best: 0,
+    excellent: 0,
+    good: 0,
+    inaccuracy: 0,
+    mistake: 0,
+    blunder: 0,
+    book: 0,
+    forced: 0,
+    miss: 0,
+    ...overrides,
+  }) as Record<Classification, number>;
+
+const phase = (
+  white: Partial<Record<Classification, number>>,
+  black: Partial<Record<Classification, number>>,
+) => ({
+  accuracies: { white: null, black: null },
+  classifications: { white: counts(white), black: counts(black) },
+});
+
+const report = (metadata: Partial<Report['metadata']>): Report =>
+  ({
+    accuracies: { white: 91.5, black: 74.2 },
+    classifications: {
+      white: counts({ book: 4, best: 10 }),
+      black: counts({ book: 4, best: 6, mistake: 2, blunder: 2 }),
+    },
+    phases: {
+      opening: phase({ book: 4 }, { book: 4 }),
+      middlegame: phase({ best: 10 }, { best: 6, mistake: 2, blunder: 1 }),
+      endgame: phase({}, { blunder: 1 }),
+    },
+    opening: {
+      opening: { fen: '', name: 'Sicilian Defense', eco: 'B20', moves: null },
+      ply: 2,
+      leftTheoryAtPly: 9,
+    },
+    metadata: {
+      white: 'rival',
+      black: 'MagnusFan',
+      date: '2024.03.05',
+      result: '1-0',
+      link: 'https://www.chess.com/game/live/1',
+      ...metadata,
+    },
+  }) as Report;
+
+describe('ProfilesService', () => {
+  let service: ProfilesService;
+  let gameReportModel: Record<string, jest.Mock>;
+  let usersService: { findOne: jest.Mock; findByAccount: jest.Mock };
+  const userId = new Types.ObjectId();
+  const user = {
+    _id: userId,
+    username: 'ana',
+    eloRating: 1500,
+    linkedAccounts: [{ source: 'chesscom', username: 'magnusfan' }],
+  };
+
+  beforeEach(async () => {
+    gameReportModel = {
+      create: jest.fn(async (data) => data),
+      findOneAndUpdate: jest.fn(() => exec({})),
+      aggregate: jest.fn(() => exec([])),
+      countDocuments: jest.fn(() => exec(0)),
+    };
+    usersService = {
+      findOne: jest.fn(async (id: string) => {
+        if (id !== userId.toString()) {
+          throw new NotFoundException('No existe el usuario.');
+        }
+        return user;
+      }),
+      findByAccount: jest.fn().mockResolvedValue(null),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ProfilesService,
+        { provide: getModelToken(GameReport.name), useValue: gameReportModel },
+        { provide: UsersService, useValue: usersService },
+      ],
+    }).compile();
+
+    service = module.get<ProfilesService>(ProfilesService);
+  });
+
+  it('stores the summary from the side of the linked account', async () => {
+    await service.saveReport(userId.toString(), report({}));
+
+    const [filter, { $set: summary }, options] =
+      gameReportModel.findOneAndUpdate.mock.calls[0];
+    expect(filter).toEqual({
+      user: userId,
+      link: 'https://www.chess.com/game/live/1',
+    });
+    expect(options).toMatchObject({ upsert: true });
+    expect(summary).toMatchObject({
+      color: 'black',
+      playedAt: new Date('2024-03-05T00:00:00Z'),
+      score: 0,
+      opening: { name: 'Sicilian Defense', eco: 'B20' },
+      accuracy: 74.2,
+      phases: {
+        opening: { moves: 4, blunders: 0 },
+        middlegame: { moves: 9, blunders: 1 },
+        endgame: { moves: 1, blunders: 1 },
+      },
+    });
+    expect(summary.classifications.blunder).toBe(2);
+  });
+
+  it('keeps a report without a known side out of the statistics', async () => {
+    const saved = await service.saveReport(
+      userId.toString(),
+      report({ black: 'someone', link: null, date: '2024.??.??' }),
+    );
+
+    expect(gameReportModel.findOneAndUpdate).not.toHaveBeenCalled();
+    expect(saved).toMatchObject({
+      color: null,
+      score: null,
+      accuracy: null,
+      classifications: null,
+      phases: null,
+    });
+    expect(saved.playedAt).toBeInstanceOf(Date);
+
+    // Con el color explícito sí cuenta
+    const explicit = await service.saveReport(
+      userId.toString(),
+      report({ black: 'someone', link: null, result: '1/2-1/2' }),
+      'white',
+    );
+    expect(explicit).toMatchObject({ color: 'white', score: 0.5 });
+  });
+
+  it('validates the owner before saving', async () => {
+    await expect(
+      service.saveReport(new Types.ObjectId().toString(), report({})),
+    ).rejects.toThrow(NotFoundException);
+    await expect(
+      service.checkOwner(userId.toString(), 'green'),
+    ).rejects.toThrow(BadRequestException);
+    expect(
+      await service.saveForAccount('chesscom', 'nobody', report({})),
+    ).toBeNull();
+  });
+
+  it('groups the accuracy trend by period within the date range', async () => {
+    gameReportModel.aggregate.mockReturnValue(
+      exec([{ period: '2024-W10', games: 3, accuracy: 81.2 }]),
+    );
+
+    const trend = await service.accuracyTrend(userId.toString(), {
+      from: '2024-03-01',
+      to: '2024-03-31',
+      interval: 'week',
+    });
+
+    expect(trend).toEqual([{ period: '2024-W10', games: 3, accuracy: 81.2 }]);
+    const [pipeline] = gameReportModel.aggregate.mock.calls[0];
+    expect(pipeline[0].$match).toEqual({
+      user: userId,
+      color: { $ne: null },
+      // "to" sin hora incluye todo el día
+      playedAt: {
+        $gte: new Date('2024-03-01T00:00:00Z'),
+        $lt: new Date('2024-04-01T00:00:00Z'),
+      },
+      accuracy: { $ne: null },
+    });
+    expect(pipeline[1].$group._id).toEqual({
+      $dateToString: { format: '%G-W%V', date: '$playedAt' },
+    });
+
+    for (const interval of ['year', 'constructor']) {
+      await expect(
+        service.accuracyTrend(userId.toString(), { interval }),
+      ).rejects.toThrow(BadRequestException);
+    }
+    await expect(
+      service.accuracyTrend(userId.toString(), { from: 'yesterday' }),
+    ).rejects.toThrow(BadRequestException);
+  });
+
+  it('ranks openings with a minimum number of games', async () => {
+    expect(await service.openings(userId.toString(), {})).toEqual({
+      strongest: [],
+      weakest: [],
+    });
+
+    await service.openings(userId.toString(), { limit: '3', minGames: '5' });
+    const [pipeline] = gameReportModel.aggregate.mock.calls[1];
+    expect(pipeline).toContainEqual({ $match: { games: { $gte: 5 } } });
+    const { $facet } = pipeline[pipeline.length - 1];
+    expect($facet.strongest).toContainEqual({ $limit: 3 });
+    expect($facet.weakest[0].$sort).toMatchObject({ score: 1 });
+
+    await expect(
+      service.openings(userId.toString(), { limit: '0' }),
+    ).rejects.toThrow(BadRequestException);
+  });
+
+  it('fills the phases with no moves in the blunder frequency', async () => {
+    gameReportModel.aggregate.mockReturnValue(
+      exec([
+        {
+          phase: 'middlegame',
+          games: 4,
+          moves: 80,
+          blunders: 6,
+          blunderRate: 7.5,
+          blundersPerGame: 1.5,
+        },
+      ]),
+    );
+
+    const phases = await service.blundersByPhase(userId.toString(), {});
+
+    expect(phases.middlegame).toEqual({
+      games: 4,
+      moves: 80,
+      blunders: 6,
+      blunderRate: 7.5,
+      blundersPerGame: 1.5,
+    });
+    expect(phases.endgame).toEqual({
+      games: 0,
+      moves: 0,
+      blunders: 0,
+      blunderRate: null,
+      blundersPerGame: null,
+    });
+  });
+});
@@ -0,0 +1,572 @@
+import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { isValidObjectId, Model, QueryFilter } from 'mongoose';
+import { GameReport, GameReportDocument } from './game-report.schema';
+import { UsersService } from '../users/users.service';
+import { UserDocument } from '../users/users.schema';
+import {
+  GameMetadata,
+  GamePhase,
+  Report,
+} from '../interfaces/analysis.interfaces';
+import { GameSourceName } from '../interfaces/game-source.interfaces';
+import {
+  AccuracyTrendPoint,
+  ClassificationRatesPoint,
+  OpeningsProfile,
+  PhaseBlunders,
+  PlayerProfile,
+  ProfileQuery,
+  TrendInterval,
+} from '../interfaces/profile.interfaces';
+
+// Formatos de $dateToString para agrupar por periodo (semana ISO)
+const INTERVAL_FORMATS: Record<TrendInterval, string> = {
+  day: '%Y-%m-%d',
+  week: '%G-W%V',
+  month: '%Y-%m',
+};
+
+const PHASES: GamePhase[] = ['opening', 'middlegame', 'endgame'];
+
+const DEFAULT_OPENINGS_LIMIT = 5;
+const MAX_OPENINGS_LIMIT = 20;
+// Con una sola partida, una apertura no dice nada de su fuerza
+const DEFAULT_MIN_GAMES = 2;
+const DEFAULT_GAMES_LIMIT = 20;
+
+type Color = 'white' | 'black';
+
+type ReportFilter = QueryFilter<GameReportDocument>;
+
+/**
+ * Reportes guardados por usuario y su evolución, calculada con pipelines de
+ * agregación sobre el resumen de cada partida (ver GameReport).
+ */
+@Injectable()
+export class ProfilesService {
+  constructor(
+    @InjectModel(GameReport.name)
+    private readonly gameReportModel: Model<GameReportDocument>,
+    private readonly usersService: UsersService,
+  ) {}
+
+  /**
+   * Sin color, se busca el del usuario entre los jugadores del PGN con sus
+   * cuentas vinculadas. Volver a analizar una partida con Link la reemplaza.
+   */
+  async saveReport(
+    userId: string,
+    report: Report,
+    color?: Color,
+  ): Promise<GameReportDocument> {
+    const user = await this.checkOwner(userId, color);
+    return this.store(
+      user,
+      report,
+      color ?? this.findColor(user, report.metadata),
+    );
+  }
+
+  /**
+   * Para comprobar el dueño antes de analizar y no perder el análisis por un
+   * id mal escrito
+   */
+  async checkOwner(userId: string, color?: string): Promise<UserDocument> {
+    if (color !== undefined && color !== 'white' && color !== 'black') {
+      throw new BadRequestException('color debe ser "white" o "black".');
+    }
+    return this.usersService.findOne(userId);
+  }
+
+  /**
+   * Guarda el reporte para el usuario con esa cuenta vinculada; null si nadie
+   * la tiene
+   */
+  async saveForAccount(
+    source: GameSourceName,
+    username: string,
+    report: Report,
+  ): Promise<GameReportDocument | null> {
+    const user = await this.usersService.findByAccount(source, username);
+    if (!user) return null;
+    return this.store(user, report, this.findColor(user, report.metadata));
+  }
+
+  async findGames(
+    userId: string,
+    query: ProfileQuery,
+  ): Promise<GameReportDocument[]> {
+    const user = await this.usersService.findOne(userId);
+    return this.gameReportModel
+      .find(this.filter(user, query, false))
+      .select('-report')
+      .sort({ playedAt: -1 })
+      .limit(this.parseInteger(query.limit, DEFAULT_GAMES_LIMIT, 1, 100))
+      .exec();
+  }
+
+  async findGame(
+    userId: string,
+    reportId: string,
+  ): Promise<GameReportDocument> {
+    await this.usersService.findOne(userId);
+    const game = isValidObjectId(reportId)
+      ? await this.gameReportModel
+          .findOne({ _id: reportId, user: userId })
+          .exec()
+      : null;
+    if (!game) {
+      throw new NotFoundException('No existe el reporte.');
+    }
+    return game;
+  }
+
+  async getProfile(
+    userId: string,
+    query: ProfileQuery,
+  ): Promise<PlayerProfile> {
+    const user = await this.usersService.findOne(userId);
+    const filter = this.filter(user, query);
+    const [games, accuracyTrend, classificationRates, openings, blunders] =
+      await Promise.all([
+        this.gameReportModel.countDocuments(filter).exec(),
+        this.aggregateAccuracyTrend(filter, query),
+        this.aggregateClassificationRates(filter, query),
+        this.aggregateOpenings(filter, query),
+        this.aggregateBlundersByPhase(filter),
+      ]);
+
+    return {
+      id: user._id.toString(),
+      username: user.username,
+      eloRating: user.eloRating,
+      linkedAccounts: user.linkedAccounts,
+      games,
+      accuracyTrend,
+      classificationRates,
+      openings,
+      blundersByPhase: blunders,
+    };
+  }
+
+  /**
+   * Precisión media de las partidas de cada periodo
+   */
+  async accuracyTrend(
+    userId: string,
+    query: ProfileQuery,
+  ): Promise<AccuracyTrendPoint[]> {
+    const user = await this.usersService.findOne(userId);
+    return this.aggregateAccuracyTrend(this.filter(user, query), query);
+  }
+
+  private async aggregateAccuracyTrend(
+    filter: ReportFilter,
+    query: ProfileQuery,
+  ): Promise<AccuracyTrendPoint[]> {
+    return this.gameReportModel
+      .aggregate<AccuracyTrendPoint>([
+        { $match: { ...filter, accuracy: { $ne: null } } },
+        {
+          $group: {
+            _id: this.period(query),
+            games: { $sum: 1 },
+            accuracy: { $avg: '$accuracy' },
+          },
+        },
+        { $sort: { _id: 1 } },
+        {
+          $project: {
+            _id: 0,
+            period: '$_id',
+            games: 1,
+            accuracy: { $round: ['$accuracy', 1] },
+          },
+        },
+      ])
+      .exec();
+  }
+
+  /**
+   * Porcentaje de jugadas de cada clasificación por periodo
+   */
+  async classificationRates(
+    userId: string,
+    query: ProfileQuery,
+  ): Promise<ClassificationRatesPoint[]> {
+    const user = await this.usersService.findOne(userId);
+    return this.aggregateClassificationRates(this.filter(user, query), query);
+  }
+
+  private async aggregateClassificationRates(
+    filter: ReportFilter,
+    query: ProfileQuery,
+  ): Promise<ClassificationRatesPoint[]> {
+    return this.gameReportModel
+      .aggregate<ClassificationRatesPoint>([
+        { $match: { ...filter, classifications: { $ne: null } } },
+        {
+          $project: {
+            period: this.period(query),
+            counts: { $objectToArray: '$classifications' },
+          },
+        },
+        { $unwind: '$counts' },
+        {
+          $group: {
+            _id: { period: '$period', classification: '$counts.k' },
+            count: { $sum: '$counts.v' },
+          },
+        },
+        {
+          $group: {
+            _id: '$_id.period',
+            moves: { $sum: '$count' },
+            counts: { $push: { k: '$_id.classification', v: '$count' } },
+          },
+        },
+        { $sort: { _id: 1 } },
+        {
+          $project: {
+            _id: 0,
+            period: '$_id',
+            moves: 1,
+            rates: {
+              $arrayToObject: {
+                $map: {
+                  input: '$counts',
+                  as: 'count',
+                  in: {
+                    k: '$$count.k',
+                    v: {
+                      $cond: [
+                        { $gt: ['$moves', 0] },
+                        {
+                          $round: [
+                            {
+                              $multiply: [
+                                { $divide: ['$$count.v', '$moves'] },
+                                100,
+                              ],
+                            },
+                            1,
+                          ],
+                        },
+                        0,
+                      ],
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+      ])
+      .exec();
+  }
+
+  /**
+   * Aperturas con mejor y peor puntuación; a igual puntuación decide la
+   * precisión
+   */
+  async openings(
+    userId: string,
+    query: ProfileQuery,
+  ): Promise<OpeningsProfile> {
+    const user = await this.usersService.findOne(userId);
+    return this.aggregateOpenings(this.filter(user, query), query);
+  }
+
+  private async aggregateOpenings(
+    filter: ReportFilter,
+    query: ProfileQuery,
+  ): Promise<OpeningsProfile> {
+    const limit = this.parseInteger(
+      query.limit,
+      DEFAULT_OPENINGS_LIMIT,
+      1,
+      MAX_OPENINGS_LIMIT,
+    );
+    const minGames = this.parseInteger(
+      query.minGames,
+      DEFAULT_MIN_GAMES,
+      1,
+      Number.MAX_SAFE_INTEGER,
+    );
+
+    const [result] = await this.gameReportModel
+      .aggregate<OpeningsProfile>([
+        { $match: { ...filter, opening: { $ne: null }, score: { $ne: null } } },
+        {
+          $group: {
+            _id: '$opening.name',
+            eco: { $first: '$opening.eco' },
+            games: { $sum: 1 },
+            score: { $avg: '$score' },
+            accuracy: { $avg: '$accuracy' },
+          },
+        },
+        { $match: { games: { $gte: minGames } } },
+        {
+          $project: {
+            _id: 0,
+            name: '$_id',
+            eco: 1,
+            games: 1,
+            score: { $round: ['$score', 2] },
+            accuracy: { $round: ['$accuracy', 1] },
+          },
+        },
+        {
+          $facet: {
+            strongest: [
+              { $sort: { score: -1, accuracy: -1, games: -1, name: 1 } },
+              { $limit: limit },
+            ],
+            weakest: [
+              { $sort: { score: 1, accuracy: 1, games: -1, name: 1 } },
+              { $limit: limit },
+            ],
+          },
+        },
+      ])
+      .exec();
+    return result ?? { strongest: [], weakest: [] };
+  }
+
+  /**
+   * Blunders por cada 100 jugadas y por partida en cada fase
+   */
+  async blundersByPhase(
+    userId: string,
+    query: ProfileQuery,
+  ): Promise<Record<GamePhase, PhaseBlunders>> {
+    const user = await this.usersService.findOne(userId);
+    return this.aggregateBlundersByPhase(this.filter(user, query));
+  }
+
+  private async aggregateBlundersByPhase(
+    filter: ReportFilter,
+  ): Promise<Record<GamePhase, PhaseBlunders>> {
+    const rows = await this.gameReportModel
+      .aggregate<PhaseBlunders & { phase: GamePhase }>([
+        { $match: { ...filter, phases: { $ne: null } } },
+        { $project: { phases: { $objectToArray: '$phases' } } },
+        { $unwind: '$phases' },
+        { $match: { 'phases.v.moves': { $gt: 0 } } },
+        {
+          $group: {
+            _id: '$phases.k',
+            games: { $sum: 1 },
+            moves: { $sum: '$phases.v.moves' },
+            blunders: { $sum: '$phases.v.blunders' },
+          },
+        },
+        {
+          $project: {
+            _id: 0,
+            phase: '$_id',
+            games: 1,
+            moves: 1,
+            blunders: 1,
+            blunderRate: {
+              $round: [
+                { $multiply: [{ $divide: ['$blunders', '$moves'] }, 100] },
+                1,
+              ],
+            },
+            blundersPerGame: {
+              $round: [{ $divide: ['$blunders', '$games'] }, 2],
+            },
+          },
+        },
+      ])
+      .exec();
+
+    // Una fase sin jugadas no sale del pipeline
+    return Object.fromEntries(
+      PHASES.map((phase) => {
+        const row = rows.find((candidate) => candidate.phase === phase);
+        const stats: PhaseBlunders = row
+          ? {
+              games: row.games,
+              moves: row.moves,
+              blunders: row.blunders,
+              blunderRate: row.blunderRate,
+              blundersPerGame: row.blundersPerGame,
+            }
+          : {
+              games: 0,
+              moves: 0,
+              blunders: 0,
+              blunderRate: null,
+              blundersPerGame: null,
+            };
+        return [phase, stats];
+      }),
+    ) as Record<GamePhase, PhaseBlunders>;
+  }
+
+  private async store(
+    user: UserDocument,
+    report: Report,
+    color: Color | null,
+  ): Promise<GameReportDocument> {
+    const link = report.metadata?.link ?? null;
+    const summary = {
+      user: user._id,
+      color,
+      playedAt: this.parseDate(report.metadata?.date) ?? new Date(),
+      link,
+      score: this.score(report.metadata?.result, color),
+      opening: report.opening?.opening
+        ? {
+            name: report.opening.opening.name,
+            eco: report.opening.opening.eco,
+          }
+        : null,
+      accuracy: color ? report.accuracies[color] : null,
+      classifications: color ? report.classifications[color] : null,
+      phases: color
+        ? (Object.fromEntries(
+            PHASES.map((phase) => {
+              const counts = report.phases[phase].classifications[color];
+              return [
+                phase,
+                {
+                  moves: Object.values(counts).reduce((a, b) => a + b, 0),
+                  blunders: counts.blunder,
+                },
+              ];
+            }),
+          ) as GameReport['phases'])
+        : null,
+      report,
+    };
+
+    if (!link) {
+      return this.gameReportModel.create(summary);
+    }
+    return this.gameReportModel
+      .findOneAndUpdate(
+        { user: user._id, link },
+        { $set: summary },
+        { upsert: true, new: true },
+      )
+      .exec();
+  }
+
+  private findColor(user: UserDocument, metadata: GameMetadata): Color | null {
+    const names = new Set(
+      (user.linkedAccounts ?? []).map((account) => account.username),
+    );
+    if (metadata?.white && names.has(metadata.white.toLowerCase())) {
+      return 'white';
+    }
+    if (metadata?.black && names.has(metadata.black.toLowerCase())) {
+      return 'black';
+    }
+    return null;
+  }
+
+  private score(
+    result: GameMetadata['result'] | undefined,
+    color: Color | null,
+  ): number | null {
+    if (!color) return null;
+    switch (result) {
+      case '1-0':
+        return color === 'white' ? 1 : 0;
+      case '0-1':
+        return color === 'black' ? 1 : 0;
+      case '1/2-1/2':
+        return 0.5;
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * Fecha del PGN ("2024.03.05"); null si falta alguna parte
+   */
+  private parseDate(date: string | null | undefined): Date | null {
+    const match = /^(\d{4})\.(\d{2})\.(\d{2})$/.exec(date ?? '');
+    if (!match) return null;
+    const parsed = new Date(
+      Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3])),
+    );
+    return isNaN(parsed.getTime()) ? null : parsed;
+  }
+
+  /**
+   * Partidas del usuario en [from, to]. Por defecto solo las que tienen
+   * color: sin él no hay nada que medir
+   */
+  private filter(
+    user: UserDocument,
+    query: ProfileQuery,
+    withColor = true,
+  ): ReportFilter {
+    const filter: ReportFilter = { user: user._id };
+    if (withColor) {
+      filter.color = { $ne: null };
+    }
+
+    const from = this.parseQueryDate(query?.from, 'from');
+    let to = this.parseQueryDate(query?.to, 'to');
+    // Una fecha sin hora incluye todo ese día
+    if (to && /^\d{4}-\d{2}-\d{2}$/.test(query.to)) {
+      to = new Date(to.getTime() + 24 * 60 * 60 * 1000);
+    }
+    if (from || to) {
+      filter.playedAt = {
+        ...(from ? { $gte: from } : {}),
+        ...(to ? { $lt: to } : {}),
+      };
+    }
+    return filter;
+  }
+
+  private period(query: ProfileQuery): Record<string, unknown> {
+    const interval = (query?.interval ?? 'month') as TrendInterval;
+    // Solo claves propias: "constructor" no es un intervalo
+    if (!Object.prototype.hasOwnProperty.call(INTERVAL_FORMATS, interval)) {
+      throw new BadRequestException(
+        `Intervalo desconocido. Usa uno de: ${Object.keys(INTERVAL_FORMATS).join(', ')}.`,
+      );
+    }
+    return {
+      $dateToString: { format: INTERVAL_FORMATS[interval], date: '$playedAt' },
+    };
+  }
+
+  private parseQueryDate(value: string | undefined, name: string): Date | null {
+    if (!value) return null;
+    const date = new Date(value);
+    if (isNaN(date.getTime())) {
+      throw new BadRequestException(`Fecha inválida en ${name}.`);
+    }
+    return date;
+  }
+
+  private parseInteger(
+    value: string | undefined,
+    fallback: number,
+    min: number,
+    max: number,
+  ): number {
+    if (value === undefined) return fallback;
+    const parsed = parseInt(value, 10);
+    if (!Number.isInteger(parsed) || parsed < min || parsed > max) {
+      throw new BadRequestException(
+        `Valor inválido "${value}": debe estar entre ${min} y ${max}.`,
+      );
+    }
+    return parsed;
+  }
+}
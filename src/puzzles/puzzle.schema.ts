@@ -0,0 +1,37 @@
+import { Schema, Prop, SchemaFactory } from '@nestjs/mongoose';
+import { HydratedDocument, Schema as MongooseSchema } from 'mongoose';
+import { PuzzleSource, PuzzleTheme } from '../interfaces/puzzle.interfaces';
+
+export type PuzzleDocument = HydratedDocument<Puzzle>;
+
+@Schema({ timestamps: true })
+export class Puzzle {
+  // Posición tras el error del rival; la misma posición no se guarda dos veces
+  @Prop({ required: true, unique: true })
+  fen: string;
+
+  // Jugadas en UCI alternando quien resuelve y el rival; termina en quien resuelve
+  @Prop({ type: [String], required: true })
+  solution: string[];
+
+  @Prop({ type: [String], required: true })
+  solutionSAN: string[];
+
+  @Prop({ type: [String], default: [], index: true })
+  themes: PuzzleTheme[];
+
+  @Prop({ required: true, index: true })
+  rating: number;
+
+  @Prop({ type: MongooseSchema.Types.Mixed, required: true })
+  source: PuzzleSource;
+
+  // Intentos terminados (resueltos o fallados) y cuántos se resolvieron
+  @Prop({ default: 0 })
+  attempts: number;
+
+  @Prop({ default: 0 })
+  solved: number;
+}
+
+export const PuzzleSchema = SchemaFactory.createForClass(Puzzle);
@@ -0,0 +1,23 @@
+import { Body, Controller, Get, Param, Post, Query } from '@nestjs/common';
+import { NextPuzzleQuery, PuzzlesService } from './puzzles.service';
+
+@Controller('puzzles')
+export class PuzzlesController {
+  constructor(private readonly puzzlesService: PuzzlesService) {}
+
+  /**
+   * ?rating=1500&theme=fork&exclude=id1,id2 (todos opcionales)
+   */
+  @Get('next')
+  async next(@Query() query: NextPuzzleQuery) {
+    return await this.puzzlesService.next(query);
+  }
+
+  /**
+   * moves: las jugadas de quien resuelve hasta ahora, desde el principio
+   */
+  @Post(':id/attempt')
+  async attempt(@Param('id') id: string, @Body() body: { moves: string[] }) {
+    return await this.puzzlesService.attempt(id, body?.moves);
+  }
+}
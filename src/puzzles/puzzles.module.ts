@@ -0,0 +1,17 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { EngineModule } from '../engine/engine.module';
+import { Puzzle, PuzzleSchema } from './puzzle.schema';
+import { PuzzlesService } from './puzzles.service';
+import { PuzzlesController } from './puzzles.controller';
+
+@Module({
+  imports: [
+    EngineModule,
+    MongooseModule.forFeature([{ name: Puzzle.name, schema: PuzzleSchema }]),
+  ],
+  controllers: [PuzzlesController],
+  providers: [PuzzlesService],
+  exports: [PuzzlesService],
+})
+export class PuzzlesModule {}
@@ -0,0 +1,299 @@
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { Types } from 'mongoose';
+import { PuzzlesService } from './puzzles.service';
+import { Puzzle } from './puzzle.schema';
+import { EngineService } from '../engine/engine.service';
+import {
+  EvaluatedPosition,
+  Evaluation,
+  GameMetadata,
+} from '../interfaces/analysis.interfaces';
+import { EngineLine } from '../interfaces/engine.interfaces';
+
+const exec = <T>(value: T) => ({ exec: jest.fn().mockResolvedValue(value) });
+
+const line = (evaluation: Evaluation, pv: string[]): EngineLine => ({
+  id: 1,
+  depth: 18,
+  evaluation,
+  moveUCI: pv[0],
+  pv,
+  pvSAN: [],
+});
+
+// Las negras acaban de jugar ...Kd8-e8?? y el caballo blanco da horquilla en c7
+const FORK_FEN = 'r3k3/8/8/3N4/8/8/8/4K3 w - - 0 1';
+// Tras 1. e4 e5 2. Bc4 Nc6 3. Qh5 Nf6??: Qxf7 es mate
+const MATE_FEN =
+  'r1bqkb1r/pppp1ppp/2n2n2/4p2Q/2B1P3/8/PPPP1PPP/RNB1K1NR w KQkq - 4 4';
+
+const metadata = {
+  white: 'Alice',
+  black: 'Bob',
+  link: 'https://example.com/game/1',
+  site: null,
+} as GameMetadata;
+
+const blunder = (
+  fen: string,
+  extra: Partial<EvaluatedPosition> = {},
+): EvaluatedPosition => ({
+  fen,
+  move: { san: 'Ke8', uci: 'd8e8' },
+  evaluation: { type: 'cp', value: 0 },
+  classification: 'blunder',
+  suggestedMove: { san: '', uci: '' },
+  phase: 'endgame',
+  ...extra,
+});
+
+describe('PuzzlesService', () => {
+  let service: PuzzlesService;
+  let puzzleModel: Record<string, jest.Mock>;
+  let engineService: { evaluatePosition: jest.Mock };
+
+  beforeEach(async () => {
+    puzzleModel = {
+      updateOne: jest.fn().mockReturnValue(exec({ upsertedCount: 1 })),
+      findById: jest.fn(),
+      aggregate: jest.fn(),
+    };
+    engineService = { evaluatePosition: jest.fn() };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PuzzlesService,
+        { provide: getModelToken(Puzzle.name), useValue: puzzleModel },
+        { provide: EngineService, useValue: engineService },
+      ],
+    }).compile();
+
+    service = module.get<PuzzlesService>(PuzzlesService);
+  });
+
+  describe('buildPuzzle', () => {
+    it('follows the engine line while every solver move is unique', async () => {
+      engineService.evaluatePosition
+        .mockResolvedValueOnce([
+          line({ type: 'cp', value: 600 }, ['d5c7', 'e8d7', 'c7a8']),
+          line({ type: 'cp', value: 0 }, ['e1e2']),
+        ])
+        .mockResolvedValueOnce([
+          line({ type: 'cp', value: 650 }, ['c7a8']),
+          line({ type: 'cp', value: 100 }, ['c7b5']),
+        ]);
+
+      const puzzle = await service.buildPuzzle(
+        blunder(FORK_FEN),
+        9,
+        metadata,
+        16,
+      );
+
+      expect(puzzle).toMatchObject({
+        fen: FORK_FEN,
+        solution: ['d5c7', 'e8d7', 'c7a8'],
+        solutionSAN: ['Nc7+', 'Kd7', 'Nxa8'],
+        rating: 1250,
+        source: {
+          ply: 9,
+          classification: 'blunder',
+          white: 'Alice',
+          link: 'https://example.com/game/1',
+        },
+      });
+      expect(puzzle!.themes).toEqual(
+        expect.arrayContaining(['fork', 'short', 'crushing', 'endgame']),
+      );
+      expect(engineService.evaluatePosition).toHaveBeenCalledTimes(2);
+    });
+
+    it('ends the solution at the last unique solver move', async () => {
+      engineService.evaluatePosition
+        .mockResolvedValueOnce([
+          line({ type: 'cp', value: 600 }, ['d5c7', 'e8d7', 'c7a8']),
+          line({ type: 'cp', value: 0 }, ['e1e2']),
+        ])
+        // Dos jugadas casi iguales: la segunda jugada ya no es única
+        .mockResolvedValueOnce([
+          line({ type: 'cp', value: 650 }, ['c7a8']),
+          line({ type: 'cp', value: 620 }, ['c7a6']),
+        ]);
+
+      const puzzle = await service.buildPuzzle(
+        blunder(FORK_FEN),
+        9,
+        metadata,
+        16,
+      );
+
+      expect(puzzle!.solution).toEqual(['d5c7']);
+      expect(puzzle!.themes).toContain('oneMove');
+    });
+
+    it('tags mates and rejects positions with two winning moves', async () => {
+      engineService.evaluatePosition.mockResolvedValueOnce([
+        line({ type: 'mate', value: 1 }, ['h5f7']),
+        line({ type: 'cp', value: 80 }, ['d2d3']),
+      ]);
+      const mate = await service.buildPuzzle(
+        blunder(MATE_FEN),
+        5,
+        metadata,
+        16,
+      );
+      expect(mate!.solutionSAN).toEqual(['Qxf7#']);
+      expect(mate!.themes).toEqual(
+        expect.arrayContaining(['mate', 'mateIn1', 'oneMove']),
+      );
+      expect(mate!.rating).toBe(800);
+
+      engineService.evaluatePosition.mockResolvedValueOnce([
+        line({ type: 'mate', value: 1 }, ['h5f7']),
+        line({ type: 'mate', value: 2 }, ['c4f7']),
+      ]);
+      expect(
+        await service.buildPuzzle(blunder(MATE_FEN), 5, metadata, 16),
+      ).toBeNull();
+    });
+  });
+
+  describe('collectFromGame', () => {
+    it('stores new puzzles from blunders and mistakes the opponent can punish', async () => {
+      engineService.evaluatePosition.mockResolvedValue([
+        line({ type: 'mate', value: 1 }, ['h5f7']),
+        line({ type: 'cp', value: 80 }, ['d2d3']),
+      ]);
+      const positions = [
+        blunder(FORK_FEN, { classification: 'good' }),
+        // Tras el error el rival sigue sin ventaja clara: no hay puzzle
+        blunder(FORK_FEN, {
+          classification: 'mistake',
+          playedLine: line({ type: 'cp', value: -50 }, ['d8e8']),
+        }),
+        blunder(MATE_FEN),
+      ];
+
+      expect(await service.collectFromGame(positions, metadata, 16)).toBe(1);
+      expect(engineService.evaluatePosition).toHaveBeenCalledTimes(1);
+      expect(puzzleModel.updateOne).toHaveBeenCalledWith(
+        { fen: MATE_FEN },
+        { $setOnInsert: expect.objectContaining({ solution: ['h5f7'] }) },
+        { upsert: true },
+      );
+    });
+
+    it('never rejects when the engine fails', async () => {
+      engineService.evaluatePosition.mockRejectedValue(new Error('crash'));
+      jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+      await expect(
+        service.collectFromGame([blunder(MATE_FEN)], metadata, 16),
+      ).resolves.toBe(0);
+    });
+  });
+
+  describe('next', () => {
+    it('returns a random puzzle near the rating without its solution', async () => {
+      const _id = new Types.ObjectId();
+      puzzleModel.aggregate.mockReturnValue(
+        exec([
+          {
+            _id,
+            fen: FORK_FEN,
+            solution: ['d5c7', 'e8d7', 'c7a8'],
+            solutionSAN: ['Nc7+', 'Kd7', 'Nxa8'],
+            themes: ['fork'],
+            rating: 1250,
+            source: { move: { san: 'Ke8', uci: 'd8e8' } },
+          },
+        ]),
+      );
+
+      const puzzle = await service.next({ rating: '1400', theme: 'fork' });
+
+      expect(puzzleModel.aggregate).toHaveBeenCalledWith([
+        {
+          $match: { rating: { $gte: 1100, $lte: 1700 }, themes: 'fork' },
+        },
+        { $sample: { size: 1 } },
+      ]);
+      expect(puzzle).toEqual({
+        id: _id.toString(),
+        fen: FORK_FEN,
+        lastMove: { san: 'Ke8', uci: 'd8e8' },
+        color: 'white',
+        moves: 2,
+        themes: ['fork'],
+        rating: 1250,
+      });
+    });
+
+    it('throws NotFound when no puzzle matches', async () => {
+      puzzleModel.aggregate.mockReturnValue(exec([]));
+      await expect(service.next({ theme: 'mateIn4' })).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+  });
+
+  describe('attempt', () => {
+    const id = new Types.ObjectId().toString();
+
+    beforeEach(() => {
+      puzzleModel.findById.mockReturnValue(
+        exec({
+          _id: id,
+          fen: FORK_FEN,
+          solution: ['d5c7', 'e8d7', 'c7a8'],
+          solutionSAN: ['Nc7+', 'Kd7', 'Nxa8'],
+        }),
+      );
+    });
+
+    it('answers a correct move with the opponent reply', async () => {
+      expect(await service.attempt(id, ['Nc7+'])).toEqual({
+        correct: true,
+        solved: false,
+        reply: { san: 'Kd7', uci: 'e8d7' },
+      });
+      expect(puzzleModel.updateOne).not.toHaveBeenCalled();
+    });
+
+    it('counts solved and failed attempts and reveals the solution', async () => {
+      expect(await service.attempt(id, ['d5c7', 'c7a8'])).toEqual({
+        correct: true,
+        solved: true,
+        reply: null,
+        solution: ['Nc7+', 'Kd7', 'Nxa8'],
+      });
+      expect(puzzleModel.updateOne).toHaveBeenLastCalledWith(
+        { _id: id },
+        { $inc: { attempts: 1, solved: 1 } },
+      );
+
+      expect(await service.attempt(id, ['Nf6+'])).toMatchObject({
+        correct: false,
+        solved: false,
+      });
+      expect(puzzleModel.updateOne).toHaveBeenLastCalledWith(
+        { _id: id },
+        { $inc: { attempts: 1, solved: 0 } },
+      );
+    });
+
+    it('rejects illegal moves and malformed attempts', async () => {
+      await expect(service.attempt(id, ['Qd1'])).rejects.toThrow(
+        BadRequestException,
+      );
+      await expect(service.attempt(id, [])).rejects.toThrow(
+        BadRequestException,
+      );
+      await expect(
+        service.attempt(id, ['d5c7', 'c7a8', 'a8b6']),
+      ).rejects.toThrow(BadRequestException);
+    });
+  });
+});
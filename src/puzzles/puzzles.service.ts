@@ -0,0 +1,422 @@
+import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Chess, Move, PieceSymbol, Square } from 'chess.js';
+import { isValidObjectId, Model, Types } from 'mongoose';
+import { Puzzle, PuzzleDocument } from './puzzle.schema';
+import { EngineService } from '../engine/engine.service';
+import { EvaluationUtils } from '../chess/evaluation.util';
+import { ExchangeUtils } from '../chess/exchange.util';
+import {
+  EvaluatedPosition,
+  GameMetadata,
+} from '../interfaces/analysis.interfaces';
+import { EngineLine } from '../interfaces/engine.interfaces';
+import {
+  PublicPuzzle,
+  PuzzleAttemptResult,
+  PuzzleTheme,
+} from '../interfaces/puzzle.interfaces';
+
+// Tras el error, quien resuelve tiene que quedar claramente mejor
+const MIN_SOLVER_SCORE = 0.7;
+// Diferencia mínima de puntuación esperada entre la 1ª y la 2ª línea (MultiPV)
+// para que la jugada sea única
+const MIN_UNIQUENESS_GAP = 0.25;
+// Jugadas de quien resuelve, como mucho
+const MAX_SOLVER_MOVES = 4;
+// Ventaja final, en centipawns, a partir de la que el tema es 'crushing'
+const CRUSHING_CP = 500;
+
+const DEFAULT_RATING = 1000;
+const MIN_RATING = 600;
+const MAX_RATING = 2800;
+// Margen alrededor del rating pedido en GET /puzzles/next
+const RATING_WINDOW = 300;
+
+const PUZZLE_CLASSIFICATIONS = ['blunder', 'mistake'];
+
+const PIECE_VALUES: Record<PieceSymbol, number> = {
+  p: 1,
+  n: 3,
+  b: 3,
+  r: 5,
+  q: 9,
+  k: 0,
+};
+
+export interface NextPuzzleQuery {
+  rating?: string;
+  theme?: string;
+  exclude?: string; // Ids separados por comas, p. ej. los ya resueltos.
+}
+
+/**
+ * Puzzles de táctica a partir de los errores encontrados en el análisis:
+ * la posición tras un blunder o mistake es un puzzle para el rival.
+ */
+@Injectable()
+export class PuzzlesService {
+  constructor(
+    @InjectModel(Puzzle.name)
+    private readonly puzzleModel: Model<PuzzleDocument>,
+    private readonly engineService: EngineService,
+  ) {}
+
+  /**
+   * Extrae y guarda los puzzles de una partida analizada. Devuelve cuántos son
+   * nuevos; una posición ya guardada no se duplica. Nunca rechaza: un fallo
+   * en una jugada solo se registra.
+   */
+  async collectFromGame(
+    positions: EvaluatedPosition[],
+    metadata: GameMetadata,
+    depth: number,
+  ): Promise<number> {
+    let stored = 0;
+    // Una jugada cada vez: las búsquedas comparten el pool con los análisis
+    for (const [ply, position] of positions.entries()) {
+      if (!PUZZLE_CLASSIFICATIONS.includes(position.classification)) continue;
+      try {
+        const puzzle = await this.buildPuzzle(position, ply, metadata, depth);
+        if (!puzzle) continue;
+        const { upsertedCount } = await this.puzzleModel
+          .updateOne(
+            { fen: puzzle.fen },
+            { $setOnInsert: puzzle },
+            { upsert: true },
+          )
+          .exec();
+        stored += upsertedCount;
+      } catch (error) {
+        console.warn(
+          `⚠️ Puzzle extraction failed at ply ${ply + 1}: ${error.message}`,
+        );
+      }
+    }
+    return stored;
+  }
+
+  /**
+   * Sigue la línea del motor desde la posición tras el error. Cada jugada de
+   * quien resuelve tiene que ser única (la 2ª línea MultiPV queda a más de
+   * MIN_UNIQUENESS_GAP) y mantener la ventaja; el rival responde con la
+   * continuación de la línea. null si la primera jugada ya no cumple.
+   */
+  async buildPuzzle(
+    position: EvaluatedPosition,
+    ply: number,
+    metadata: GameMetadata,
+    depth: number,
+  ): Promise<Puzzle | null> {
+    // Atajo: la línea jugada ya dice si el error deja ganando al rival
+    if (
+      position.playedLine &&
+      1 -
+        EvaluationUtils.getExpectedScore(
+          position.playedLine.evaluation,
+          position.playedLine.wdl,
+        ) <
+        MIN_SOLVER_SCORE
+    ) {
+      return null;
+    }
+
+    const chess = new Chess(position.fen);
+    const moves: Move[] = [];
+    let lastLine: EngineLine | undefined;
+
+    while (!chess.isGameOver()) {
+      const [best, second] = await this.engineService.evaluatePosition(
+        chess.fen(),
+        depth,
+      );
+      if (!best?.moveUCI) break;
+
+      const bestScore = EvaluationUtils.getExpectedScore(
+        best.evaluation,
+        best.wdl,
+      );
+      // Con una sola jugada legal no hay nada que encontrar al empezar
+      const isUnique = second
+        ? bestScore -
+            EvaluationUtils.getExpectedScore(second.evaluation, second.wdl) >=
+          MIN_UNIQUENESS_GAP
+        : moves.length > 0;
+      if (bestScore < MIN_SOLVER_SCORE || !isUnique) break;
+
+      moves.push(chess.move(this.toMove(best.moveUCI)));
+      lastLine = best;
+      if (chess.isGameOver() || moves.length === MAX_SOLVER_MOVES * 2 - 1) {
+        break;
+      }
+
+      const reply = best.pv[1];
+      if (!reply) break;
+      moves.push(chess.move(this.toMove(reply)));
+    }
+
+    // La solución termina siempre con una jugada de quien resuelve
+    if (moves.length % 2 === 0) moves.pop();
+    if (moves.length === 0 || !lastLine) return null;
+
+    const themes = this.detectThemes(position, moves, lastLine);
+    return {
+      fen: position.fen,
+      solution: moves.map((move) => move.lan),
+      solutionSAN: moves.map((move) => move.san),
+      themes,
+      rating: this.rate(moves, themes),
+      source: {
+        ply,
+        move: position.move,
+        classification: position.classification as 'blunder' | 'mistake',
+        white: metadata.white,
+        black: metadata.black,
+        link: metadata.link ?? metadata.site,
+      },
+      attempts: 0,
+      solved: 0,
+    };
+  }
+
+  /**
+   * Un puzzle al azar, cerca del rating pedido (±RATING_WINDOW) y con el tema
+   * indicado. Sin la solución.
+   */
+  async next(query: NextPuzzleQuery = {}): Promise<PublicPuzzle> {
+    const match: Record<string, unknown> = {};
+    if (query.rating) {
+      const rating = parseInt(query.rating, 10);
+      if (!Number.isInteger(rating)) {
+        throw new BadRequestException('rating debe ser un número entero.');
+      }
+      match.rating = {
+        $gte: rating - RATING_WINDOW,
+        $lte: rating + RATING_WINDOW,
+      };
+    }
+    if (query.theme) match.themes = query.theme;
+    if (query.exclude) {
+      match._id = {
+        $nin: query.exclude
+          .split(',')
+          .map((id) => id.trim())
+          .filter((id) => isValidObjectId(id))
+          .map((id) => new Types.ObjectId(id)),
+      };
+    }
+
+    const [puzzle] = await this.puzzleModel
+      .aggregate<
+        Puzzle & { _id: Types.ObjectId }
+      >([{ $match: match }, { $sample: { size: 1 } }])
+      .exec();
+    if (!puzzle) {
+      throw new NotFoundException('No hay puzzles con esos filtros.');
+    }
+    return this.toPublic(puzzle);
+  }
+
+  async findOne(id: string): Promise<PuzzleDocument> {
+    const puzzle = isValidObjectId(id)
+      ? await this.puzzleModel.findById(id).exec()
+      : null;
+    if (!puzzle) {
+      throw new NotFoundException('No existe el puzzle.');
+    }
+    return puzzle;
+  }
+
+  /**
+   * Comprueba las jugadas de quien resuelve (UCI o SAN), desde el principio
+   * del puzzle. Mientras acierte devuelve la respuesta del rival; cualquier
+   * jugada que dé mate también vale. Al resolverlo o fallar se cuenta el
+   * intento y se muestra la solución.
+   */
+  async attempt(id: string, moves: unknown): Promise<PuzzleAttemptResult> {
+    if (
+      !Array.isArray(moves) ||
+      moves.length === 0 ||
+      !moves.every((move) => typeof move === 'string')
+    ) {
+      throw new BadRequestException(
+        'moves debe ser una lista de jugadas en UCI o SAN.',
+      );
+    }
+    const puzzle = await this.findOne(id);
+    const solverMoves = Math.ceil(puzzle.solution.length / 2);
+    if (moves.length > solverMoves) {
+      throw new BadRequestException(
+        `El puzzle se resuelve en ${solverMoves} jugada(s).`,
+      );
+    }
+
+    const chess = new Chess(puzzle.fen);
+    for (const [index, input] of (moves as string[]).entries()) {
+      const played = this.playMove(chess, input);
+      if (chess.isCheckmate()) return this.finish(puzzle, true);
+      if (played.lan !== puzzle.solution[index * 2]) {
+        return this.finish(puzzle, false);
+      }
+
+      const replyUci = puzzle.solution[index * 2 + 1];
+      if (!replyUci) return this.finish(puzzle, true);
+      const reply = chess.move(this.toMove(replyUci));
+      if (index === moves.length - 1) {
+        return {
+          correct: true,
+          solved: false,
+          reply: { san: reply.san, uci: replyUci },
+        };
+      }
+    }
+    // Inalcanzable: la última jugada enviada siempre devuelve arriba
+    throw new BadRequestException('Intento inválido.');
+  }
+
+  private async finish(
+    puzzle: PuzzleDocument,
+    solved: boolean,
+  ): Promise<PuzzleAttemptResult> {
+    await this.puzzleModel
+      .updateOne(
+        { _id: puzzle._id },
+        { $inc: { attempts: 1, solved: solved ? 1 : 0 } },
+      )
+      .exec();
+    return {
+      correct: solved,
+      solved,
+      reply: null,
+      solution: puzzle.solutionSAN,
+    };
+  }
+
+  private playMove(chess: Chess, input: string): Move {
+    const uci = input.trim();
+    try {
+      return /^[a-h][1-8][a-h][1-8][qrbn]?$/.test(uci)
+        ? chess.move(this.toMove(uci))
+        : chess.move(uci);
+    } catch {
+      throw new BadRequestException(`Jugada ilegal: ${input}`);
+    }
+  }
+
+  private toMove(uci: string) {
+    return { from: uci.slice(0, 2), to: uci.slice(2, 4), promotion: uci[4] };
+  }
+
+  private detectThemes(
+    position: EvaluatedPosition,
+    moves: Move[],
+    lastLine: EngineLine,
+  ): PuzzleTheme[] {
+    const themes: PuzzleTheme[] = [];
+    const solverMoves = moves.filter((_, index) => index % 2 === 0);
+    const [first] = solverMoves;
+
+    if (new Chess(moves[moves.length - 1].after).isCheckmate()) {
+      themes.push('mate');
+      if (solverMoves.length <= 4) {
+        themes.push(`mateIn${solverMoves.length}` as PuzzleTheme);
+      }
+    } else {
+      // Evaluación antes de la última jugada, desde quien resuelve
+      const { type, value } = lastLine.evaluation;
+      themes.push(
+        type === 'mate' || value >= CRUSHING_CP ? 'crushing' : 'advantage',
+      );
+    }
+
+    themes.push(
+      solverMoves.length === 1
+        ? 'oneMove'
+        : solverMoves.length === 2
+          ? 'short'
+          : 'long',
+    );
+
+    if (this.isFork(first)) themes.push('fork');
+    // Captura que el rival no puede devolver
+    if (
+      first.captured &&
+      new Chess(first.after).attackers(
+        first.to,
+        first.color === 'w' ? 'b' : 'w',
+      ).length === 0
+    ) {
+      themes.push('hangingPiece');
+    }
+    if (
+      ExchangeUtils.analyzeSacrifice(
+        position.fen,
+        moves.map((move) => move.lan),
+      ).reason !== 'none'
+    ) {
+      themes.push('sacrifice');
+    }
+    if (solverMoves.some((move) => move.promotion)) themes.push('promotion');
+    if (!first.captured && !first.promotion && !/[+#]/.test(first.san)) {
+      themes.push('quietMove');
+    }
+    if (position.phase) themes.push(position.phase);
+    return themes;
+  }
+
+  /**
+   * Horquilla: la pieza que mueve ataca a dos o más piezas rivales que valen
+   * más que ella o están sin defender (el rey cuenta siempre).
+   */
+  private isFork(move: Move): boolean {
+    const chess = new Chess(move.after);
+    const opponent = move.color === 'w' ? 'b' : 'w';
+    const targets = chess
+      .board()
+      .flat()
+      .filter(
+        (
+          piece,
+        ): piece is { square: Square; type: PieceSymbol; color: 'w' | 'b' } =>
+          piece !== null && piece.color === opponent,
+      )
+      .filter(
+        (piece) =>
+          chess.attackers(piece.square, move.color).includes(move.to) &&
+          (piece.type === 'k' ||
+            PIECE_VALUES[piece.type] > PIECE_VALUES[move.piece] ||
+            chess.attackers(piece.square, opponent).length === 0),
+      );
+    return targets.length >= 2;
+  }
+
+  /**
+   * Dificultad estimada, en la escala de rating de Lichess: más jugadas, una
+   * primera jugada tranquila o un sacrificio lo hacen más difícil.
+   */
+  private rate(moves: Move[], themes: PuzzleTheme[]): number {
+    const solverMoves = Math.ceil(moves.length / 2);
+    let rating = DEFAULT_RATING + 250 * (solverMoves - 1);
+    if (themes.includes('quietMove')) rating += 300;
+    if (themes.includes('sacrifice')) rating += 300;
+    if (themes.includes('mateIn1')) rating -= 200;
+    rating = Math.round(rating / 10) * 10;
+    return Math.min(MAX_RATING, Math.max(MIN_RATING, rating));
+  }
+
+  private toPublic(puzzle: Puzzle & { _id: Types.ObjectId }): PublicPuzzle {
+    return {
+      id: puzzle._id.toString(),
+      fen: puzzle.fen,
+      lastMove: puzzle.source.move,
+      color: puzzle.fen.split(' ')[1] === 'w' ? 'white' : 'black',
+      moves: Math.ceil(puzzle.solution.length / 2),
+      themes: puzzle.themes,
+      rating: puzzle.rating,
+    };
+  }
+}
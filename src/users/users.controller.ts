@@ -1,18 +1,55 @@
-import { Controller, Get, Post, Body } from '@nestjs/common';
+import { Controller, Get, Post, Delete, Body, Param, UseGuards } from '@nestjs/common';
 import { UsersService } from './users.service';
 import { User } from './users.schema';
+import { LinkedAccount } from '../interfaces/profile.interfaces';
+import { Auth } from '../auth/auth.decorators';
+import { AuthGuard } from '../auth/auth.guard';
+import { SelfOrAdminGuard } from '../auth/self-or-admin.guard';
 
 @Controller('users')
 export class UsersController {
   constructor(private readonly usersService: UsersService) {}
 
   @Get()
+  @Auth('admin')
   async getAllUsers(): Promise<User[]> {
     return this.usersService.findAll();
   }
   
+  /**
+   * Alta por un admin, que puede dar roles; el resto usa POST /auth/register
+   */
   @Post()
+  @Auth('admin')
   async createUser(@Body() user: Partial<User>): Promise<User> {
     return this.usersService.create(user);
     }
+
+  @Get(':id')
+  @UseGuards(AuthGuard, SelfOrAdminGuard)
+  async getUser(@Param('id') id: string): Promise<User> {
+    return this.usersService.findOne(id);
+  }
+
+  /**
+   * Body: { source: 'chesscom' | 'lichess', username }
+   */
+  @Post(':id/accounts')
+  @UseGuards(AuthGuard, SelfOrAdminGuard)
+  async linkAccount(
+    @Param('id') id: string,
+    @Body() account: Partial<LinkedAccount>,
+  ): Promise<User> {
+    return this.usersService.linkAccount(id, account);
+  }
+
+  @Delete(':id/accounts/:source/:username')
+  @UseGuards(AuthGuard, SelfOrAdminGuard)
+  async unlinkAccount(
+    @Param('id') id: string,
+    @Param('source') source: string,
+    @Param('username') username: string,
+  ): Promise<User> {
+    return this.usersService.unlinkAccount(id, source, username);
+  }
 }
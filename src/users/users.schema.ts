@@ -1,14 +1,24 @@
 import { Schema, Prop, SchemaFactory } from '@nestjs/mongoose';
 import { HydratedDocument } from 'mongoose';
+import { LinkedAccount } from '../interfaces/profile.interfaces';
 
 export type UserDocument = HydratedDocument<User>;
 
-@Schema()
+// El hash de la contraseña nunca sale en una respuesta
+@Schema({
+  toJSON: {
+    transform: (_doc, user: Record<string, unknown>) => {
+      delete user.password;
+      return user;
+    },
+  },
+})
 export class User {
   @Prop({ required: true, unique: true })
   username: string;
 
-  @Prop({ required: true })
+  // Hash scrypt (PasswordUtils); solo se lee con select('+password')
+  @Prop({ required: true, select: false })
   password: string;
 
   @Prop({ type: [String], default: [] })
@@ -16,6 +26,22 @@ export class User {
 
   @Prop({ default: 0 })
   eloRating: number;
+
+  // Cuentas de chess.com / Lichess de la persona; username en minúsculas
+  @Prop({
+    type: [{ _id: false, source: String, username: String }],
+    default: [],
+  })
+  linkedAccounts: LinkedAccount[];
 }
 
 export const UserSchema = SchemaFactory.createForClass(User);
+
+// Una cuenta de chess.com o Lichess pertenece como mucho a un usuario
+UserSchema.index(
+  { 'linkedAccounts.source': 1, 'linkedAccounts.username': 1 },
+  {
+    unique: true,
+    partialFilterExpression: { 'linkedAccounts.0': { $exists: true } },
+  },
+);
@@ -1,12 +1,48 @@
 import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { BadRequestException, ConflictException } from '@nestjs/common';
+import { Types } from 'mongoose';
 import { UsersService } from './users.service';
+import { User } from './users.schema';
+import { PasswordUtils } from '../auth/password.util';
+
+const exec = <T>(value: T) => ({ exec: jest.fn().mockResolvedValue(value) });
 
 describe('UsersService', () => {
   let service: UsersService;
+  let userModel: jest.Mock &
+    Record<
+      | 'exists'
+      | 'find'
+      | 'findById'
+      | 'findOne'
+      | 'findByIdAndUpdate'
+      | 'updateMany',
+      jest.Mock
+    >;
+  const id = new Types.ObjectId().toString();
 
   beforeEach(async () => {
+    // new userModel(data).save() devuelve el propio documento
+    userModel = Object.assign(
+      jest.fn(function (this: Record<string, unknown>, data) {
+        Object.assign(this, data, { save: async () => this });
+      }),
+      {
+        exists: jest.fn(() => exec(null)),
+        find: jest.fn(() => ({ select: () => exec([]) })),
+        findById: jest.fn(() => exec({ _id: id })),
+        findOne: jest.fn(() => exec(null)),
+        findByIdAndUpdate: jest.fn(() => exec({ _id: id })),
+        updateMany: jest.fn(() => exec({ modifiedCount: 1 })),
+      },
+    );
+
     const module: TestingModule = await Test.createTestingModule({
-      providers: [UsersService],
+      providers: [
+        UsersService,
+        { provide: getModelToken(User.name), useValue: userModel },
+      ],
     }).compile();
 
     service = module.get<UsersService>(UsersService);
@@ -15,4 +51,65 @@ describe('UsersService', () => {
   it('should be defined', () => {
     expect(service).toBeDefined();
   });
+
+  it('never stores the password in plain text', async () => {
+    const user = await service.create({
+      username: ' ana ',
+      password: 'long enough',
+    });
+
+    expect(user).toMatchObject({ username: 'ana', roles: ['user'] });
+    expect(user.password).not.toBe('long enough');
+    expect(await PasswordUtils.verify('long enough', user.password)).toBe(true);
+
+    await expect(
+      service.create({ username: 'bob', password: 'short' }),
+    ).rejects.toThrow(BadRequestException);
+    userModel.exists.mockReturnValue(exec({ _id: id }));
+    await expect(
+      service.create({ username: 'ana', password: 'long enough' }),
+    ).rejects.toThrow(ConflictException);
+  });
+
+  it('links a normalized account once', async () => {
+    await service.linkAccount(id, { source: 'chesscom', username: ' Hikaru ' });
+
+    expect(userModel.findByIdAndUpdate).toHaveBeenCalledWith(
+      id,
+      {
+        $addToSet: {
+          linkedAccounts: { source: 'chesscom', username: 'hikaru' },
+        },
+      },
+      { new: true },
+    );
+  });
+
+  it('rejects accounts linked to another user or from unknown sources', async () => {
+    userModel.findOne.mockReturnValue(exec({ _id: new Types.ObjectId() }));
+    await expect(
+      service.linkAccount(id, { source: 'lichess', username: 'DrNykterstein' }),
+    ).rejects.toThrow(ConflictException);
+
+    await expect(
+      service.linkAccount(id, { source: 'fics' as never, username: 'x' }),
+    ).rejects.toThrow(BadRequestException);
+    expect(userModel.findByIdAndUpdate).not.toHaveBeenCalled();
+  });
+
+  it('grants a role only to users with the exact names', async () => {
+    const root = { _id: new Types.ObjectId(), username: 'Root' };
+    userModel.find.mockReturnValue({ select: () => exec([root]) });
+
+    expect(await service.grantRole(['Root', 'boss'], 'admin')).toEqual([
+      'Root',
+    ]);
+    expect(userModel.find).toHaveBeenCalledWith({
+      username: { $in: ['Root', 'boss'] },
+    });
+    expect(userModel.updateMany).toHaveBeenCalledWith(
+      { _id: { $in: [root._id] } },
+      { $addToSet: { roles: 'admin' } },
+    );
+  });
 });
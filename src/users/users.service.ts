@@ -1,7 +1,17 @@
-import { Injectable } from '@nestjs/common';
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
 import { InjectModel } from '@nestjs/mongoose';
-import { Model } from 'mongoose';
+import { isValidObjectId, Model } from 'mongoose';
 import { User, UserDocument } from './users.schema';
+import { GameSourceName } from '../interfaces/game-source.interfaces';
+import { LinkedAccount } from '../interfaces/profile.interfaces';
+import { MIN_PASSWORD_LENGTH, PasswordUtils } from '../auth/password.util';
+
+const SOURCES: GameSourceName[] = ['chesscom', 'lichess'];
 
 @Injectable()
 export class UsersService {
@@ -10,8 +20,154 @@ export class UsersService {
   async findAll(): Promise<User[]> {
     return this.userModel.find().exec();
   }
+  /**
+   * La contraseña se guarda con scrypt, nunca en claro
+   */
   async create(user: Partial<User>): Promise<User> {
-    const newUser = new this.userModel(user);
+    const username =
+      typeof user?.username === 'string' ? user.username.trim() : '';
+    if (!username) {
+      throw new BadRequestException('Falta el nombre de usuario.');
+    }
+    if (
+      typeof user.password !== 'string' ||
+      user.password.length < MIN_PASSWORD_LENGTH
+    ) {
+      throw new BadRequestException(
+        `La contraseña debe tener al menos ${MIN_PASSWORD_LENGTH} caracteres.`,
+      );
+    }
+    if (
+      user.roles !== undefined &&
+      (!Array.isArray(user.roles) ||
+        user.roles.some((role) => typeof role !== 'string'))
+    ) {
+      throw new BadRequestException('roles debe ser una lista de textos.');
+    }
+    if (await this.userModel.exists({ username }).exec()) {
+      throw new ConflictException(`El usuario "${username}" ya existe.`);
+    }
+
+    const newUser = new this.userModel({
+      username,
+      password: await PasswordUtils.hash(user.password),
+      roles: user.roles ?? ['user'],
+      eloRating: user.eloRating,
+    });
     return newUser.save();
   }  
+
+  /**
+   * Añade un rol a los usuarios con esos nombres exactos. Devuelve los
+   * nombres que existen.
+   */
+  async grantRole(usernames: string[], role: string): Promise<string[]> {
+    const users = await this.userModel
+      .find({ username: { $in: usernames } })
+      .select('username')
+      .exec();
+    if (users.length > 0) {
+      await this.userModel
+        .updateMany(
+          { _id: { $in: users.map(({ _id }) => _id) } },
+          { $addToSet: { roles: role } },
+        )
+        .exec();
+    }
+    return users.map(({ username }) => username);
+  }
+
+  /**
+   * Con el hash de la contraseña, solo para comprobarla en el login
+   */
+  async findWithPassword(username: string): Promise<UserDocument | null> {
+    if (typeof username !== 'string') return null;
+    return this.userModel
+      .findOne({ username: username.trim() })
+      .select('+password')
+      .exec();
+  }
+
+  async findOne(id: string): Promise<UserDocument> {
+    const user = isValidObjectId(id)
+      ? await this.userModel.findById(id).exec()
+      : null;
+    if (!user) {
+      throw new NotFoundException('No existe el usuario.');
+    }
+    return user;
+  }
+
+  /**
+   * Usuario al que pertenece una cuenta de chess.com / Lichess, si lo hay
+   */
+  async findByAccount(
+    source: GameSourceName,
+    username: string,
+  ): Promise<UserDocument | null> {
+    return this.userModel
+      .findOne({
+        linkedAccounts: {
+          $elemMatch: { source, username: username.toLowerCase() },
+        },
+      })
+      .exec();
+  }
+
+  /**
+   * Una cuenta solo puede estar vinculada a un usuario; vincularla otra vez
+   * al mismo no hace nada
+   */
+  async linkAccount(
+    id: string,
+    account: Partial<LinkedAccount>,
+  ): Promise<UserDocument> {
+    const linked = this.parseAccount(account?.source, account?.username);
+    await this.findOne(id);
+
+    const owner = await this.findByAccount(linked.source, linked.username);
+    if (owner && owner._id.toString() !== id) {
+      throw new ConflictException(
+        `La cuenta "${linked.username}" ya está vinculada a otro usuario.`,
+      );
+    }
+    return this.userModel
+      .findByIdAndUpdate(
+        id,
+        { $addToSet: { linkedAccounts: linked } },
+        { new: true },
+      )
+      .exec();
+  }
+
+  async unlinkAccount(
+    id: string,
+    source: string,
+    username: string,
+  ): Promise<UserDocument> {
+    const linked = this.parseAccount(source, username);
+    await this.findOne(id);
+    return this.userModel
+      .findByIdAndUpdate(
+        id,
+        { $pull: { linkedAccounts: linked } },
+        { new: true },
+      )
+      .exec();
+  }
+
+  private parseAccount(source: unknown, username: unknown): LinkedAccount {
+    if (!SOURCES.includes(source as GameSourceName)) {
+      throw new BadRequestException(
+        `Fuente desconocida. Usa una de: ${SOURCES.join(', ')}.`,
+      );
+    }
+    if (typeof username !== 'string' || !username.trim()) {
+      throw new BadRequestException('Falta el nombre de usuario de la cuenta.');
+    }
+    return {
+      source: source as GameSourceName,
+      username: username.trim().toLowerCase(),
+    };
+  }
 }
@@ -0,0 +1,248 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { INestApplication } from '@nestjs/common';
+import { ConfigModule, ConfigService } from '@nestjs/config';
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import request from 'supertest';
+import { GameSourcesModule } from './../src/game-sources/game-sources.module';
+
+const PGN = '[White "hikaru"]\n[Black "rival"]\n\n1. e4 e5 1-0';
+
+const chessComGame = (
+  id: string,
+  endTime: string,
+  timeClass: string,
+  whiteResult = 'win',
+  blackResult = 'resigned',
+) => ({
+  url: `https://www.chess.com/game/live/${id}`,
+  uuid: id,
+  pgn: PGN,
+  time_control: '180+2',
+  time_class: timeClass,
+  end_time: Date.parse(endTime) / 1000,
+  rated: true,
+  white: { username: 'hikaru', rating: 3300, result: whiteResult },
+  black: { username: 'rival', rating: 2900, result: blackResult },
+});
+
+const lichessGame = {
+  id: 'abcd1234',
+  rated: true,
+  speed: 'blitz',
+  perf: 'blitz',
+  lastMoveAt: Date.parse('2024-03-10T12:00:00Z'),
+  status: 'draw',
+  players: {
+    white: {
+      user: { name: 'DrNykterstein', id: 'drnykterstein' },
+      rating: 3200,
+    },
+    black: { aiLevel: 8 },
+  },
+  clock: { initial: 180, increment: 0 },
+  pgn: `${PGN}\n`,
+};
+
+/**
+ * Sustituto local de chess.com y Lichess. Guarda la última petición a Lichess.
+ */
+const startMockServer = (onLichess: (req: IncomingMessage) => void) => {
+  const server = createServer((req: IncomingMessage, res: ServerResponse) => {
+    const { pathname } = new URL(req.url!, 'http://localhost');
+    const json = (body: unknown) => {
+      res.setHeader('Content-Type', 'application/json');
+      res.end(JSON.stringify(body));
+    };
+
+    if (pathname === '/pub/player/hikaru/games/archives') {
+      return json({
+        archives: [
+          'https://api.chess.com/pub/player/hikaru/games/2024/02',
+          'https://api.chess.com/pub/player/hikaru/games/2024/03',
+        ],
+      });
+    }
+    if (pathname === '/pub/player/hikaru/games/2024/02') {
+      return json({
+        games: [chessComGame('feb', '2024-02-20T10:00:00Z', 'rapid')],
+      });
+    }
+    if (pathname === '/pub/player/hikaru/games/2024/03') {
+      return json({
+        games: [
+          chessComGame(
+            'mar1',
+            '2024-03-01T10:00:00Z',
+            'blitz',
+            'agreed',
+            'agreed',
+          ),
+          chessComGame(
+            'mar2',
+            '2024-03-05T10:00:00Z',
+            'bullet',
+            'timeout',
+            'win',
+          ),
+        ],
+      });
+    }
+    if (pathname === '/api/games/user/DrNykterstein') {
+      onLichess(req);
+      if (req.headers.accept === 'application/x-ndjson') {
+        res.setHeader('Content-Type', 'application/x-ndjson');
+        return res.end(`${JSON.stringify(lichessGame)}\n`);
+      }
+      res.setHeader('Content-Type', 'application/x-chess-pgn');
+      return res.end(`${PGN}\n\n\n`);
+    }
+    if (pathname === '/api/games/user/down') {
+      res.statusCode = 503;
+      return res.end();
+    }
+    if (pathname === '/api/games/user/garbled') {
+      res.setHeader('Content-Type', 'application/x-ndjson');
+      return res.end('{"id": "abcd1234",\n');
+    }
+    res.statusCode = 404;
+    res.end();
+  });
+  return new Promise<Server>((resolve) =>
+    server.listen(0, '127.0.0.1', () => resolve(server)),
+  );
+};
+
+describe('GameSources (e2e)', () => {
+  let app: INestApplication;
+  let server: Server;
+  let lichessRequest: IncomingMessage | undefined;
+
+  beforeAll(async () => {
+    server = await startMockServer((req) => (lichessRequest = req));
+    const { port } = server.address() as AddressInfo;
+    const baseUrl = `http://127.0.0.1:${port}`;
+
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [
+        ConfigModule.forRoot({ isGlobal: true, ignoreEnvFile: true }),
+        GameSourcesModule,
+      ],
+    })
+      .overrideProvider(ConfigService)
+      .useValue(
+        new ConfigService({
+          CHESSCOM_API_URL: baseUrl,
+          LICHESS_API_URL: baseUrl,
+        }),
+      )
+      .compile();
+
+    app = moduleFixture.createNestApplication();
+    await app.init();
+  });
+
+  afterAll(async () => {
+    await app.close();
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it('returns normalized chess.com games, newest first across months', async () => {
+    const { body } = await request(app.getHttpServer())
+      .get('/games/chesscom/hikaru')
+      .expect(200);
+
+    expect(body.map((game) => game.id)).toEqual(['mar2', 'mar1', 'feb']);
+    expect(body[0]).toEqual({
+      id: 'mar2',
+      source: 'chesscom',
+      url: 'https://www.chess.com/game/live/mar2',
+      white: { username: 'hikaru', rating: 3300 },
+      black: { username: 'rival', rating: 2900 },
+      result: '0-1',
+      perfType: 'bullet',
+      timeControl: '180+2',
+      rated: true,
+      endedAt: '2024-03-05T10:00:00.000Z',
+      pgn: PGN,
+    });
+    expect(body[1].result).toBe('1/2-1/2');
+  });
+
+  it('filters chess.com games by date range, perf type and max', async () => {
+    const byDate = await request(app.getHttpServer())
+      .get('/games/chesscom/hikaru?since=2024-02-01&until=2024-03-02')
+      .expect(200);
+    expect(byDate.body.map((game) => game.id)).toEqual(['mar1', 'feb']);
+
+    const byPerf = await request(app.getHttpServer())
+      .get('/games/chesscom/hikaru?perfType=rapid,blitz&max=1')
+      .expect(200);
+    expect(byPerf.body.map((game) => game.id)).toEqual(['mar1']);
+  });
+
+  it('exports Lichess games as NDJSON with the filters as query params', async () => {
+    const { body } = await request(app.getHttpServer())
+      .get(
+        '/games/lichess/DrNykterstein?since=2024-03-01T00:00:00Z&perfType=blitz&max=10',
+      )
+      .expect(200);
+
+    const query = new URL(lichessRequest!.url!, 'http://localhost')
+      .searchParams;
+    expect(query.get('since')).toBe(String(Date.parse('2024-03-01T00:00:00Z')));
+    expect(query.get('perfType')).toBe('blitz');
+    expect(query.get('max')).toBe('10');
+    expect(query.get('pgnInJson')).toBe('true');
+
+    expect(body).toEqual([
+      {
+        id: 'abcd1234',
+        source: 'lichess',
+        url: expect.stringMatching(/\/abcd1234$/),
+        white: { username: 'DrNykterstein', rating: 3200 },
+        black: { username: 'Stockfish level 8', rating: null },
+        result: '1/2-1/2',
+        perfType: 'blitz',
+        timeControl: '180+0',
+        rated: true,
+        endedAt: '2024-03-10T12:00:00.000Z',
+        pgn: PGN,
+      },
+    ]);
+  });
+
+  it('downloads the raw PGN from either provider', async () => {
+    const lichess = await request(app.getHttpServer())
+      .get('/games/lichess/DrNykterstein/pgn')
+      .expect(200);
+    expect(lichessRequest!.headers.accept).toBe('application/x-chess-pgn');
+    expect(lichess.text).toBe(PGN);
+
+    const chessCom = await request(app.getHttpServer())
+      .get('/games/chesscom/hikaru/pgn?max=2')
+      .expect(200);
+    expect(chessCom.text).toBe(`${PGN}\n\n${PGN}`);
+  });
+
+  it('rejects unknown providers, bad filters and unknown users', async () => {
+    await request(app.getHttpServer()).get('/games/fics/hikaru').expect(400);
+    await request(app.getHttpServer())
+      .get('/games/constructor/hikaru')
+      .expect(400);
+    await request(app.getHttpServer())
+      .get('/games/lichess/DrNykterstein?since=yesterday')
+      .expect(400);
+    await request(app.getHttpServer())
+      .get('/games/chesscom/nobody')
+      .expect(404);
+    await request(app.getHttpServer()).get('/games/lichess/nobody').expect(404);
+  });
+
+  it('returns 502 when Lichess fails or sends unreadable games', async () => {
+    await request(app.getHttpServer()).get('/games/lichess/down').expect(502);
+    await request(app.getHttpServer())
+      .get('/games/lichess/garbled')
+      .expect(502);
+  });
+});